@@ -9,6 +9,13 @@ import Transactions from './pages/Transactions';
 import Users from './pages/Users';
 import Reports from './pages/Reports';
 import Billings from './pages/Billings';
+import Locations from './pages/Locations';
+import CycleCounts from './pages/CycleCounts';
+import AddressBook from './pages/AddressBook';
+import PackStation from './pages/PackStation';
+import LoadPlanner from './pages/LoadPlanner';
+import Returns from './pages/Returns';
+import Replenishment from './pages/Replenishment';
 import Login from './pages/Login';
 import Register from './pages/Register';
 import Alert from './components/Alert';
@@ -53,11 +60,46 @@ function App() {
                   <Orders />
                 </ProtectedRoute>
               } />
+              <Route path="address-book" element={
+                <ProtectedRoute allowedRoles={['admin', 'staff', 'vendor']}>
+                  <AddressBook />
+                </ProtectedRoute>
+              } />
               <Route path="transactions" element={
                 <ProtectedRoute allowedRoles={['admin', 'staff']}>
                   <Transactions />
                 </ProtectedRoute>
               } />
+              <Route path="replenishment" element={
+                <ProtectedRoute allowedRoles={['admin', 'staff', 'vendor']}>
+                  <Replenishment />
+                </ProtectedRoute>
+              } />
+              <Route path="returns" element={
+                <ProtectedRoute allowedRoles={['admin', 'staff', 'vendor']}>
+                  <Returns />
+                </ProtectedRoute>
+              } />
+              <Route path="pack-station" element={
+                <ProtectedRoute allowedRoles={['admin', 'staff']}>
+                  <PackStation />
+                </ProtectedRoute>
+              } />
+              <Route path="load-planner" element={
+                <ProtectedRoute allowedRoles={['admin', 'staff', 'vendor']}>
+                  <LoadPlanner />
+                </ProtectedRoute>
+              } />
+              <Route path="locations" element={
+                <ProtectedRoute allowedRoles={['admin', 'staff']}>
+                  <Locations />
+                </ProtectedRoute>
+              } />
+              <Route path="cycle-counts" element={
+                <ProtectedRoute allowedRoles={['admin', 'staff']}>
+                  <CycleCounts />
+                </ProtectedRoute>
+              } />
               <Route path="users" element={
                 <ProtectedRoute allowedRoles={['admin']}>
                   <Users />
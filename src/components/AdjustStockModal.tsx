@@ -0,0 +1,237 @@
+import React, { useMemo } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { AdjustmentReason, Product, StockStatus, Transaction } from '../types';
+import { useInventoryStore, useAlertStore } from '../store';
+import { useAuthStore } from '../store/auth';
+import { useLocationStore } from '../store/locations';
+import Modal from './Modal';
+import SearchableSelect from './SearchableSelect';
+import {
+  getHeldQuantity,
+  getLocationQuantity,
+  getProductStock,
+  getStockSummary,
+  getUnreservedLocationQuantity,
+  stockStatusLabels
+} from '../utils/stock';
+import { adjustmentReasonLabels, generateWorkflowNumber } from '../utils/workflow';
+import { getSerialDirection, parseSerialInput, validateSerials } from '../utils/serials';
+
+interface AdjustStockModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  product: Product | null;
+}
+
+interface AdjustmentFormData {
+  location: string;
+  quantity: number;
+  reasonCode: AdjustmentReason;
+  stockStatus: StockStatus;
+  serialInput?: string;
+  notes?: string;
+}
+
+function AdjustStockModal({ isOpen, onClose, product }: AdjustStockModalProps) {
+  const { register, handleSubmit, reset, control, watch } = useForm<AdjustmentFormData>();
+  const { transactions, stock, serials, postWorkflow } = useInventoryStore();
+  const { locations } = useLocationStore();
+  const { setAlert } = useAlertStore();
+  const { user } = useAuthStore();
+
+  // Offer the bins that hold the product plus every bin in the location master
+  const locationOptions = useMemo(() => {
+    if (!product) return [];
+    const productStock = getProductStock(stock, product.id);
+    const codes = Array.from(new Set([
+      product.location,
+      ...productStock.map(s => s.location),
+      ...locations.map(l => l.code)
+    ])).filter(Boolean).sort();
+
+    return codes.map(code => ({
+      value: code,
+      label: code,
+      description: `Stock: ${getLocationQuantity(stock, product.id, code)}`
+    }));
+  }, [product, stock, locations]);
+
+  const selectedLocation = watch('location');
+
+  if (!product) return null;
+
+  const onSubmit = (data: AdjustmentFormData) => {
+    const delta = Number(data.quantity);
+    if (delta === 0) {
+      setAlert('Adjustment quantity cannot be zero', 'error');
+      return;
+    }
+
+    // Available units promised to pending outbounds can't be written off
+    const onHand = data.stockStatus === 'available'
+      ? getUnreservedLocationQuantity(stock, transactions, product.id, data.location)
+      : getLocationQuantity(stock, product.id, data.location);
+    if (delta < 0 && onHand + delta < 0) {
+      setAlert(`Cannot remove more than ${Math.max(onHand, 0)} units from ${data.location}`, 'error');
+      return;
+    }
+
+    const statusQuantity = data.stockStatus === 'available'
+      ? getStockSummary(product, transactions).available
+      : getHeldQuantity(product, data.stockStatus);
+    if (delta < 0 && statusQuantity + delta < 0) {
+      setAlert(`Cannot remove more than ${statusQuantity} ${stockStatusLabels[data.stockStatus].toLowerCase()} units`, 'error');
+      return;
+    }
+
+    // Serialized units found or written off are identified so the serial ledger matches stock
+    const serialNumbers = product.serialized ? parseSerialInput(data.serialInput || '') : undefined;
+    if (serialNumbers) {
+      const direction = getSerialDirection('adjustment', delta);
+      const serialError = validateSerials(
+        serials,
+        product.id,
+        serialNumbers,
+        Math.abs(delta),
+        direction,
+        direction === 'out' ? data.location : undefined
+      );
+      if (serialError) {
+        setAlert(serialError, 'error');
+        return;
+      }
+    }
+
+    const transaction: Transaction = {
+      id: crypto.randomUUID(),
+      type: 'adjustment',
+      productId: product.id,
+      quantity: delta,
+      location: data.location,
+      reasonCode: data.reasonCode,
+      stockStatus: data.stockStatus,
+      serialNumbers,
+      status: 'pending',
+      workflowNumber: generateWorkflowNumber(transactions, 'AD'),
+      handlerName: user?.name,
+      notes: data.notes,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    postWorkflow(transaction);
+    setAlert('Stock adjustment posted successfully', 'success');
+    closeModal();
+  };
+
+  const closeModal = () => {
+    reset();
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={closeModal}
+      title={`Adjust Stock - ${product.sku}`}
+    >
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Location</label>
+          <Controller
+            name="location"
+            control={control}
+            rules={{ required: true }}
+            render={({ field }) => (
+              <SearchableSelect
+                options={locationOptions}
+                value={field.value}
+                onChange={field.onChange}
+                placeholder="Search and select a location..."
+                className="mt-1"
+              />
+            )}
+          />
+          {selectedLocation && (
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+              On hand: <span className="font-medium">{getLocationQuantity(stock, product.id, selectedLocation)}</span>
+            </p>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Quantity Change</label>
+          <input
+            type="number"
+            {...register('quantity', { required: true })}
+            placeholder="e.g. -3 or 5"
+            className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Use a negative number to remove stock
+          </p>
+        </div>
+        {product.serialized && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Serial Numbers</label>
+            <textarea
+              {...register('serialInput')}
+              rows={4}
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm font-mono"
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              One serial per unit added or removed, separated by new lines, spaces or commas
+            </p>
+          </div>
+        )}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Reason</label>
+          <select
+            {...register('reasonCode', { required: true })}
+            className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+          >
+            {Object.entries(adjustmentReasonLabels).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Stock Status</label>
+          <select
+            {...register('stockStatus')}
+            defaultValue="available"
+            className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+          >
+            {Object.entries(stockStatusLabels).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Notes</label>
+          <textarea
+            {...register('notes')}
+            rows={3}
+            className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+          />
+        </div>
+        <div className="flex justify-end space-x-3 pt-4">
+          <button
+            type="button"
+            onClick={closeModal}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 rounded-md"
+          >
+            Post Adjustment
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+export default AdjustStockModal;
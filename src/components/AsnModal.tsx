@@ -0,0 +1,186 @@
+import React, { useState, useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { Plus, Trash2 } from 'lucide-react';
+import { Product } from '../types';
+import { useAlertStore } from '../store';
+import Modal from './Modal';
+import SearchableSelect from './SearchableSelect';
+import { AsnDraft } from '../utils/asns';
+
+interface AsnModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreate: (draft: AsnDraft, vendorNumber: string) => void;
+  products: Product[];
+}
+
+interface AsnFormData {
+  referenceNumber: string;
+  carrier: string;
+  expectedDate: string;
+  notes?: string;
+}
+
+interface AsnLineInput {
+  id: string;
+  productId: string;
+  quantity: number;
+}
+
+const newLine = (): AsnLineInput => ({ id: crypto.randomUUID(), productId: '', quantity: 1 });
+
+function AsnModal({ isOpen, onClose, onCreate, products }: AsnModalProps) {
+  const [lines, setLines] = useState<AsnLineInput[]>([newLine()]);
+  const { register, handleSubmit, reset } = useForm<AsnFormData>();
+  const { setAlert } = useAlertStore();
+
+  const productOptions = useMemo(() =>
+    products.map(product => ({
+      value: product.id,
+      label: `[${product.sku}] ${product.name}`,
+      description: `Vendor: ${product.vendorNumber}`
+    })),
+    [products]
+  );
+
+  const updateLine = (id: string, updates: Partial<AsnLineInput>) => {
+    setLines(lines.map(line => line.id === id ? { ...line, ...updates } : line));
+  };
+
+  const onSubmit = (data: AsnFormData) => {
+    const filledLines = lines.filter(line => line.productId);
+    if (filledLines.length === 0) {
+      setAlert('Add at least one SKU line', 'error');
+      return;
+    }
+    if (filledLines.some(line => Number(line.quantity) <= 0)) {
+      setAlert('Line quantities must be greater than 0', 'error');
+      return;
+    }
+
+    // An ASN is a single vendor's packing list
+    const vendorNumbers = new Set(
+      filledLines.map(line => products.find(p => p.id === line.productId)?.vendorNumber)
+    );
+    if (vendorNumbers.size > 1) {
+      setAlert('All lines of an ASN must belong to the same vendor', 'error');
+      return;
+    }
+
+    onCreate({
+      ...data,
+      lines: filledLines.map(line => ({ productId: line.productId, quantity: Number(line.quantity) }))
+    }, Array.from(vendorNumbers)[0] || '');
+    closeModal();
+  };
+
+  const closeModal = () => {
+    reset();
+    setLines([newLine()]);
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={closeModal}
+      title="New Advance Shipping Notice"
+    >
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Packing List Reference</label>
+            <input
+              type="text"
+              {...register('referenceNumber', { required: true })}
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Carrier</label>
+            <input
+              type="text"
+              {...register('carrier', { required: true })}
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+            />
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Expected Date</label>
+          <input
+            type="date"
+            {...register('expectedDate', { required: true })}
+            className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Lines</label>
+            <button
+              type="button"
+              onClick={() => setLines([...lines, newLine()])}
+              className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Line
+            </button>
+          </div>
+          {lines.map(line => (
+            <div key={line.id} className="flex items-start space-x-2 p-2 bg-gray-50 dark:bg-gray-800 rounded-lg">
+              <div className="flex-1">
+                <SearchableSelect
+                  options={productOptions}
+                  value={line.productId}
+                  onChange={(value) => updateLine(line.id, { productId: value })}
+                  placeholder="Search and select a product..."
+                />
+              </div>
+              <input
+                type="number"
+                min="1"
+                value={line.quantity}
+                onChange={(e) => updateLine(line.id, { quantity: Number(e.target.value) })}
+                className="block w-24 rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+              <button
+                type="button"
+                onClick={() => setLines(lines.filter(l => l.id !== line.id))}
+                disabled={lines.length === 1}
+                className="p-2 text-red-600 dark:text-red-400 hover:text-red-900 dark:hover:text-red-300 disabled:opacity-50"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Notes</label>
+          <textarea
+            {...register('notes')}
+            rows={2}
+            className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+          />
+        </div>
+        <div className="flex justify-end space-x-3 pt-4">
+          <button
+            type="button"
+            onClick={closeModal}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 rounded-md"
+          >
+            Create ASN
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+export default AsnModal;
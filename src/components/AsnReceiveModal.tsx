@@ -0,0 +1,142 @@
+import React, { useState, useMemo } from 'react';
+import { Transaction } from '../types';
+import { useInventoryStore, useAlertStore } from '../store';
+import { useAsnStore } from '../store/asns';
+import { useLocationStore } from '../store/locations';
+import Modal from './Modal';
+import SearchableSelect from './SearchableSelect';
+import { asnStatusLabels, getAsnLineProgress, getAsnStatus } from '../utils/asns';
+import { getLocationOptions } from '../utils/locations';
+
+interface AsnReceiveModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onReceiveLine: (transaction: Transaction) => void;
+}
+
+function AsnReceiveModal({ isOpen, onClose, onReceiveLine }: AsnReceiveModalProps) {
+  const [selectedAsnId, setSelectedAsnId] = useState('');
+  const [lineLocations, setLineLocations] = useState<Record<string, string>>({});
+  const { products, transactions, stock } = useInventoryStore();
+  const { asns } = useAsnStore();
+  const { locations } = useLocationStore();
+  const { setAlert } = useAlertStore();
+
+  const locationOptions = useMemo(() =>
+    getLocationOptions(locations, stock, products),
+    [locations, stock, products]
+  );
+
+  // Only ASNs with lines still to receive
+  const asnOptions = useMemo(() =>
+    asns
+      .filter(asn => getAsnStatus(asn, transactions) === 'open' || getAsnStatus(asn, transactions) === 'receiving')
+      .map(asn => ({
+        value: asn.id,
+        label: `${asn.asnNumber} - ${asn.referenceNumber}`,
+        description: `${asn.vendorNumber} | ${asn.carrier} | Expected ${asn.expectedDate} | ${asnStatusLabels[getAsnStatus(asn, transactions)]}`
+      })),
+    [asns, transactions]
+  );
+
+  const selectedAsn = asns.find(asn => asn.id === selectedAsnId);
+
+  // Each line is received into its own location, defaulting to the product's
+  const getLineLocation = (lineId: string, productId: string) =>
+    lineLocations[lineId] ?? products.find(p => p.id === productId)?.location ?? '';
+
+  const receiveLine = (lineId: string, transaction: Transaction) => {
+    const location = getLineLocation(lineId, transaction.productId);
+    if (!location) {
+      setAlert('Select a location to receive into', 'error');
+      return;
+    }
+    if (locations.length > 0 && !locations.some(l => l.code === location)) {
+      setAlert(`Location ${location} does not exist`, 'error');
+      return;
+    }
+    onReceiveLine({ ...transaction, location });
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Receive Against ASN"
+    >
+      <div className="space-y-4">
+        <SearchableSelect
+          options={asnOptions}
+          value={selectedAsnId}
+          onChange={setSelectedAsnId}
+          placeholder="Search and select an ASN..."
+        />
+
+        {selectedAsn && (
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead>
+              <tr>
+                <th className="px-4 py-2 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">SKU</th>
+                <th className="px-4 py-2 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Expected</th>
+                <th className="px-4 py-2 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Received</th>
+                <th className="px-4 py-2 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Location</th>
+                <th className="px-4 py-2 bg-gray-50 dark:bg-gray-700 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {selectedAsn.lines.map(line => {
+                const product = products.find(p => p.id === line.productId);
+                const progress = getAsnLineProgress(line.transactionId, transactions);
+                return (
+                  <tr key={line.id}>
+                    <td className="px-4 py-2 text-sm text-gray-900 dark:text-white">{product?.sku || 'N/A'}</td>
+                    <td className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">{line.expectedQuantity}</td>
+                    <td className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">
+                      {progress.isOpen ? '-' : progress.received}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">
+                      {progress.isOpen ? (
+                        <SearchableSelect
+                          options={locationOptions}
+                          value={getLineLocation(line.id, line.productId)}
+                          onChange={(value) => setLineLocations({ ...lineLocations, [line.id]: value })}
+                          placeholder="Select a location..."
+                        />
+                      ) : (
+                        progress.transaction?.location || '-'
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-right text-sm">
+                      {progress.isOpen && progress.transaction ? (
+                        <button
+                          onClick={() => receiveLine(line.id, progress.transaction as Transaction)}
+                          className="font-medium text-green-600 dark:text-green-400 hover:text-green-900 dark:hover:text-green-300"
+                        >
+                          Receive
+                        </button>
+                      ) : (
+                        <span className="text-gray-500 dark:text-gray-400">{progress.transaction?.status}</span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        <div className="flex justify-end pt-4">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+export default AsnReceiveModal;
@@ -2,6 +2,7 @@ import React, { useState, useRef } from 'react';
 import { Upload, AlertCircle, Download } from 'lucide-react';
 import { parseCSV, validateProducts } from '../utils/csv';
 import { Product } from '../types';
+import { useLocationStore } from '../store/locations';
 
 interface BulkImportModalProps {
   onClose: () => void;
@@ -15,6 +16,7 @@ function BulkImportModal({ onClose, onImport, existingProducts, allowedVendorNum
   const [isDragging, setIsDragging] = useState(false);
   const [isUpdate, setIsUpdate] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { locations } = useLocationStore();
 
   const handleFile = async (file: File) => {
     try {
@@ -35,23 +37,34 @@ function BulkImportModal({ onClose, onImport, existingProducts, allowedVendorNum
         });
       }
 
+      // Validate locations against the location master
+      if (locations.length > 0) {
+        products.forEach((product, index) => {
+          if (!locations.some(l => l.code === product.location)) {
+            validationErrors.push(
+              `Line ${index + 2}: Location ${product.location} does not exist`
+            );
+          }
+        });
+      }
+
       if (validationErrors.length > 0) {
         setErrors(validationErrors);
         return;
       }
 
-      // If updating, merge with existing products
-      if (isUpdate) {
-        products.forEach(product => {
-          const existingProduct = existingProducts.find(p => p.sku === product.sku);
-          if (existingProduct) {
-            product.id = existingProduct.id;
-            product.createdAt = existingProduct.createdAt;
-          }
-        });
-      }
-
-      onImport(products, isUpdate);
+      // If updating, merge with existing products so fields the file doesn't carry, such as
+      // held stock, serial tracking, pack levels and kit components, are kept
+      const imported = isUpdate
+        ? products.map(product => {
+            const existingProduct = existingProducts.find(p => p.sku === product.sku);
+            return existingProduct
+              ? { ...existingProduct, ...product, id: existingProduct.id, createdAt: existingProduct.createdAt }
+              : product;
+          })
+        : products;
+
+      onImport(imported, isUpdate);
       onClose();
     } catch (error) {
       setErrors(['Failed to parse CSV file. Please check the format and try again.']);
@@ -89,7 +102,11 @@ function BulkImportModal({ onClose, onImport, existingProducts, allowedVendorNum
       'Height',
       'Length',
       'Width',
-      'UnitCBM'
+      'DimensionUnit',
+      'WeightUnit',
+      'UnitCBM',
+      'ReorderPoint',
+      'ReorderQuantity'
     ].join(',');
 
     let exampleData = '';
@@ -106,13 +123,17 @@ function BulkImportModal({ onClose, onImport, existingProducts, allowedVendorNum
         product.height,
         product.length,
         product.width,
-        product.unitCbm
+        product.dimensionUnit || 'in',
+        product.weightUnit || 'lb',
+        product.unitCbm,
+        product.reorderPoint ?? '',
+        product.reorderQuantity ?? ''
       ].join(',')).join('\n');
     } else {
       // Use example data
       exampleData = [
-        'SKU123,Product Name,100,10,A1-01,V001,5.5,12,24,18,0.125',
-        'SKU456,Another Product,50,5,B2-03,V002,3.2,8,16,12,0.075'
+        'SKU123,Product Name,100,10,A1-01,V001,5.5,12,24,18,in,lb,0.125,20,50',
+        'SKU456,Another Product,50,5,B2-03,V002,1.5,20,40,30,cm,kg,0.024,,'
       ].join('\n');
     }
 
@@ -1,17 +1,21 @@
 import React, { useState, useRef } from 'react';
 import { Upload, AlertCircle, Download } from 'lucide-react';
 import Modal from './Modal';
-import { Transaction, Product } from '../types';
+import { Transaction, Product, Consignee } from '../types';
 import { generateWorkflowNumber } from '../utils/workflow';
+import { getAvailableAfterBackorders } from '../utils/backorders';
+import { findConsignee, toShipTo } from '../utils/consignees';
 
 interface BulkOrderModalProps {
   isOpen: boolean;
   onClose: () => void;
   onImport: (transactions: Transaction[]) => void;
   products: Product[];
+  consignees: Consignee[];
+  existingTransactions: Transaction[];
 }
 
-function BulkOrderModal({ isOpen, onClose, onImport, products }: BulkOrderModalProps) {
+function BulkOrderModal({ isOpen, onClose, onImport, products, consignees, existingTransactions }: BulkOrderModalProps) {
   const [errors, setErrors] = useState<string[]>([]);
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -57,9 +61,19 @@ function BulkOrderModal({ isOpen, onClose, onImport, products }: BulkOrderModalP
           return;
         }
 
-        // Check quantity for outbound requests
-        if (data.type.toLowerCase() === 'outbound' && product.quantity < Number(data.quantity)) {
-          errors.push(`Line ${lineNumber}: Insufficient quantity for SKU ${data.sku}`);
+        // Outbound requests beyond available stock, after open backorders and earlier lines in this file,
+        // are backordered
+        const backordered = data.type.toLowerCase() === 'outbound' &&
+          getAvailableAfterBackorders(product, [...existingTransactions, ...transactions]) < Number(data.quantity);
+
+        // Outbound rows may name a consignee from the vendor's address book
+        const consignee = data.consignee ? findConsignee(consignees, product.vendorNumber, data.consignee) : undefined;
+        if (data.consignee && !consignee) {
+          errors.push(`Line ${lineNumber}: Consignee "${data.consignee}" not found in the address book of vendor ${product.vendorNumber}`);
+          return;
+        }
+        if ((consignee || data.carrier) && data.type.toLowerCase() !== 'outbound') {
+          errors.push(`Line ${lineNumber}: Consignee and carrier can only be set on outbound requests`);
           return;
         }
 
@@ -68,8 +82,11 @@ function BulkOrderModal({ isOpen, onClose, onImport, products }: BulkOrderModalP
           type: data.type.toLowerCase(),
           productId: product.id,
           quantity: Number(data.quantity),
-          status: 'pending',
+          status: backordered ? 'backordered' : 'pending',
           workflowNumber: generateWorkflowNumber([]),
+          consigneeId: consignee?.id,
+          shipTo: consignee ? toShipTo(consignee) : undefined,
+          carrier: data.carrier || undefined,
           notes: data.notes || '',
           createdAt: new Date(),
           updatedAt: new Date()
@@ -107,10 +124,10 @@ function BulkOrderModal({ isOpen, onClose, onImport, products }: BulkOrderModalP
   };
 
   const downloadTemplate = () => {
-    const headers = ['SKU', 'Type', 'Quantity', 'Notes'].join(',');
+    const headers = ['SKU', 'Type', 'Quantity', 'Consignee', 'Carrier', 'Notes'].join(',');
     const exampleData = [
-      `${products[0]?.sku || 'SKU123'},inbound,100,Sample inbound request`,
-      `${products[0]?.sku || 'SKU123'},outbound,50,Sample outbound request`
+      `${products[0]?.sku || 'SKU123'},inbound,100,,,Sample inbound request`,
+      `${products[0]?.sku || 'SKU123'},outbound,50,${consignees[0]?.name || 'Acme Retail'},UPS,Sample outbound request`
     ].join('\n');
 
     const content = `${headers}\n${exampleData}`;
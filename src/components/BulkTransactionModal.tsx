@@ -7,9 +7,10 @@ interface BulkTransactionModalProps {
   onClose: () => void;
   onImport: (transactions: Transaction[]) => void;
   products: Product[];
+  existingTransactions: Transaction[];
 }
 
-function BulkTransactionModal({ onClose, onImport, products }: BulkTransactionModalProps) {
+function BulkTransactionModal({ onClose, onImport, products, existingTransactions }: BulkTransactionModalProps) {
   const [errors, setErrors] = useState<string[]>([]);
   const [isDragging, setIsDragging] = useState(false);
   const [selectedType, setSelectedType] = useState<'inbound' | 'outbound'>('inbound');
@@ -21,7 +22,7 @@ function BulkTransactionModal({ onClose, onImport, products }: BulkTransactionMo
       const transactions = parseTransactionCSV(text, selectedType, products);
       
       // Validate transactions
-      const validationErrors = validateTransactions(transactions, products, selectedType);
+      const validationErrors = validateTransactions(transactions, products, selectedType, existingTransactions);
 
       if (validationErrors.length > 0) {
         setErrors(validationErrors);
@@ -55,11 +56,15 @@ function BulkTransactionModal({ onClose, onImport, products }: BulkTransactionMo
   };
 
   const downloadTemplate = () => {
+    // Lot and expiry are only captured when receiving
     const headers = [
       'SKU',
       'Quantity',
+      'UoM',
       'ReferenceNumber',
       'HandlerName',
+      'Location',
+      ...(selectedType === 'inbound' ? ['LotNumber', 'ExpiryDate'] : []),
       'Notes'
     ].join(',');
 
@@ -67,8 +72,11 @@ function BulkTransactionModal({ onClose, onImport, products }: BulkTransactionMo
       [
         product.sku,
         '100',
+        'ea',
         selectedType === 'inbound' ? 'PO123456' : 'SO123456',
         'John Doe',
+        product.location,
+        ...(selectedType === 'inbound' ? ['LOT001', '2025-12-31'] : []),
         'Sample notes'
       ].join(',')
     ).join('\n');
@@ -0,0 +1,200 @@
+import React, { useMemo } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { Product, Transaction } from '../types';
+import { useInventoryStore, useAlertStore } from '../store';
+import { useAuthStore } from '../store/auth';
+import { useLocationStore } from '../store/locations';
+import Modal from './Modal';
+import SearchableSelect from './SearchableSelect';
+import { getLocationQuantity, getStockSummary } from '../utils/stock';
+import { generateWorkflowNumber } from '../utils/workflow';
+import { getAvailableToBuild, getComponentRequirements } from '../utils/kits';
+
+interface KitWorkflowModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  product: Product | null;
+}
+
+interface KitWorkflowFormData {
+  type: 'assemble' | 'disassemble';
+  quantity: number;
+  location: string;
+  notes?: string;
+}
+
+function KitWorkflowModal({ isOpen, onClose, product }: KitWorkflowModalProps) {
+  const { register, handleSubmit, reset, control, watch } = useForm<KitWorkflowFormData>({
+    defaultValues: { type: 'assemble', quantity: 1 }
+  });
+  const { products, transactions, stock, postWorkflow } = useInventoryStore();
+  const { locations } = useLocationStore();
+  const { setAlert } = useAlertStore();
+  const { user } = useAuthStore();
+
+  const locationOptions = useMemo(() => {
+    if (!product) return [];
+    const codes = Array.from(new Set([product.location, ...locations.map(l => l.code)])).filter(Boolean).sort();
+    return codes.map(code => ({
+      value: code,
+      label: code,
+      description: `Kits: ${getLocationQuantity(stock, product.id, code)}`
+    }));
+  }, [product, stock, locations]);
+
+  const type = watch('type');
+  const quantity = Number(watch('quantity')) || 0;
+
+  if (!product) return null;
+
+  const availableToBuild = getAvailableToBuild(product, products, transactions);
+  const availableKits = getStockSummary(product, transactions).available;
+  const requirements = getComponentRequirements(product, quantity);
+
+  const onSubmit = (data: KitWorkflowFormData) => {
+    const kits = Number(data.quantity);
+    if (!Number.isInteger(kits) || kits <= 0) {
+      setAlert('Quantity must be a whole number greater than 0', 'error');
+      return;
+    }
+    if (data.type === 'assemble' && kits > availableToBuild) {
+      setAlert(`Only ${availableToBuild} kits can be built from available components`, 'error');
+      return;
+    }
+    if (data.type === 'disassemble' && kits > availableKits) {
+      setAlert(`Only ${availableKits} kits are available to disassemble`, 'error');
+      return;
+    }
+
+    const transaction: Transaction = {
+      id: crypto.randomUUID(),
+      type: data.type,
+      productId: product.id,
+      quantity: kits,
+      location: data.location,
+      kitComponents: getComponentRequirements(product, kits),
+      status: 'pending',
+      workflowNumber: generateWorkflowNumber(transactions, 'KT'),
+      handlerName: user?.name,
+      notes: data.notes,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    postWorkflow(transaction);
+    setAlert(`${kits} x ${product.sku} ${data.type === 'assemble' ? 'assembled' : 'disassembled'}`, 'success');
+    closeModal();
+  };
+
+  const closeModal = () => {
+    reset();
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={closeModal}
+      title={`Kit Workflow - ${product.sku}`}
+    >
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Workflow</label>
+          <select
+            {...register('type')}
+            className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+          >
+            <option value="assemble">Assemble kits from components</option>
+            <option value="disassemble">Disassemble kits into components</option>
+          </select>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            {type === 'assemble'
+              ? `Available to build: ${availableToBuild}`
+              : `Kits available: ${availableKits}`}
+          </p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Kits</label>
+          <input
+            type="number"
+            min="1"
+            {...register('quantity', { required: true, min: 1 })}
+            className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            {type === 'assemble' ? 'Put Kits Into' : 'Put Components Into'}
+          </label>
+          <Controller
+            name="location"
+            control={control}
+            rules={{ required: true }}
+            render={({ field }) => (
+              <SearchableSelect
+                options={locationOptions}
+                value={field.value}
+                onChange={field.onChange}
+                placeholder="Search and select a location..."
+                className="mt-1"
+              />
+            )}
+          />
+        </div>
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <thead>
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Component</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">
+                {type === 'assemble' ? 'Consumed' : 'Returned'}
+              </th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Available</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {requirements.map(requirement => {
+              const component = products.find(p => p.id === requirement.productId);
+              const available = component ? getStockSummary(component, transactions).available : 0;
+              return (
+                <tr key={requirement.productId}>
+                  <td className="px-4 py-2 text-sm text-gray-900 dark:text-white">{component?.sku}</td>
+                  <td className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">{requirement.quantity}</td>
+                  <td className={`px-4 py-2 text-sm ${
+                    type === 'assemble' && available < requirement.quantity ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'
+                  }`}>
+                    {available}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Notes</label>
+          <textarea
+            {...register('notes')}
+            rows={3}
+            className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+          />
+        </div>
+        <div className="flex justify-end space-x-3 pt-4">
+          <button
+            type="button"
+            onClick={closeModal}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 rounded-md"
+          >
+            {type === 'assemble' ? 'Assemble' : 'Disassemble'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+export default KitWorkflowModal;
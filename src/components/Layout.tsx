@@ -12,7 +12,14 @@ import {
   Sun,
   Moon,
   DollarSign,
-  ClipboardList
+  ClipboardList,
+  MapPin,
+  ClipboardCheck,
+  BookUser,
+  PackageCheck,
+  Container,
+  RotateCcw,
+  RefreshCw
 } from 'lucide-react';
 import { useAuthStore } from '../store/auth';
 import { useThemeStore } from '../store/theme';
@@ -31,7 +38,14 @@ const navigation: NavItem[] = [
   { name: 'Dashboard', href: '/', icon: LayoutDashboard, roles: ['admin', 'staff', 'vendor'] },
   { name: 'Inventory', href: '/products', icon: Package, roles: ['admin', 'staff', 'vendor'] },
   { name: 'Orders', href: '/orders', icon: ClipboardList, roles: ['admin', 'staff', 'vendor'] },
+  { name: 'Address Book', href: '/address-book', icon: BookUser, roles: ['admin', 'staff', 'vendor'] },
+  { name: 'Replenishment', href: '/replenishment', icon: RefreshCw, roles: ['admin', 'staff', 'vendor'] },
+  { name: 'Returns', href: '/returns', icon: RotateCcw, roles: ['admin', 'staff', 'vendor'] },
   { name: 'Workflow', href: '/transactions', icon: ArrowRightLeft, roles: ['admin', 'staff'] },
+  { name: 'Pack Station', href: '/pack-station', icon: PackageCheck, roles: ['admin', 'staff'] },
+  { name: 'Load Planner', href: '/load-planner', icon: Container, roles: ['admin', 'staff', 'vendor'] },
+  { name: 'Locations', href: '/locations', icon: MapPin, roles: ['admin', 'staff'] },
+  { name: 'Cycle Counts', href: '/cycle-counts', icon: ClipboardCheck, roles: ['admin', 'staff'] },
   { name: 'Users', href: '/users', icon: Users, roles: ['admin'] },
   { name: 'Billing', href: '/billings', icon: DollarSign, roles: ['admin', 'staff', 'vendor'] },
   { name: 'Reports', href: '/reports', icon: FileText, roles: ['admin', 'staff'] },
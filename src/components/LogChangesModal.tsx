@@ -1,9 +1,22 @@
 import React, { useMemo } from 'react';
 import { useInventoryStore } from '../store';
 import { useAuthStore } from '../store/auth';
-import { Product, Transaction } from '../types';
+import { AdjustmentReason, KitComponent, Product, SerialStatus, StockStatus, Transaction, WorkflowType } from '../types';
 import Modal from './Modal';
 import { format } from 'date-fns';
+import { getHeldQuantity, getProductStock, getStockSummary, heldStockStatuses, stockStatusLabels } from '../utils/stock';
+import { adjustmentReasonLabels } from '../utils/workflow';
+import { getSerialHistory, serialStatusColors, serialStatusLabels } from '../utils/serials';
+
+const typeStyles: Record<WorkflowType, { color: string; symbol: string; verb: string }> = {
+  inbound: { color: 'bg-green-500', symbol: '+', verb: 'Received' },
+  outbound: { color: 'bg-blue-500', symbol: '-', verb: 'Shipped' },
+  transfer: { color: 'bg-purple-500', symbol: '↔', verb: 'Moved' },
+  adjustment: { color: 'bg-orange-500', symbol: '±', verb: 'Adjusted' },
+  status_change: { color: 'bg-pink-500', symbol: '⇄', verb: 'Changed status of' },
+  assemble: { color: 'bg-teal-500', symbol: '+', verb: 'Assembled' },
+  disassemble: { color: 'bg-yellow-500', symbol: '-', verb: 'Disassembled' }
+};
 
 interface LogChangesModalProps {
   isOpen: boolean;
@@ -12,7 +25,7 @@ interface LogChangesModalProps {
 }
 
 function LogChangesModal({ isOpen, onClose, product }: LogChangesModalProps) {
-  const { transactions } = useInventoryStore();
+  const { products, transactions, stock, serials } = useInventoryStore();
   const { user } = useAuthStore();
 
   const filteredTransactions = useMemo(() => {
@@ -20,13 +33,20 @@ function LogChangesModal({ isOpen, onClose, product }: LogChangesModalProps) {
 
     return transactions
       .filter(t => 
-        t.productId === product.id && 
+        (t.productId === product.id || t.kitComponents?.some((c: KitComponent) => c.productId === product.id)) &&
         t.status === 'completed' &&
         (user?.role === 'vendor' ? product.vendorNumber === user.vendorNumber : true)
       )
       .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
   }, [product, transactions, user]);
 
+  const productSerials = useMemo(() => {
+    if (!product) return [];
+    return serials
+      .filter(s => s.productId === product.id)
+      .sort((a, b) => a.serialNumber.localeCompare(b.serialNumber));
+  }, [product, serials]);
+
   if (!product) return null;
 
   return (
@@ -44,11 +64,24 @@ function LogChangesModal({ isOpen, onClose, product }: LogChangesModalProps) {
               <dd className="text-sm text-gray-900 dark:text-white">{product.name}</dd>
             </div>
             <div>
-              <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Current Quantity</dt>
-              <dd className="text-sm text-gray-900 dark:text-white">{product.quantity}</dd>
+              <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">On Hand / Reserved / Available</dt>
+              <dd className="text-sm text-gray-900 dark:text-white">
+                {product.quantity} / {getStockSummary(product, transactions).reserved} / {getStockSummary(product, transactions).available}
+              </dd>
             </div>
             <div>
-              <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Location</dt>
+              <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Held</dt>
+              <dd className="text-sm text-gray-900 dark:text-white">
+                {getHeldQuantity(product) === 0
+                  ? 'None'
+                  : heldStockStatuses
+                      .filter(status => getHeldQuantity(product, status) > 0)
+                      .map(status => `${stockStatusLabels[status]}: ${getHeldQuantity(product, status)}`)
+                      .join(', ')}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Default Location</dt>
               <dd className="text-sm text-gray-900 dark:text-white">{product.location}</dd>
             </div>
             <div>
@@ -58,6 +91,47 @@ function LogChangesModal({ isOpen, onClose, product }: LogChangesModalProps) {
           </dl>
         </div>
 
+        <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
+          <h3 className="text-sm font-medium text-gray-900 dark:text-white">Stock by Location</h3>
+          {getProductStock(stock, product.id).length === 0 ? (
+            <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">No stock on hand</p>
+          ) : (
+            <dl className="mt-2 grid grid-cols-2 gap-x-4 gap-y-2 sm:grid-cols-3">
+              {getProductStock(stock, product.id).map(entry => (
+                <div key={entry.location}>
+                  <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">{entry.location}</dt>
+                  <dd className="text-sm text-gray-900 dark:text-white">{entry.quantity}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </div>
+
+        {product.serialized && (
+          <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
+            <h3 className="text-sm font-medium text-gray-900 dark:text-white">Serial Numbers</h3>
+            {productSerials.length === 0 ? (
+              <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">No serial numbers recorded</p>
+            ) : (
+              <ul className="mt-2 max-h-48 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+                {productSerials.map(serial => (
+                  <li key={serial.serialNumber} className="flex items-center justify-between py-1.5 text-sm">
+                    <span className="font-mono text-gray-900 dark:text-white">{serial.serialNumber}</span>
+                    <span className="text-gray-500 dark:text-gray-400">
+                      {serial.status === 'in_stock' ? serial.location : getSerialHistory(serial).slice(-1)[0]?.workflowNumber}
+                    </span>
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                      serialStatusColors[serial.status as SerialStatus]
+                    }`}>
+                      {serialStatusLabels[serial.status as SerialStatus]}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         <div className="relative">
           <div className="absolute inset-0 flex items-center" aria-hidden="true">
             <div className="w-full border-t border-gray-300 dark:border-gray-600"></div>
@@ -88,21 +162,59 @@ function LogChangesModal({ isOpen, onClose, product }: LogChangesModalProps) {
                     <div className="relative flex space-x-3">
                       <div>
                         <span className={`h-8 w-8 rounded-full flex items-center justify-center ring-8 ring-white dark:ring-gray-800 ${
-                          transaction.type === 'inbound'
-                            ? 'bg-green-500'
-                            : 'bg-blue-500'
+                          typeStyles[transaction.type as WorkflowType].color
                         }`}>
                           <span className="text-white text-sm font-medium">
-                            {transaction.type === 'inbound' ? '+' : '-'}
+                            {typeStyles[transaction.type as WorkflowType].symbol}
                           </span>
                         </span>
                       </div>
                       <div className="flex min-w-0 flex-1 justify-between space-x-4 pt-1.5">
                         <div>
-                          <p className="text-sm text-gray-900 dark:text-white">
-                            {transaction.type === 'inbound' ? 'Received' : 'Shipped'}{' '}
-                            <span className="font-medium">{transaction.quantity}</span> units
-                          </p>
+                          {transaction.productId !== product.id ? (
+                            // This product was a component of a kit workflow
+                            <p className="text-sm text-gray-900 dark:text-white">
+                              {transaction.type === 'assemble' ? 'Used' : 'Returned'}{' '}
+                              <span className="font-medium">
+                                {transaction.kitComponents.find((c: KitComponent) => c.productId === product.id)?.quantity}
+                              </span> units {transaction.type === 'assemble' ? 'to assemble' : 'from disassembling'}{' '}
+                              {transaction.quantity} x {products.find(p => p.id === transaction.productId)?.sku}
+                            </p>
+                          ) : (
+                            <p className="text-sm text-gray-900 dark:text-white">
+                              {typeStyles[transaction.type as WorkflowType].verb}{' '}
+                              <span className="font-medium">
+                                {transaction.type === 'adjustment' && transaction.quantity > 0 ? `+${transaction.quantity}` : transaction.quantity}
+                              </span> units
+                              {transaction.type === 'transfer' ? (
+                                <> from {transaction.location} to {transaction.toLocation}</>
+                              ) : transaction.type === 'status_change' ? (
+                                <> from {stockStatusLabels[transaction.fromStatus as StockStatus]} to {stockStatusLabels[transaction.toStatus as StockStatus]}</>
+                              ) : transaction.type === 'adjustment' ? (
+                                <> in {transaction.location}</>
+                              ) : transaction.location && (
+                                <> {transaction.type === 'outbound' ? 'from' : 'into'} {transaction.location}</>
+                              )}
+                            </p>
+                          )}
+                          {transaction.type === 'inbound' && transaction.expectedQuantity !== undefined &&
+                            (Number(transaction.expectedQuantity) !== Number(transaction.quantity) || transaction.damagedQuantity > 0) && (
+                            <p className="mt-0.5 text-sm text-gray-500 dark:text-gray-400">
+                              Expected {transaction.expectedQuantity}
+                              {transaction.damagedQuantity > 0 && <>, {transaction.damagedQuantity} damaged</>}
+                              {transaction.receivingNotes && <> ({transaction.receivingNotes})</>}
+                            </p>
+                          )}
+                          {transaction.reasonCode && (
+                            <p className="mt-0.5 text-sm text-gray-500 dark:text-gray-400">
+                              Reason: {adjustmentReasonLabels[transaction.reasonCode as AdjustmentReason]}
+                            </p>
+                          )}
+                          {transaction.serialNumbers?.length > 0 && (
+                            <p className="mt-0.5 text-sm text-gray-500 dark:text-gray-400">
+                              Serials: <span className="font-mono">{transaction.serialNumbers.join(', ')}</span>
+                            </p>
+                          )}
                           {transaction.notes && (
                             <p className="mt-0.5 text-sm text-gray-500 dark:text-gray-400">
                               Note: {transaction.notes}
@@ -0,0 +1,141 @@
+import React, { useState, useMemo } from 'react';
+import { Printer } from 'lucide-react';
+import { Transaction } from '../types';
+import { useInventoryStore, useAlertStore } from '../store';
+import Modal from './Modal';
+import { buildPickList, generatePickSheet } from '../utils/pickLists';
+import { openPrintWindow } from '../utils/print';
+
+interface PickListModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transactions: Transaction[];
+  onConfirm: (transactions: Transaction[]) => void;
+}
+
+const getPickKey = (productId: string, location: string) => `${productId}|${location}`;
+
+function PickListModal({ isOpen, onClose, transactions, onConfirm }: PickListModalProps) {
+  const [picked, setPicked] = useState<string[]>([]);
+  const { products, stock } = useInventoryStore();
+  const { setAlert } = useAlertStore();
+
+  const pickList = useMemo(() =>
+    buildPickList(transactions, stock, products),
+    [transactions, stock, products]
+  );
+
+  const hasShortage = pickList.some(line => !line.location);
+  const allPicked = pickList.every(line => picked.includes(getPickKey(line.productId, line.location)));
+
+  const togglePicked = (key: string) => {
+    setPicked(picked.includes(key) ? picked.filter(k => k !== key) : [...picked, key]);
+  };
+
+  const handlePrint = () => {
+    if (!openPrintWindow(generatePickSheet(pickList, transactions, products))) {
+      setAlert('Allow pop-ups to print pick lists', 'error');
+    }
+  };
+
+  const handleConfirm = () => {
+    if (hasShortage) {
+      setAlert('Some lines have no stock to pick from', 'error');
+      return;
+    }
+    if (!allPicked) {
+      setAlert('Tick every line once it has been picked', 'error');
+      return;
+    }
+    onConfirm(transactions);
+    closeModal();
+  };
+
+  const closeModal = () => {
+    setPicked([]);
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={closeModal}
+      title={`Pick List - ${transactions.length} workflows`}
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Lines are sorted by location. Tick each line as it is picked, then confirm to complete the workflows.
+        </p>
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <thead>
+            <tr>
+              <th className="px-4 py-2 bg-gray-50 dark:bg-gray-700" />
+              <th className="px-4 py-2 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Location</th>
+              <th className="px-4 py-2 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">SKU</th>
+              <th className="px-4 py-2 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Quantity</th>
+              <th className="px-4 py-2 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Workflows</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {pickList.map(line => {
+              const product = products.find(p => p.id === line.productId);
+              const key = getPickKey(line.productId, line.location);
+              return (
+                <tr key={key}>
+                  <td className="px-4 py-2">
+                    <input
+                      type="checkbox"
+                      checked={picked.includes(key)}
+                      onChange={() => togglePicked(key)}
+                      disabled={!line.location}
+                      className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                    />
+                  </td>
+                  <td className="px-4 py-2 text-sm font-medium text-gray-900 dark:text-white">
+                    {line.location || <span className="text-red-600 dark:text-red-400">No stock</span>}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">
+                    {product?.sku}
+                    <div className="text-xs">{product?.name}</div>
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">{line.quantity}</td>
+                  <td className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400">
+                    {line.transactionIds
+                      .map(id => transactions.find(t => t.id === id)?.workflowNumber)
+                      .join(', ')}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <div className="flex justify-end space-x-3 pt-4">
+          <button
+            type="button"
+            onClick={handlePrint}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md"
+          >
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </button>
+          <button
+            type="button"
+            onClick={closeModal}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleConfirm}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 rounded-md"
+          >
+            Confirm Pick
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+export default PickListModal;
@@ -2,6 +2,9 @@ import React, { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { useAuthStore } from '../store/auth';
 import { useAlertStore } from '../store';
+import { useUnitStore } from '../store/units';
+import { UnitSystem } from '../types';
+import { unitSystemLabels } from '../utils/calculations';
 import bcrypt from 'bcryptjs';
 
 interface ProfileFormData {
@@ -10,6 +13,9 @@ interface ProfileFormData {
   currentPassword: string;
   newPassword: string;
   confirmPassword: string;
+  unitSystem: UnitSystem;
+  metricDivisor: number;
+  imperialDivisor: number;
 }
 
 interface ProfileSettingsProps {
@@ -19,11 +25,15 @@ interface ProfileSettingsProps {
 function ProfileSettings({ onClose }: ProfileSettingsProps) {
   const { user, updateUser } = useAuthStore();
   const { setAlert } = useAlertStore();
+  const { dimWeightDivisors, setDimWeightDivisors } = useUnitStore();
   const [isChangingPassword, setIsChangingPassword] = useState(false);
   const { register, handleSubmit, watch } = useForm<ProfileFormData>({
     defaultValues: {
       name: user?.name || '',
-      email: user?.email || ''
+      email: user?.email || '',
+      unitSystem: user?.unitSystem || 'imperial',
+      metricDivisor: dimWeightDivisors.metric,
+      imperialDivisor: dimWeightDivisors.imperial
     }
   });
 
@@ -55,10 +65,19 @@ function ProfileSettings({ onClose }: ProfileSettingsProps) {
         });
       }
 
-      // Update user name
+      // Divisors apply to everyone, so only admins can change them
+      if (user?.role === 'admin') {
+        setDimWeightDivisors({
+          metric: Number(data.metricDivisor),
+          imperial: Number(data.imperialDivisor)
+        });
+      }
+
+      // Update user name and display units
       const updatedUser = {
         ...user!,
-        name: data.name
+        name: data.name,
+        unitSystem: data.unitSystem
       };
 
       updateUser(updatedUser);
@@ -88,6 +107,37 @@ function ProfileSettings({ onClose }: ProfileSettingsProps) {
           className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-800 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:text-gray-400 sm:text-sm"
         />
       </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Display Units</label>
+        <select
+          {...register('unitSystem')}
+          className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+        >
+          {Object.entries(unitSystemLabels).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+      {user?.role === 'admin' && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Dim Weight Divisor (cm³/kg)</label>
+            <input
+              type="number"
+              {...register('metricDivisor', { required: true, min: 1 })}
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Dim Weight Divisor (in³/lb)</label>
+            <input
+              type="number"
+              {...register('imperialDivisor', { required: true, min: 1 })}
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+            />
+          </div>
+        </div>
+      )}
       
       <div className="border-t pt-4">
         <button
@@ -0,0 +1,196 @@
+import React, { useState, useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { Product, Rma, Transaction } from '../types';
+import { useAlertStore } from '../store';
+import Modal from './Modal';
+import SearchableSelect from './SearchableSelect';
+import { RmaDraft, getReturnableQuantity, getReturnableWorkflows, getShippedQuantities } from '../utils/rmas';
+
+interface RmaModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreate: (draft: RmaDraft, vendorNumber: string) => void;
+  products: Product[];
+  transactions: Transaction[];
+  rmas: Rma[];
+}
+
+interface RmaFormData {
+  reason: string;
+  notes?: string;
+}
+
+function RmaModal({ isOpen, onClose, onCreate, products, transactions, rmas }: RmaModalProps) {
+  const [workflowNumber, setWorkflowNumber] = useState('');
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const { register, handleSubmit, reset } = useForm<RmaFormData>();
+  const { setAlert } = useAlertStore();
+
+  const workflowOptions = useMemo(() =>
+    getReturnableWorkflows(transactions, products).map(number => {
+      const shipped = getShippedQuantities(transactions, number);
+      const skus = Object.keys(shipped)
+        .map(productId => products.find(p => p.id === productId)?.sku)
+        .filter(Boolean);
+      return {
+        value: number,
+        label: number,
+        description: skus.join(', ')
+      };
+    }),
+    [transactions, products]
+  );
+
+  // Lines shipped on the selected workflow, limited to the products this user can see
+  const shippedLines = useMemo(() => {
+    if (!workflowNumber) return [];
+    const shipped = getShippedQuantities(transactions, workflowNumber);
+    return Object.entries(shipped)
+      .map(([productId, quantity]) => ({
+        product: products.find(p => p.id === productId),
+        shipped: quantity,
+        returnable: getReturnableQuantity(transactions, rmas, workflowNumber, productId)
+      }))
+      .filter((line): line is { product: Product; shipped: number; returnable: number } => Boolean(line.product));
+  }, [workflowNumber, transactions, products, rmas]);
+
+  const onSubmit = (data: RmaFormData) => {
+    if (!workflowNumber) {
+      setAlert('Select the outbound workflow being returned', 'error');
+      return;
+    }
+
+    const lines = shippedLines
+      .filter(line => Number(quantities[line.product.id]) > 0)
+      .map(line => ({ productId: line.product.id, quantity: Number(quantities[line.product.id]) }));
+    if (lines.length === 0) {
+      setAlert('Enter a return quantity for at least one SKU', 'error');
+      return;
+    }
+
+    for (const line of shippedLines) {
+      const quantity = Number(quantities[line.product.id]) || 0;
+      if (quantity <= 0) continue;
+      if (!Number.isInteger(quantity)) {
+        setAlert('Return quantities must be whole numbers', 'error');
+        return;
+      }
+      if (line.product.serialized) {
+        setAlert(`${line.product.sku} is serialized and cannot be returned through an RMA`, 'error');
+        return;
+      }
+      if (quantity > line.returnable) {
+        setAlert(`Only ${line.returnable} units of ${line.product.sku} can be returned`, 'error');
+        return;
+      }
+    }
+
+    // A return goes back to the vendor that owns the shipped stock
+    const vendorNumbers = new Set(
+      lines.map(line => products.find(p => p.id === line.productId)?.vendorNumber)
+    );
+    if (vendorNumbers.size > 1) {
+      setAlert('All lines of a return must belong to the same vendor', 'error');
+      return;
+    }
+
+    onCreate({
+      outboundWorkflowNumber: workflowNumber,
+      reason: data.reason,
+      notes: data.notes,
+      lines
+    }, Array.from(vendorNumbers)[0] || '');
+    closeModal();
+  };
+
+  const closeModal = () => {
+    reset();
+    setWorkflowNumber('');
+    setQuantities({});
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={closeModal}
+      title="Raise Return"
+    >
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Outbound Workflow</label>
+          <SearchableSelect
+            options={workflowOptions}
+            value={workflowNumber}
+            onChange={(value) => {
+              setWorkflowNumber(value);
+              setQuantities({});
+            }}
+            placeholder="Search shipped workflow numbers..."
+            className="mt-1"
+          />
+        </div>
+
+        {shippedLines.length > 0 && (
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Return Quantities</label>
+            {shippedLines.map(line => (
+              <div key={line.product.id} className="flex items-center space-x-2 p-2 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <div className="flex-1 text-sm text-gray-900 dark:text-white">
+                  [{line.product.sku}] {line.product.name}
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Shipped: {line.shipped} | Returnable: {line.returnable}
+                  </p>
+                </div>
+                <input
+                  type="number"
+                  min="0"
+                  max={line.returnable}
+                  value={quantities[line.product.id] ?? ''}
+                  onChange={(e) => setQuantities({ ...quantities, [line.product.id]: Number(e.target.value) })}
+                  disabled={line.returnable === 0}
+                  className="block w-24 rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm disabled:opacity-50"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Reason</label>
+          <input
+            type="text"
+            {...register('reason', { required: true })}
+            placeholder="e.g. Damaged in transit"
+            className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Notes</label>
+          <textarea
+            {...register('notes')}
+            rows={2}
+            className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+          />
+        </div>
+        <div className="flex justify-end space-x-3 pt-4">
+          <button
+            type="button"
+            onClick={closeModal}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 rounded-md"
+          >
+            Raise Return
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+export default RmaModal;
@@ -0,0 +1,113 @@
+import React, { useState, useMemo } from 'react';
+import { Search } from 'lucide-react';
+import { format } from 'date-fns';
+import { SerialStatus } from '../types';
+import { useInventoryStore } from '../store';
+import Modal from './Modal';
+import { getSerialHistory, searchSerials, serialMovementLabels, serialStatusColors, serialStatusLabels } from '../utils/serials';
+
+interface SerialLookupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  allowedVendorNumbers: string[];
+}
+
+function SerialLookupModal({ isOpen, onClose, allowedVendorNumbers }: SerialLookupModalProps) {
+  const [searchTerm, setSearchTerm] = useState('');
+  const { products, serials } = useInventoryStore();
+
+  const results = useMemo(() => {
+    return searchSerials(serials, searchTerm).filter(serial => {
+      const product = products.find(p => p.id === serial.productId);
+      return allowedVendorNumbers.includes('ALL') || allowedVendorNumbers.includes(product?.vendorNumber);
+    });
+  }, [serials, products, searchTerm, allowedVendorNumbers]);
+
+  const closeModal = () => {
+    setSearchTerm('');
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={closeModal}
+      title="Serial Number Lookup"
+    >
+      <div className="space-y-4">
+        <div className="relative">
+          <input
+            type="text"
+            placeholder="Scan or type a serial number..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            autoFocus
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
+          />
+          <Search className="absolute left-3 top-2.5 h-5 w-5 text-gray-400 dark:text-gray-500" />
+        </div>
+
+        {searchTerm.trim() && results.length === 0 && (
+          <p className="text-center py-4 text-sm text-gray-500 dark:text-gray-400">
+            No serial numbers found
+          </p>
+        )}
+
+        <ul className="space-y-3 max-h-96 overflow-y-auto">
+          {results.map(serial => {
+            const product = products.find(p => p.id === serial.productId);
+            return (
+              <li key={`${serial.productId}-${serial.serialNumber}`} className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium font-mono text-gray-900 dark:text-white">{serial.serialNumber}</span>
+                  <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                    serialStatusColors[serial.status as SerialStatus]
+                  }`}>
+                    {serialStatusLabels[serial.status as SerialStatus]}
+                  </span>
+                </div>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  [{product?.sku || 'N/A'}] {product?.name || 'Unknown Product'}
+                </p>
+                <dl className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                  <dt className="text-gray-500 dark:text-gray-400">Received</dt>
+                  <dd className="text-gray-900 dark:text-white">
+                    {format(new Date(serial.receivedAt), 'MMM d, yyyy')} ({serial.receivedWorkflow})
+                  </dd>
+                  <dt className="text-gray-500 dark:text-gray-400">Shipped</dt>
+                  <dd className="text-gray-900 dark:text-white">
+                    {serial.shippedAt ? `${format(new Date(serial.shippedAt), 'MMM d, yyyy')} (${serial.shippedWorkflow})` : '-'}
+                  </dd>
+                  <dt className="text-gray-500 dark:text-gray-400">Current Location</dt>
+                  <dd className="text-gray-900 dark:text-white">
+                    {serial.status === 'in_stock' ? serial.location : '-'}
+                  </dd>
+                </dl>
+                <ul className="mt-2 space-y-0.5 text-xs text-gray-500 dark:text-gray-400">
+                  {getSerialHistory(serial).map((movement, index) => (
+                    <li key={index}>
+                      {format(new Date(movement.date), 'MMM d, yyyy')}: {serialMovementLabels[movement.type]}
+                      {movement.location && ` to ${movement.location}`} ({movement.workflowNumber})
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex justify-end pt-4">
+          <button
+            type="button"
+            onClick={closeModal}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+export default SerialLookupModal;
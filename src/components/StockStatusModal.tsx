@@ -0,0 +1,155 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { Product, StockStatus, Transaction } from '../types';
+import { useInventoryStore, useAlertStore } from '../store';
+import { useAuthStore } from '../store/auth';
+import Modal from './Modal';
+import { getHeldQuantity, getStockSummary, heldStockStatuses, stockStatusLabels } from '../utils/stock';
+import { generateWorkflowNumber } from '../utils/workflow';
+
+interface StockStatusModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  product: Product | null;
+}
+
+interface StatusChangeFormData {
+  fromStatus: StockStatus;
+  toStatus: StockStatus;
+  quantity: number;
+  notes?: string;
+}
+
+function StockStatusModal({ isOpen, onClose, product }: StockStatusModalProps) {
+  const { register, handleSubmit, reset } = useForm<StatusChangeFormData>({
+    defaultValues: { fromStatus: 'available', toStatus: 'quarantine' }
+  });
+  const { transactions, postWorkflow } = useInventoryStore();
+  const { setAlert } = useAlertStore();
+  const { user } = useAuthStore();
+
+  if (!product) return null;
+
+  // Stock reserved by pending outbounds cannot be moved out of available
+  const getStatusQuantity = (status: StockStatus) => {
+    return status === 'available'
+      ? getStockSummary(product, transactions).available
+      : getHeldQuantity(product, status);
+  };
+
+  const onSubmit = (data: StatusChangeFormData) => {
+    const quantity = Number(data.quantity);
+    if (data.fromStatus === data.toStatus) {
+      setAlert('From and to status must be different', 'error');
+      return;
+    }
+
+    const fromQuantity = getStatusQuantity(data.fromStatus);
+    if (quantity > fromQuantity) {
+      setAlert(`Only ${fromQuantity} units are ${stockStatusLabels[data.fromStatus].toLowerCase()}`, 'error');
+      return;
+    }
+
+    const transaction: Transaction = {
+      id: crypto.randomUUID(),
+      type: 'status_change',
+      productId: product.id,
+      quantity,
+      fromStatus: data.fromStatus,
+      toStatus: data.toStatus,
+      status: 'pending',
+      workflowNumber: generateWorkflowNumber(transactions, 'SC'),
+      handlerName: user?.name,
+      notes: data.notes,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    postWorkflow(transaction);
+    setAlert(`Moved ${quantity} units to ${stockStatusLabels[data.toStatus]}`, 'success');
+    closeModal();
+  };
+
+  const closeModal = () => {
+    reset();
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={closeModal}
+      title={`Change Stock Status - ${product.sku}`}
+    >
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+        <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-2 sm:grid-cols-4">
+            {(['available', ...heldStockStatuses] as StockStatus[]).map(status => (
+              <div key={status}>
+                <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">{stockStatusLabels[status]}</dt>
+                <dd className="text-sm text-gray-900 dark:text-white">{getStatusQuantity(status)}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">From Status</label>
+            <select
+              {...register('fromStatus', { required: true })}
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+            >
+              {Object.entries(stockStatusLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">To Status</label>
+            <select
+              {...register('toStatus', { required: true })}
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+            >
+              {Object.entries(stockStatusLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Quantity</label>
+          <input
+            type="number"
+            {...register('quantity', { required: true, min: 1 })}
+            className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Notes</label>
+          <textarea
+            {...register('notes')}
+            rows={3}
+            className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+          />
+        </div>
+        <div className="flex justify-end space-x-3 pt-4">
+          <button
+            type="button"
+            onClick={closeModal}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 rounded-md"
+          >
+            Change Status
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+export default StockStatusModal;
@@ -0,0 +1,344 @@
+import React, { useState, useMemo } from 'react';
+import { Layers, MoreVertical, Play, ListChecks, Package, Truck, Trash2 } from 'lucide-react';
+import { Transaction, Wave, WaveGrouping } from '../types';
+import { useInventoryStore, useAlertStore } from '../store';
+import { useAuthStore } from '../store/auth';
+import { useOrderStore } from '../store/orders';
+import { useWaveStore } from '../store/waves';
+import Modal from './Modal';
+import {
+  getWaveGroupLabel,
+  getWaveProgress,
+  planWaves,
+  waveGroupingLabels,
+  waveStatusColors,
+  waveStatusLabels
+} from '../utils/waves';
+
+interface WavePanelProps {
+  onPick: (transactions: Transaction[]) => void;
+}
+
+function WavePanel({ onPick }: WavePanelProps) {
+  const [isPlanModalOpen, setIsPlanModalOpen] = useState(false);
+  const [grouping, setGrouping] = useState<WaveGrouping>('cutoff');
+  const [cutoffInput, setCutoffInput] = useState('');
+  const [openActionMenu, setOpenActionMenu] = useState<string | null>(null);
+
+  const { transactions } = useInventoryStore();
+  const { orders } = useOrderStore();
+  const { waves, cutoffTimes, addWave, updateWave, deleteWave, setCutoffTimes } = useWaveStore();
+  const { setAlert } = useAlertStore();
+  const { user } = useAuthStore();
+
+  const parsedCutoffs = useMemo(() =>
+    cutoffInput.split(',').map(t => t.trim()).filter(Boolean),
+    [cutoffInput]
+  );
+
+  // Preview of the waves the current settings would create
+  const plannedWaves = useMemo(() =>
+    planWaves(transactions, orders, waves, grouping, parsedCutoffs, user?.name),
+    [transactions, orders, waves, grouping, parsedCutoffs, user?.name]
+  );
+
+  const sortedWaves = useMemo(() =>
+    [...waves].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()),
+    [waves]
+  );
+
+  const getPendingOutbounds = (wave: Wave) =>
+    transactions.filter(t => wave.transactionIds.includes(t.id) && t.type === 'outbound' && t.status === 'pending');
+
+  const openPlanModal = () => {
+    setCutoffInput(cutoffTimes.join(', '));
+    setIsPlanModalOpen(true);
+  };
+
+  const handleCreateWaves = () => {
+    if (parsedCutoffs.some(t => !/^\d{2}:\d{2}$/.test(t))) {
+      setAlert('Cut-off times must be in HH:mm format, e.g. 11:00, 16:00', 'error');
+      return;
+    }
+    if (plannedWaves.length === 0) {
+      setAlert('No pending outbound workflows to batch', 'error');
+      return;
+    }
+    setCutoffTimes(parsedCutoffs);
+    plannedWaves.forEach(wave => addWave(wave));
+    setAlert(`${plannedWaves.length} waves planned`, 'success');
+    setIsPlanModalOpen(false);
+  };
+
+  const handleRelease = (wave: Wave) => {
+    updateWave({ ...wave, status: 'released', releasedAt: new Date() });
+    setAlert(`Wave ${wave.waveNumber} released to the floor`, 'success');
+  };
+
+  const handleStartPicking = (wave: Wave) => {
+    updateWave({ ...wave, status: 'picking' });
+    onPick(getPendingOutbounds(wave));
+  };
+
+  const handleMarkPacked = (wave: Wave) => {
+    if (getPendingOutbounds(wave).length > 0) {
+      setAlert('Every workflow in the wave must be picked before it is packed', 'error');
+      return;
+    }
+    updateWave({ ...wave, status: 'packed' });
+    setAlert(`Wave ${wave.waveNumber} packed`, 'success');
+  };
+
+  const handleMarkShipped = (wave: Wave) => {
+    updateWave({ ...wave, status: 'shipped', shippedAt: new Date() });
+    setAlert(`Wave ${wave.waveNumber} shipped`, 'success');
+  };
+
+  // Only planned waves can be broken up; their workflows go back to the unbatched pool
+  const handleDelete = (wave: Wave) => {
+    deleteWave(wave.id);
+    setAlert(`Wave ${wave.waveNumber} removed`, 'warning');
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg">
+      <div className="px-4 py-5 sm:p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-medium text-gray-900 dark:text-white">Waves</h2>
+          <button
+            onClick={openPlanModal}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600"
+          >
+            <Layers className="h-5 w-5 mr-2" />
+            Plan Waves
+          </button>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead>
+              <tr>
+                <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                  Wave
+                </th>
+                <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                  Group
+                </th>
+                <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                  Workflows
+                </th>
+                <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                  Progress
+                </th>
+                <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {sortedWaves.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+                    No waves yet. Plan waves to batch pending outbound workflows.
+                  </td>
+                </tr>
+              ) : (
+                sortedWaves.map((wave) => {
+                  const progress = getWaveProgress(wave, transactions);
+                  return (
+                    <tr key={wave.id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                        {wave.waveNumber}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        <div>{getWaveGroupLabel(wave)}</div>
+                        <div className="text-xs">{waveGroupingLabels[wave.grouping]}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {progress.total}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        <div>{progress.picked} / {progress.total} picked</div>
+                        <div className="mt-1 w-32 h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full">
+                          <div
+                            className="h-1.5 rounded-full bg-green-500"
+                            style={{ width: `${progress.percent}%` }}
+                          />
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${waveStatusColors[wave.status]}`}>
+                          {waveStatusLabels[wave.status]}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <div className="relative inline-block text-left">
+                          <button
+                            onClick={() => setOpenActionMenu(openActionMenu === wave.id ? null : wave.id)}
+                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400"
+                          >
+                            <MoreVertical className="h-5 w-5" />
+                          </button>
+
+                          {openActionMenu === wave.id && wave.status !== 'shipped' && (
+                            <div className="origin-top-right absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white dark:bg-gray-700 ring-1 ring-black ring-opacity-5 z-10">
+                              <div className="py-1" role="menu">
+                                {wave.status === 'planned' && (
+                                  <button
+                                    onClick={() => {
+                                      handleRelease(wave);
+                                      setOpenActionMenu(null);
+                                    }}
+                                    className="flex items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                  >
+                                    <Play className="h-4 w-4 mr-2" />
+                                    Release
+                                  </button>
+                                )}
+                                {wave.status === 'released' && (
+                                  <button
+                                    onClick={() => {
+                                      handleStartPicking(wave);
+                                      setOpenActionMenu(null);
+                                    }}
+                                    className="flex items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                  >
+                                    <ListChecks className="h-4 w-4 mr-2" />
+                                    Start Picking
+                                  </button>
+                                )}
+                                {wave.status === 'picking' && progress.pending > 0 && (
+                                  <button
+                                    onClick={() => {
+                                      onPick(getPendingOutbounds(wave));
+                                      setOpenActionMenu(null);
+                                    }}
+                                    className="flex items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                  >
+                                    <ListChecks className="h-4 w-4 mr-2" />
+                                    Pick List
+                                  </button>
+                                )}
+                                {wave.status === 'picking' && (
+                                  <button
+                                    onClick={() => {
+                                      handleMarkPacked(wave);
+                                      setOpenActionMenu(null);
+                                    }}
+                                    className="flex items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                  >
+                                    <Package className="h-4 w-4 mr-2" />
+                                    Mark Packed
+                                  </button>
+                                )}
+                                {wave.status === 'packed' && (
+                                  <button
+                                    onClick={() => {
+                                      handleMarkShipped(wave);
+                                      setOpenActionMenu(null);
+                                    }}
+                                    className="flex items-center px-4 py-2 text-sm text-green-600 dark:text-green-400 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                  >
+                                    <Truck className="h-4 w-4 mr-2" />
+                                    Mark Shipped
+                                  </button>
+                                )}
+                                {wave.status === 'planned' && (
+                                  <button
+                                    onClick={() => {
+                                      handleDelete(wave);
+                                      setOpenActionMenu(null);
+                                    }}
+                                    className="flex items-center px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                  >
+                                    <Trash2 className="h-4 w-4 mr-2" />
+                                    Delete
+                                  </button>
+                                )}
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <Modal
+        isOpen={isPlanModalOpen}
+        onClose={() => setIsPlanModalOpen(false)}
+        title="Plan Waves"
+      >
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Group By</label>
+            <select
+              value={grouping}
+              onChange={(e) => setGrouping(e.target.value as WaveGrouping)}
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+            >
+              {Object.entries(waveGroupingLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          {grouping === 'cutoff' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Cut-off Times</label>
+              <input
+                type="text"
+                value={cutoffInput}
+                onChange={(e) => setCutoffInput(e.target.value)}
+                placeholder="11:00, 16:00"
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Workflows go into the first cut-off after they were created; later ones roll over to the next day.
+              </p>
+            </div>
+          )}
+          <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
+            {plannedWaves.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No pending outbound workflows outside a wave.</p>
+            ) : (
+              <ul className="space-y-1">
+                {plannedWaves.map(wave => (
+                  <li key={wave.id} className="flex justify-between text-sm text-gray-700 dark:text-gray-300">
+                    <span>{getWaveGroupLabel(wave)}</span>
+                    <span>{wave.transactionIds.length} workflows</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={() => setIsPlanModalOpen(false)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleCreateWaves}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 rounded-md"
+            >
+              Create Waves
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
+
+export default WavePanel;
@@ -1,10 +1,13 @@
 import React from 'react';
 import { Package, TrendingDown, TrendingUp, AlertTriangle } from 'lucide-react';
 import { useInventoryStore } from '../../store';
+import { useWaveStore } from '../../store/waves';
 import { DashboardCard } from './DashboardCard';
+import { getWaveGroupLabel, getWaveProgress, waveStatusColors, waveStatusLabels } from '../../utils/waves';
 
 function AdminDashboard() {
   const { products, transactions } = useInventoryStore();
+  const { waves } = useWaveStore();
 
   const totalProducts = products.length;
   const lowStockItems = products.filter(p => p.quantity <= p.minStockLevel);
@@ -43,39 +46,78 @@ function AdminDashboard() {
     };
   };
 
+  // Waves still on the floor, plus those shipped today
+  const today = new Date().toDateString();
+  const activeWaves = waves
+    .filter(w => w.status !== 'shipped' || (w.shippedAt && new Date(w.shippedAt).toDateString() === today))
+    .sort((a, b) => a.waveNumber.localeCompare(b.waveNumber));
+
   const inboundTrend = calculateTrend('inbound');
   const outboundTrend = calculateTrend('outbound');
 
   return (
-    <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-4">
-      <DashboardCard
-        title="Total Products"
-        value={totalProducts}
-        icon={Package}
-        trend="neutral"
-        trendValue="Current inventory count"
-      />
-      <DashboardCard
-        title="Inbound Orders"
-        value={inboundCount}
-        icon={TrendingUp}
-        trend={inboundTrend.trend}
-        trendValue={inboundTrend.value}
-      />
-      <DashboardCard
-        title="Outbound Orders"
-        value={outboundCount}
-        icon={TrendingDown}
-        trend={outboundTrend.trend}
-        trendValue={outboundTrend.value}
-      />
-      <DashboardCard
-        title="Low Stock Items"
-        value={lowStockItems.length}
-        icon={AlertTriangle}
-        trend={lowStockItems.length > 0 ? 'down' : 'neutral'}
-        trendValue={lowStockItems.length > 0 ? 'Requires attention' : 'Stock levels healthy'}
-      />
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-4">
+        <DashboardCard
+          title="Total Products"
+          value={totalProducts}
+          icon={Package}
+          trend="neutral"
+          trendValue="Current inventory count"
+        />
+        <DashboardCard
+          title="Inbound Orders"
+          value={inboundCount}
+          icon={TrendingUp}
+          trend={inboundTrend.trend}
+          trendValue={inboundTrend.value}
+        />
+        <DashboardCard
+          title="Outbound Orders"
+          value={outboundCount}
+          icon={TrendingDown}
+          trend={outboundTrend.trend}
+          trendValue={outboundTrend.value}
+        />
+        <DashboardCard
+          title="Low Stock Items"
+          value={lowStockItems.length}
+          icon={AlertTriangle}
+          trend={lowStockItems.length > 0 ? 'down' : 'neutral'}
+          trendValue={lowStockItems.length > 0 ? 'Requires attention' : 'Stock levels healthy'}
+        />
+      </div>
+
+      {activeWaves.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Waves</h3>
+          <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {activeWaves.map(wave => {
+              const progress = getWaveProgress(wave, transactions);
+              return (
+                <div key={wave.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-900 dark:text-white">{wave.waveNumber}</span>
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${waveStatusColors[wave.status]}`}>
+                      {waveStatusLabels[wave.status]}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">{getWaveGroupLabel(wave)}</p>
+                  <div className="mt-3 w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full">
+                    <div
+                      className="h-1.5 rounded-full bg-green-500"
+                      style={{ width: `${progress.percent}%` }}
+                    />
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    {progress.picked} of {progress.total} workflows picked
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,12 +1,17 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { Package, TrendingDown, TrendingUp, AlertTriangle } from 'lucide-react';
 import { useInventoryStore } from '../../store';
 import { useAuthStore } from '../../store/auth';
 import { DashboardCard } from './DashboardCard';
+import { ForecastInterval, ForecastModel, StockStatus } from '../../types';
+import { getHeldQuantity, getStockSummary, heldStockStatuses, stockStatusColors, stockStatusLabels } from '../../utils/stock';
+import { defaultForecastOptions, forecastIntervalLabels, forecastModelLabels, forecastProducts, getForecastOptions } from '../../utils/forecasting';
 
 function VendorMetrics() {
   const { products, transactions } = useInventoryStore();
   const { user } = useAuthStore();
+  const [forecastModel, setForecastModel] = useState<ForecastModel>(defaultForecastOptions.model);
+  const [forecastInterval, setForecastInterval] = useState<ForecastInterval>(defaultForecastOptions.interval);
 
   // Filter products by vendor number
   const vendorProducts = products.filter(p => p.vendorNumber === user?.vendorNumber);
@@ -54,36 +59,151 @@ function VendorMetrics() {
   const inboundTrend = calculateTrend('inbound');
   const outboundTrend = calculateTrend('outbound');
 
+  // Units by stock status across the vendor's products; available excludes reserved stock
+  const statusTotals: Record<StockStatus, number> = {
+    available: vendorProducts.reduce((total, p) => total + getStockSummary(p, transactions).available, 0),
+    quarantine: vendorProducts.reduce((total, p) => total + getHeldQuantity(p, 'quarantine'), 0),
+    damaged: vendorProducts.reduce((total, p) => total + getHeldQuantity(p, 'damaged'), 0),
+    on_hold: vendorProducts.reduce((total, p) => total + getHeldQuantity(p, 'on_hold'), 0)
+  };
+
+  // Products with projected demand, soonest stock-out first
+  const forecasts = useMemo(() =>
+    forecastProducts(
+      products.filter(p => p.vendorNumber === user?.vendorNumber),
+      transactions,
+      getForecastOptions(forecastModel, forecastInterval)
+    ).filter(forecast => forecast.periodDemand > 0),
+    [products, transactions, user?.vendorNumber, forecastModel, forecastInterval]
+  );
+  const periodLabel = forecastInterval === 'day' ? 'day' : 'week';
+
   return (
-    <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-4">
-      <DashboardCard
-        title="Your Products"
-        value={totalProducts}
-        icon={Package}
-        trend="neutral"
-        trendValue="Current inventory count"
-      />
-      <DashboardCard
-        title="Inbound Orders"
-        value={inboundCount}
-        icon={TrendingUp}
-        trend={inboundTrend.trend}
-        trendValue={inboundTrend.value}
-      />
-      <DashboardCard
-        title="Outbound Orders"
-        value={outboundCount}
-        icon={TrendingDown}
-        trend={outboundTrend.trend}
-        trendValue={outboundTrend.value}
-      />
-      <DashboardCard
-        title="Low Stock Items"
-        value={lowStockItems.length}
-        icon={AlertTriangle}
-        trend={lowStockItems.length > 0 ? 'down' : 'neutral'}
-        trendValue={lowStockItems.length > 0 ? 'Requires attention' : 'Stock levels healthy'}
-      />
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-4">
+        <DashboardCard
+          title="Your Products"
+          value={totalProducts}
+          icon={Package}
+          trend="neutral"
+          trendValue="Current inventory count"
+        />
+        <DashboardCard
+          title="Inbound Orders"
+          value={inboundCount}
+          icon={TrendingUp}
+          trend={inboundTrend.trend}
+          trendValue={inboundTrend.value}
+        />
+        <DashboardCard
+          title="Outbound Orders"
+          value={outboundCount}
+          icon={TrendingDown}
+          trend={outboundTrend.trend}
+          trendValue={outboundTrend.value}
+        />
+        <DashboardCard
+          title="Low Stock Items"
+          value={lowStockItems.length}
+          icon={AlertTriangle}
+          trend={lowStockItems.length > 0 ? 'down' : 'neutral'}
+          trendValue={lowStockItems.length > 0 ? 'Requires attention' : 'Stock levels healthy'}
+        />
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white">Stock by Status</h3>
+        <dl className="mt-4 grid grid-cols-2 gap-4 sm:grid-cols-4">
+          {(['available', ...heldStockStatuses] as StockStatus[]).map(status => (
+            <div key={status}>
+              <dt>
+                <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${stockStatusColors[status]}`}>
+                  {stockStatusLabels[status]}
+                </span>
+              </dt>
+              <dd className="mt-1 text-2xl font-semibold text-gray-900 dark:text-white">{statusTotals[status]}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Demand Forecast</h3>
+          <div className="flex space-x-2">
+            <select
+              value={forecastModel}
+              onChange={(e) => setForecastModel(e.target.value as ForecastModel)}
+              className="block pl-3 pr-10 py-1 text-sm border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md dark:bg-gray-700 dark:text-white"
+            >
+              {Object.entries(forecastModelLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <select
+              value={forecastInterval}
+              onChange={(e) => setForecastInterval(e.target.value as ForecastInterval)}
+              className="block pl-3 pr-10 py-1 text-sm border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md dark:bg-gray-700 dark:text-white"
+            >
+              {Object.entries(forecastIntervalLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        {forecasts.length === 0 ? (
+          <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">No completed outbound history to forecast from yet.</p>
+        ) : (
+          <div className="mt-4 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-4 py-2 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    SKU
+                  </th>
+                  <th className="px-4 py-2 bg-gray-50 dark:bg-gray-700 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Available
+                  </th>
+                  <th className="px-4 py-2 bg-gray-50 dark:bg-gray-700 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Forecast / {periodLabel}
+                  </th>
+                  <th className="px-4 py-2 bg-gray-50 dark:bg-gray-700 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Days of Cover
+                  </th>
+                  <th className="px-4 py-2 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Stock-Out Date
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {forecasts.slice(0, 10).map(({ product, available, periodDemand, daysOfCover, stockOutDate }) => (
+                  <tr key={product.id}>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                      {product.sku}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-right text-sm text-gray-500 dark:text-gray-400">
+                      {available}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-right text-sm text-gray-500 dark:text-gray-400">
+                      {periodDemand.toFixed(1)}
+                    </td>
+                    <td className={`px-4 py-2 whitespace-nowrap text-right text-sm font-medium ${
+                      daysOfCover !== null && daysOfCover < 14
+                        ? 'text-red-600 dark:text-red-400'
+                        : 'text-gray-500 dark:text-gray-400'
+                    }`}>
+                      {daysOfCover !== null ? Math.floor(daysOfCover) : `> ${defaultForecastOptions.horizonDays}`}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                      {stockOutDate ? stockOutDate.toLocaleDateString() : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
     </div>
   );
 }
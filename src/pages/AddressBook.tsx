@@ -0,0 +1,353 @@
+import React, { useState, useMemo } from 'react';
+import { Plus, Pencil, Trash2, Search, MoreVertical } from 'lucide-react';
+import Modal from '../components/Modal';
+import { useForm } from 'react-hook-form';
+import { Consignee } from '../types';
+import { useAlertStore } from '../store';
+import { useAuthStore } from '../store/auth';
+import { useConsigneeStore } from '../store/consignees';
+import { useOrderStore } from '../store/orders';
+
+interface ConsigneeFormData {
+  vendorNumber: string;
+  name: string;
+  contactName?: string;
+  phone?: string;
+  addressLine1: string;
+  addressLine2?: string;
+  city: string;
+  state?: string;
+  postalCode: string;
+  country: string;
+}
+
+function AddressBook() {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingConsignee, setEditingConsignee] = useState<Consignee | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [openActionMenu, setOpenActionMenu] = useState<string | null>(null);
+
+  const { register, handleSubmit, reset, setValue } = useForm<ConsigneeFormData>();
+  const { consignees, addConsignee, updateConsignee, deleteConsignee } = useConsigneeStore();
+  const { orders } = useOrderStore();
+  const { setAlert } = useAlertStore();
+  const { user, getAllowedVendorNumbers } = useAuthStore();
+
+  const allowedVendorNumbers = getAllowedVendorNumbers(user);
+  const canViewAll = allowedVendorNumbers.includes('ALL');
+
+  const filteredConsignees = useMemo(() => {
+    return consignees
+      .filter(consignee => canViewAll || allowedVendorNumbers.includes(consignee.vendorNumber))
+      .filter(consignee => {
+        const searchString = `${consignee.name} ${consignee.contactName || ''} ${consignee.city} ${consignee.vendorNumber}`.toLowerCase();
+        return searchString.includes(searchTerm.toLowerCase());
+      })
+      .sort((a, b) => a.vendorNumber.localeCompare(b.vendorNumber) || a.name.localeCompare(b.name));
+  }, [consignees, canViewAll, allowedVendorNumbers, searchTerm]);
+
+  const onSubmit = (data: ConsigneeFormData) => {
+    // Vendors can only keep addresses for their own account
+    const vendorNumber = canViewAll ? data.vendorNumber.trim() : allowedVendorNumbers[0] || '';
+    if (!vendorNumber) {
+      setAlert('Vendor number is required', 'error');
+      return;
+    }
+
+    const duplicate = consignees.some(c =>
+      c.vendorNumber === vendorNumber &&
+      c.name.toLowerCase() === data.name.trim().toLowerCase() &&
+      c.id !== editingConsignee?.id
+    );
+    if (duplicate) {
+      setAlert(`Vendor ${vendorNumber} already has a consignee named ${data.name}`, 'error');
+      return;
+    }
+
+    if (editingConsignee) {
+      updateConsignee({
+        ...editingConsignee,
+        ...data,
+        name: data.name.trim(),
+        vendorNumber
+      });
+      setAlert('Consignee updated successfully', 'success');
+    } else {
+      addConsignee({
+        ...data,
+        id: crypto.randomUUID(),
+        name: data.name.trim(),
+        vendorNumber,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+      setAlert('Consignee added successfully', 'success');
+    }
+    closeModal();
+  };
+
+  const openEditModal = (consignee: Consignee) => {
+    setEditingConsignee(consignee);
+    setValue('vendorNumber', consignee.vendorNumber);
+    setValue('name', consignee.name);
+    setValue('contactName', consignee.contactName || '');
+    setValue('phone', consignee.phone || '');
+    setValue('addressLine1', consignee.addressLine1);
+    setValue('addressLine2', consignee.addressLine2 || '');
+    setValue('city', consignee.city);
+    setValue('state', consignee.state || '');
+    setValue('postalCode', consignee.postalCode);
+    setValue('country', consignee.country);
+    setIsModalOpen(true);
+  };
+
+  // Orders keep their own copy of the address, so deleting only removes it from the book
+  const handleDeleteConsignee = (consignee: Consignee) => {
+    const orderCount = orders.filter(o => o.consigneeId === consignee.id).length;
+    deleteConsignee(consignee.id);
+    setAlert(
+      orderCount > 0
+        ? `Consignee deleted. ${orderCount} existing orders keep their ship-to address`
+        : 'Consignee deleted successfully',
+      'success'
+    );
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingConsignee(null);
+    reset();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Address Book</h1>
+        <button
+          onClick={() => setIsModalOpen(true)}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600"
+        >
+          <Plus className="h-5 w-5 mr-2" />
+          Add Consignee
+        </button>
+      </div>
+
+      <div className="relative">
+        <input
+          type="text"
+          placeholder="Search consignees by name, contact, city or vendor..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
+        />
+        <Search className="absolute left-3 top-2.5 h-5 w-5 text-gray-400 dark:text-gray-500" />
+      </div>
+
+      <Modal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        title={editingConsignee ? 'Edit Consignee' : 'Add New Consignee'}
+      >
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {canViewAll && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Vendor Number</label>
+              <input
+                type="text"
+                {...register('vendorNumber', { required: true })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Consignee Name</label>
+            <input
+              type="text"
+              {...register('name', { required: true })}
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Contact</label>
+              <input
+                type="text"
+                {...register('contactName')}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Phone</label>
+              <input
+                type="text"
+                {...register('phone')}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Address Line 1</label>
+            <input
+              type="text"
+              {...register('addressLine1', { required: true })}
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Address Line 2</label>
+            <input
+              type="text"
+              {...register('addressLine2')}
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">City</label>
+              <input
+                type="text"
+                {...register('city', { required: true })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">State / Province</label>
+              <input
+                type="text"
+                {...register('state')}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Postal Code</label>
+              <input
+                type="text"
+                {...register('postalCode', { required: true })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Country</label>
+            <input
+              type="text"
+              {...register('country', { required: true })}
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+            />
+          </div>
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={closeModal}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 rounded-md"
+            >
+              {editingConsignee ? 'Update' : 'Add'} Consignee
+            </button>
+          </div>
+        </form>
+      </Modal>
+
+      <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Consignee
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Vendor Number
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Contact
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Address
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {filteredConsignees.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+                      No consignees found. Click "Add Consignee" to create one.
+                    </td>
+                  </tr>
+                ) : (
+                  filteredConsignees.map((consignee) => (
+                    <tr key={consignee.id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                        {consignee.name}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {consignee.vendorNumber}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        <div>{consignee.contactName || '-'}</div>
+                        {consignee.phone && <div className="text-xs">{consignee.phone}</div>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400">
+                        {[consignee.addressLine1, consignee.addressLine2, consignee.city, consignee.state, consignee.postalCode, consignee.country]
+                          .filter(Boolean)
+                          .join(', ')}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <div className="relative inline-block text-left">
+                          <button
+                            onClick={() => setOpenActionMenu(openActionMenu === consignee.id ? null : consignee.id)}
+                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400"
+                          >
+                            <MoreVertical className="h-5 w-5" />
+                          </button>
+
+                          {openActionMenu === consignee.id && (
+                            <div className="origin-top-right absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white dark:bg-gray-700 ring-1 ring-black ring-opacity-5 z-10">
+                              <div className="py-1" role="menu">
+                                <button
+                                  onClick={() => {
+                                    openEditModal(consignee);
+                                    setOpenActionMenu(null);
+                                  }}
+                                  className="flex items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                >
+                                  <Pencil className="h-4 w-4 mr-2" />
+                                  Edit
+                                </button>
+                                <button
+                                  onClick={() => {
+                                    handleDeleteConsignee(consignee);
+                                    setOpenActionMenu(null);
+                                  }}
+                                  className="flex items-center px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                >
+                                  <Trash2 className="h-4 w-4 mr-2" />
+                                  Delete
+                                </button>
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default AddressBook;
@@ -0,0 +1,632 @@
+import React, { useState, useMemo } from 'react';
+import { Plus, Search, MoreVertical, ClipboardCheck, Eye, Trash2 } from 'lucide-react';
+import Modal from '../components/Modal';
+import SearchableSelect from '../components/SearchableSelect';
+import { useForm, Controller } from 'react-hook-form';
+import { CycleCount, CycleCountLine, CycleCountScope, CycleCountStatus, Transaction } from '../types';
+import { useInventoryStore, useAlertStore } from '../store';
+import { useAuthStore } from '../store/auth';
+import { useLocationStore } from '../store/locations';
+import { useCycleCountStore } from '../store/cycleCounts';
+import { useAbcStore } from '../store/abc';
+import { abcBasisLabels, classifyAbc } from '../utils/abc';
+import { buildCountLines, cycleCountScopeLabels, getLineSystemQuantity, getLineVariance } from '../utils/cycleCounts';
+import { generateSequenceNumber, generateWorkflowNumber } from '../utils/workflow';
+import { getSerialDirection, parseSerialInput, validateSerials } from '../utils/serials';
+import { getLocationQuantity } from '../utils/stock';
+
+interface CycleCountFormData {
+  scope: CycleCountScope;
+  scopeValue: string;
+  notes?: string;
+}
+
+const statusColors: Record<CycleCountStatus, string> = {
+  open: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  submitted: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  approved: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  rejected: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+};
+
+function CycleCounts() {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [countingCycleCount, setCountingCycleCount] = useState<CycleCount | null>(null);
+  const [reviewingCycleCount, setReviewingCycleCount] = useState<CycleCount | null>(null);
+  const [countedQuantities, setCountedQuantities] = useState<Record<string, string>>({});
+  const [correctionSerials, setCorrectionSerials] = useState<Record<string, string>>({});
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedStatus, setSelectedStatus] = useState<'all' | CycleCountStatus>('all');
+  const [openActionMenu, setOpenActionMenu] = useState<string | null>(null);
+
+  const { register, handleSubmit, reset, control, watch } = useForm<CycleCountFormData>({
+    defaultValues: { scope: 'location' }
+  });
+  const { products, transactions, stock, serials, postWorkflow } = useInventoryStore();
+  const { locations } = useLocationStore();
+  const { cycleCounts, addCycleCount, updateCycleCount, deleteCycleCount } = useCycleCountStore();
+  const { setAlert } = useAlertStore();
+  const { user } = useAuthStore();
+
+  const isAdmin = user?.role === 'admin';
+  const scope = watch('scope');
+  const scopeValue = watch('scopeValue');
+
+  const { abcOptions } = useAbcStore();
+
+  const abcClasses = useMemo(
+    () => classifyAbc(products, transactions, abcOptions),
+    [products, transactions, abcOptions]
+  );
+
+  // Count by whole zone or by a single bin
+  const scopeOptions = useMemo(() => {
+    switch (scope) {
+      case 'vendor':
+        return Array.from(new Set(products.map(p => p.vendorNumber))).sort()
+          .map(vendorNumber => ({ value: vendorNumber, label: vendorNumber }));
+      case 'abc':
+        return (['A', 'B', 'C'] as const).map(abcClass => ({
+          value: abcClass,
+          label: `Class ${abcClass}`,
+          description: `${abcBasisLabels[abcOptions.basis]}, last ${abcOptions.windowDays} days`
+        }));
+      default: {
+        const zones = Array.from(new Set(locations.map(l => l.zone))).sort()
+          .map(zone => ({ value: zone, label: `Zone ${zone}`, description: 'Every bin in the zone' }));
+        const bins = Array.from(new Set([...locations.map(l => l.code), ...stock.map(s => s.location)])).sort()
+          .map(code => ({ value: code, label: code }));
+        return [...zones, ...bins];
+      }
+    }
+  }, [scope, products, locations, stock, abcOptions]);
+
+  const previewLines = useMemo(() =>
+    scopeValue ? buildCountLines(scope, scopeValue, stock, products, abcClasses) : [],
+    [scope, scopeValue, stock, products, abcClasses]
+  );
+
+  const filteredCycleCounts = useMemo(() => {
+    return cycleCounts
+      .filter(cycleCount => {
+        const searchString = `${cycleCount.countNumber} ${cycleCount.scopeValue}`.toLowerCase();
+        const statusMatch = selectedStatus === 'all' || cycleCount.status === selectedStatus;
+        return searchString.includes(searchTerm.toLowerCase()) && statusMatch;
+      })
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }, [cycleCounts, searchTerm, selectedStatus]);
+
+  const onSubmit = (data: CycleCountFormData) => {
+    if (previewLines.length === 0) {
+      setAlert('No stock found for the selected scope', 'error');
+      return;
+    }
+
+    addCycleCount({
+      id: crypto.randomUUID(),
+      countNumber: generateSequenceNumber(cycleCounts.map(c => c.countNumber), 'CC'),
+      scope: data.scope,
+      scopeValue: data.scopeValue,
+      status: 'open',
+      lines: previewLines,
+      createdBy: user?.name || 'Unknown',
+      notes: data.notes,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+    setAlert(`Count task created with ${previewLines.length} lines`, 'success');
+    closeModal();
+  };
+
+  const openCountSheet = (cycleCount: CycleCount) => {
+    setCountedQuantities(Object.fromEntries(
+      cycleCount.lines
+        .filter(line => line.countedQuantity !== undefined)
+        .map(line => [line.id, String(line.countedQuantity)])
+    ));
+    setCountingCycleCount(cycleCount);
+  };
+
+  const saveCounts = (submit: boolean) => {
+    if (!countingCycleCount) return;
+
+    const lines = countingCycleCount.lines.map(line => ({
+      ...line,
+      countedQuantity: countedQuantities[line.id] !== undefined && countedQuantities[line.id] !== ''
+        ? Number(countedQuantities[line.id])
+        : undefined
+    }));
+
+    if (submit && lines.some(line => line.countedQuantity === undefined)) {
+      setAlert('Enter a count for every line before submitting', 'error');
+      return;
+    }
+
+    updateCycleCount({
+      ...countingCycleCount,
+      lines: submit ? snapshotLines(lines) : lines,
+      ...(submit && {
+        status: 'submitted',
+        countedBy: user?.name || 'Unknown',
+        submittedAt: new Date()
+      })
+    });
+    setAlert(submit ? 'Count submitted for approval' : 'Count progress saved', 'success');
+    setCountingCycleCount(null);
+  };
+
+  // Snapshot the system quantity of each line when the count is submitted, so stock that
+  // moves before approval isn't booked as a count variance. Counts submitted before
+  // snapshots were taken get one at review.
+  const snapshotLines = (lines: CycleCountLine[]) =>
+    lines.map(line => ({
+      ...line,
+      systemQuantity: getLineSystemQuantity(line, stock)
+    }));
+
+  const approveCount = (cycleCount: CycleCount) => {
+    const lines = snapshotLines(cycleCount.lines);
+
+    // Corrections to serialized products name the units found or missing
+    for (const line of lines) {
+      const variance = getLineVariance(line, stock);
+      const product = products.find(p => p.id === line.productId);
+      if (variance === 0 || !product?.serialized) continue;
+      const direction = getSerialDirection('adjustment', variance);
+      const serialError = validateSerials(
+        serials,
+        line.productId,
+        parseSerialInput(correctionSerials[line.id] || ''),
+        Math.abs(variance),
+        direction,
+        direction === 'out' ? line.location : undefined
+      );
+      if (serialError) {
+        setAlert(`${product.sku} in ${line.location}: ${serialError}`, 'error');
+        return;
+      }
+    }
+
+    // Stock may have moved since the snapshot; a correction can't take a bin below zero
+    const shortLines = lines.filter(line =>
+      getLocationQuantity(stock, line.productId, line.location) + getLineVariance(line, stock) < 0);
+    if (shortLines.length > 0) {
+      const skus = shortLines.map(line => `${products.find(p => p.id === line.productId)?.sku} in ${line.location}`);
+      setAlert(`Stock has moved since the count was submitted, recount ${skus.join(', ')}`, 'error');
+      return;
+    }
+
+    // Post one count correction per line with a variance against its snapshot
+    let posted = 0;
+    let adjustments: Transaction[] = transactions;
+    for (const line of lines) {
+      const variance = getLineVariance(line, stock);
+      if (variance === 0) continue;
+
+      const adjustment: Transaction = {
+        id: crypto.randomUUID(),
+        type: 'adjustment',
+        productId: line.productId,
+        quantity: variance,
+        location: line.location,
+        reasonCode: 'count_correction',
+        serialNumbers: products.find(p => p.id === line.productId)?.serialized
+          ? parseSerialInput(correctionSerials[line.id] || '')
+          : undefined,
+        status: 'pending',
+        workflowNumber: generateWorkflowNumber(adjustments, 'AD'),
+        handlerName: user?.name,
+        notes: `Cycle count ${cycleCount.countNumber}`,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+      if (!postWorkflow(adjustment)) {
+        const product = products.find(p => p.id === line.productId);
+        setAlert(`Could not post the correction for ${product?.sku} in ${line.location}, ${posted} adjustments posted`, 'error');
+        return;
+      }
+      adjustments = [...adjustments, adjustment];
+      posted++;
+    }
+
+    updateCycleCount({
+      ...cycleCount,
+      lines,
+      status: 'approved',
+      reviewedBy: user?.name || 'Unknown',
+      reviewedAt: new Date()
+    });
+    setAlert(`Count approved, ${posted} adjustments posted`, 'success');
+    setReviewingCycleCount(null);
+  };
+
+  const rejectCount = (cycleCount: CycleCount) => {
+    updateCycleCount({
+      ...cycleCount,
+      lines: snapshotLines(cycleCount.lines),
+      status: 'rejected',
+      reviewedBy: user?.name || 'Unknown',
+      reviewedAt: new Date()
+    });
+    setAlert('Count rejected', 'warning');
+    setReviewingCycleCount(null);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    reset({ scope: 'location' });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Cycle Counts</h1>
+        <button
+          onClick={() => setIsModalOpen(true)}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600"
+        >
+          <Plus className="h-5 w-5 mr-2" />
+          New Count
+        </button>
+      </div>
+
+      <div className="flex items-center space-x-4">
+        <div className="relative flex-1">
+          <input
+            type="text"
+            placeholder="Search counts by number, location or vendor..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
+          />
+          <Search className="absolute left-3 top-2.5 h-5 w-5 text-gray-400 dark:text-gray-500" />
+        </div>
+        <select
+          value={selectedStatus}
+          onChange={(e) => setSelectedStatus(e.target.value as typeof selectedStatus)}
+          className="block w-40 pl-3 pr-10 py-2 text-base border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md dark:bg-gray-700 dark:text-white"
+        >
+          <option value="all">All Status</option>
+          <option value="open">Open</option>
+          <option value="submitted">Submitted</option>
+          <option value="approved">Approved</option>
+          <option value="rejected">Rejected</option>
+        </select>
+      </div>
+
+      <Modal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        title="New Count Task"
+      >
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Count By</label>
+            <select
+              {...register('scope', { required: true })}
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+            >
+              {Object.entries(cycleCountScopeLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">{cycleCountScopeLabels[scope]}</label>
+            <Controller
+              name="scopeValue"
+              control={control}
+              rules={{ required: true }}
+              render={({ field }) => (
+                <SearchableSelect
+                  options={scopeOptions}
+                  value={field.value}
+                  onChange={field.onChange}
+                  placeholder="Search and select..."
+                  className="mt-1"
+                />
+              )}
+            />
+            {scopeValue && (
+              <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+                Lines to count: <span className="font-medium">{previewLines.length}</span>
+              </p>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Notes</label>
+            <textarea
+              {...register('notes')}
+              rows={3}
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+            />
+          </div>
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={closeModal}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 rounded-md"
+            >
+              Create Count
+            </button>
+          </div>
+        </form>
+      </Modal>
+
+      {/* Blind count sheet: the system quantity is never shown to the counter */}
+      <Modal
+        isOpen={!!countingCycleCount}
+        onClose={() => setCountingCycleCount(null)}
+        title={`Count Sheet - ${countingCycleCount?.countNumber}`}
+      >
+        <div className="space-y-4">
+          <div className="max-h-96 overflow-y-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-3 py-2 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Location
+                  </th>
+                  <th className="px-3 py-2 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    SKU
+                  </th>
+                  <th className="px-3 py-2 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Counted
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {countingCycleCount?.lines.map(line => {
+                  const product = products.find(p => p.id === line.productId);
+                  return (
+                    <tr key={line.id}>
+                      <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {line.location}
+                      </td>
+                      <td className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+                        <div className="font-medium text-gray-900 dark:text-white">{product?.sku || 'N/A'}</div>
+                        <div className="text-xs">{product?.name}</div>
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="number"
+                          min={0}
+                          value={countedQuantities[line.id] ?? ''}
+                          onChange={(e) => setCountedQuantities({ ...countedQuantities, [line.id]: e.target.value })}
+                          className="block w-24 rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={() => saveCounts(false)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md"
+            >
+              Save Progress
+            </button>
+            <button
+              type="button"
+              onClick={() => saveCounts(true)}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 rounded-md"
+            >
+              Submit Count
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      <Modal
+        isOpen={!!reviewingCycleCount}
+        onClose={() => setReviewingCycleCount(null)}
+        title={`Review Count - ${reviewingCycleCount?.countNumber}`}
+      >
+        <div className="space-y-4">
+          <div className="max-h-96 overflow-y-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-3 py-2 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Location / SKU
+                  </th>
+                  <th className="px-3 py-2 bg-gray-50 dark:bg-gray-700 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    System
+                  </th>
+                  <th className="px-3 py-2 bg-gray-50 dark:bg-gray-700 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Counted
+                  </th>
+                  <th className="px-3 py-2 bg-gray-50 dark:bg-gray-700 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Variance
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {reviewingCycleCount?.lines.map(line => {
+                  const product = products.find(p => p.id === line.productId);
+                  const variance = getLineVariance(line, stock);
+                  return (
+                    <tr key={line.id}>
+                      <td className="px-3 py-2 text-sm text-gray-900 dark:text-white">
+                        <div>{line.location}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{product?.sku || 'N/A'}</div>
+                      </td>
+                      <td className="px-3 py-2 text-right text-sm text-gray-500 dark:text-gray-400">
+                        {getLineSystemQuantity(line, stock)}
+                      </td>
+                      <td className="px-3 py-2 text-right text-sm text-gray-500 dark:text-gray-400">
+                        {line.countedQuantity}
+                      </td>
+                      <td className={`px-3 py-2 text-right text-sm font-medium ${
+                        variance === 0
+                          ? 'text-gray-500 dark:text-gray-400'
+                          : variance > 0
+                          ? 'text-green-600 dark:text-green-400'
+                          : 'text-red-600 dark:text-red-400'
+                      }`}>
+                        {variance > 0 ? `+${variance}` : variance}
+                        {product?.serialized && variance !== 0 && (
+                          <textarea
+                            value={correctionSerials[line.id] || ''}
+                            onChange={(e) => setCorrectionSerials({ ...correctionSerials, [line.id]: e.target.value })}
+                            rows={2}
+                            placeholder={variance > 0 ? 'Serials found' : 'Serials missing'}
+                            className="mt-1 block w-40 ml-auto rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white text-xs font-mono"
+                          />
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={() => reviewingCycleCount && rejectCount(reviewingCycleCount)}
+              className="px-4 py-2 text-sm font-medium text-red-600 dark:text-red-400 hover:bg-gray-50 dark:hover:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md"
+            >
+              Reject
+            </button>
+            <button
+              type="button"
+              onClick={() => reviewingCycleCount && approveCount(reviewingCycleCount)}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 rounded-md"
+            >
+              Approve & Post
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Count Number
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Scope
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Lines
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {filteredCycleCounts.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+                      No cycle counts found. Create a new count task to get started.
+                    </td>
+                  </tr>
+                ) : (
+                  filteredCycleCounts.map((cycleCount) => (
+                    <tr key={cycleCount.id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {new Date(cycleCount.createdAt).toLocaleDateString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                        {cycleCount.countNumber}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {cycleCountScopeLabels[cycleCount.scope]}: {cycleCount.scopeValue}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {cycleCount.lines.filter(l => l.countedQuantity !== undefined).length} / {cycleCount.lines.length} counted
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${statusColors[cycleCount.status]}`}>
+                          {cycleCount.status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <div className="relative inline-block text-left">
+                          <button
+                            onClick={() => setOpenActionMenu(openActionMenu === cycleCount.id ? null : cycleCount.id)}
+                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400"
+                          >
+                            <MoreVertical className="h-5 w-5" />
+                          </button>
+
+                          {openActionMenu === cycleCount.id && (cycleCount.status === 'open' || (isAdmin && cycleCount.status === 'submitted')) && (
+                            <div className="origin-top-right absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white dark:bg-gray-700 ring-1 ring-black ring-opacity-5 z-10">
+                              <div className="py-1" role="menu">
+                                {cycleCount.status === 'open' && (
+                                  <>
+                                    <button
+                                      onClick={() => {
+                                        openCountSheet(cycleCount);
+                                        setOpenActionMenu(null);
+                                      }}
+                                      className="flex items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                    >
+                                      <ClipboardCheck className="h-4 w-4 mr-2" />
+                                      Enter Counts
+                                    </button>
+                                    <button
+                                      onClick={() => {
+                                        deleteCycleCount(cycleCount.id);
+                                        setOpenActionMenu(null);
+                                        setAlert('Count task deleted', 'success');
+                                      }}
+                                      className="flex items-center px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                    >
+                                      <Trash2 className="h-4 w-4 mr-2" />
+                                      Delete
+                                    </button>
+                                  </>
+                                )}
+                                {isAdmin && cycleCount.status === 'submitted' && (
+                                  <button
+                                    onClick={() => {
+                                      setReviewingCycleCount(cycleCount);
+                                      setCorrectionSerials({});
+                                      setOpenActionMenu(null);
+                                    }}
+                                    className="flex items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                  >
+                                    <Eye className="h-4 w-4 mr-2" />
+                                    Review Variances
+                                  </button>
+                                )}
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CycleCounts;
@@ -0,0 +1,400 @@
+import React, { useState, useMemo } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import SearchableSelect from '../components/SearchableSelect';
+import { ContainerType, LoadItem, PalletSpec, UnitSystem } from '../types';
+import { useInventoryStore } from '../store';
+import { useAuthStore } from '../store/auth';
+import {
+  calculateProductCBM,
+  formatDimensions,
+  formatLength,
+  formatWeight,
+  fromSystemLength,
+  fromSystemWeight,
+  getProductWeight,
+  toSystemLength,
+  toSystemWeight,
+  unitSystemUnits
+} from '../utils/calculations';
+import { containerSpecs, defaultPalletSpec, planContainerFill, planPallets } from '../utils/loadPlanning';
+
+type LoadSource = 'products' | 'order';
+
+interface LoadLineInput extends LoadItem {
+  id: string;
+}
+
+const newLine = (): LoadLineInput => ({ id: crypto.randomUUID(), productId: '', quantity: 1 });
+
+function LoadPlanner() {
+  const [source, setSource] = useState<LoadSource>('products');
+  const [lines, setLines] = useState<LoadLineInput[]>([newLine()]);
+  const [workflowNumber, setWorkflowNumber] = useState('');
+
+  const { products, transactions } = useInventoryStore();
+  const { user, getAllowedVendorNumbers } = useAuthStore();
+  const unitSystem: UnitSystem = user?.unitSystem || 'imperial';
+  const units = unitSystemUnits[unitSystem];
+
+  // Pallet spec as entered, in the user's units; the planner works in inches and pounds
+  const [specInput, setSpecInput] = useState<PalletSpec>(() => ({
+    ...defaultPalletSpec,
+    length: toSystemLength(defaultPalletSpec.length, unitSystem),
+    width: toSystemLength(defaultPalletSpec.width, unitSystem),
+    baseHeight: toSystemLength(defaultPalletSpec.baseHeight, unitSystem),
+    maxHeight: toSystemLength(defaultPalletSpec.maxHeight, unitSystem),
+    maxWeight: toSystemWeight(defaultPalletSpec.maxWeight, unitSystem),
+    tareWeight: toSystemWeight(defaultPalletSpec.tareWeight, unitSystem)
+  }));
+
+  const palletSpec = useMemo<PalletSpec>(() => ({
+    ...specInput,
+    length: fromSystemLength(specInput.length, unitSystem),
+    width: fromSystemLength(specInput.width, unitSystem),
+    baseHeight: fromSystemLength(specInput.baseHeight, unitSystem),
+    maxHeight: fromSystemLength(specInput.maxHeight, unitSystem),
+    maxWeight: fromSystemWeight(specInput.maxWeight, unitSystem),
+    tareWeight: fromSystemWeight(specInput.tareWeight, unitSystem)
+  }), [specInput, unitSystem]);
+
+  const allowedVendorNumbers = getAllowedVendorNumbers(user);
+  const canViewAll = allowedVendorNumbers.includes('ALL');
+
+  const availableProducts = useMemo(() =>
+    products.filter(product => canViewAll || allowedVendorNumbers.includes(product.vendorNumber)),
+    [products, canViewAll, allowedVendorNumbers]
+  );
+
+  const productOptions = useMemo(() =>
+    availableProducts.map(product => ({
+      value: product.id,
+      label: `[${product.sku}] ${product.name}`,
+      description: `${formatDimensions(product, unitSystem)} | ${formatWeight(getProductWeight(product), unitSystem)}`
+    })),
+    [availableProducts, unitSystem]
+  );
+
+  // Outbound workflow numbers; an order's lines share one number
+  const workflowOptions = useMemo(() => {
+    const numbers = Array.from(new Set(
+      transactions
+        .filter(t =>
+          t.type === 'outbound' &&
+          t.status !== 'cancelled' &&
+          availableProducts.some(p => p.id === t.productId)
+        )
+        .map(t => t.workflowNumber)
+    ));
+    return numbers.map(number => ({
+      value: number,
+      label: number,
+      description: `${transactions.filter(t => t.workflowNumber === number && t.status !== 'cancelled').length} lines`
+    }));
+  }, [transactions, availableProducts]);
+
+  const items = useMemo<LoadItem[]>(() => {
+    if (source === 'products') {
+      return lines
+        .filter(line => line.productId && line.quantity > 0)
+        .map(line => ({ productId: line.productId, quantity: Number(line.quantity) }));
+    }
+    return transactions
+      .filter(t => t.workflowNumber === workflowNumber && t.type === 'outbound' && t.status !== 'cancelled')
+      .map(t => ({ productId: t.productId, quantity: Number(t.quantity) }));
+  }, [source, lines, transactions, workflowNumber]);
+
+  const palletPlan = useMemo(() => planPallets(items, products, palletSpec), [items, products, palletSpec]);
+
+  const containerFills = useMemo(() =>
+    (Object.keys(containerSpecs) as ContainerType[]).map(type =>
+      planContainerFill(palletPlan.groups, products, palletSpec, type)
+    ),
+    [palletPlan, products, palletSpec]
+  );
+
+  const totals = useMemo(() => items.reduce((total, item) => {
+    const product = products.find(p => p.id === item.productId);
+    if (!product) return total;
+    return {
+      units: total.units + item.quantity,
+      cbm: total.cbm + calculateProductCBM(product, item.quantity),
+      weight: total.weight + item.quantity * getProductWeight(product)
+    };
+  }, { units: 0, cbm: 0, weight: 0 }), [items, products]);
+
+  const palletCount = palletPlan.groups.reduce((total, group) => total + group.pallets, 0);
+
+  const updateLine = (id: string, updates: Partial<LoadLineInput>) => {
+    setLines(lines.map(line => line.id === id ? { ...line, ...updates } : line));
+  };
+
+  const updateSpec = (updates: Partial<PalletSpec>) => {
+    setSpecInput({ ...specInput, ...updates });
+  };
+
+  const summaryCards = [
+    { label: 'Units', value: totals.units.toLocaleString() },
+    { label: 'Total CBM', value: totals.cbm.toFixed(3) },
+    { label: 'Goods Weight', value: `${toSystemWeight(totals.weight, unitSystem).toLocaleString()} ${units.weight}` },
+    { label: 'Pallets', value: palletCount.toLocaleString() }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Load Planner</h1>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg">
+        <div className="px-4 py-5 sm:p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Plan For</label>
+            <select
+              value={source}
+              onChange={(e) => setSource(e.target.value as LoadSource)}
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+            >
+              <option value="products">Products</option>
+              <option value="order">Outbound Order</option>
+            </select>
+          </div>
+
+          {source === 'order' ? (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Outbound Workflow</label>
+              <SearchableSelect
+                options={workflowOptions}
+                value={workflowNumber}
+                onChange={setWorkflowNumber}
+                placeholder="Search and select an outbound workflow..."
+                className="mt-1"
+              />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Products</label>
+                <button
+                  type="button"
+                  onClick={() => setLines([...lines, newLine()])}
+                  className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Line
+                </button>
+              </div>
+              {lines.map(line => (
+                <div key={line.id} className="flex items-start space-x-2 p-2 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                  <div className="flex-1">
+                    <SearchableSelect
+                      options={productOptions}
+                      value={line.productId}
+                      onChange={(value) => updateLine(line.id, { productId: value })}
+                      placeholder="Search and select a product..."
+                    />
+                  </div>
+                  <input
+                    type="number"
+                    min="1"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(line.id, { quantity: Number(e.target.value) })}
+                    className="block w-24 rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setLines(lines.filter(l => l.id !== line.id))}
+                    disabled={lines.length === 1}
+                    className="p-2 text-red-600 dark:text-red-400 hover:text-red-900 dark:hover:text-red-300 disabled:opacity-50"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4 sm:grid-cols-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Pallet Length ({units.dimension})</label>
+              <input
+                type="number"
+                min="0"
+                value={specInput.length}
+                onChange={(e) => updateSpec({ length: Number(e.target.value) })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Pallet Width ({units.dimension})</label>
+              <input
+                type="number"
+                min="0"
+                value={specInput.width}
+                onChange={(e) => updateSpec({ width: Number(e.target.value) })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Pallet Base Height ({units.dimension})</label>
+              <input
+                type="number"
+                min="0"
+                value={specInput.baseHeight}
+                onChange={(e) => updateSpec({ baseHeight: Number(e.target.value) })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Max Stacking Height ({units.dimension})</label>
+              <input
+                type="number"
+                min="0"
+                value={specInput.maxHeight}
+                onChange={(e) => updateSpec({ maxHeight: Number(e.target.value) })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Max Load Weight ({units.weight})</label>
+              <input
+                type="number"
+                min="0"
+                value={specInput.maxWeight}
+                onChange={(e) => updateSpec({ maxWeight: Number(e.target.value) })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Pallet Tare Weight ({units.weight})</label>
+              <input
+                type="number"
+                min="0"
+                value={specInput.tareWeight}
+                onChange={(e) => updateSpec({ tareWeight: Number(e.target.value) })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+          </div>
+          <label className="inline-flex items-center text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={specInput.stackable}
+              onChange={(e) => updateSpec({ stackable: e.target.checked })}
+              className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 mr-2"
+            />
+            Pallets can be double-stacked in the container
+          </label>
+        </div>
+      </div>
+
+      {items.length > 0 && (
+        <>
+          <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+            {summaryCards.map(card => (
+              <div key={card.label} className="bg-white dark:bg-gray-800 shadow-sm rounded-lg px-4 py-5">
+                <p className="text-sm font-medium text-gray-500 dark:text-gray-400">{card.label}</p>
+                <p className="mt-1 text-2xl font-semibold text-gray-900 dark:text-white">{card.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {palletPlan.unpalletised.length > 0 && (
+            <p className="text-sm text-red-600 dark:text-red-400">
+              Cannot palletise {palletPlan.unpalletised.map(item => `${item.quantity} x ${products.find(p => p.id === item.productId)?.sku}`).join(', ')}:
+              missing dimensions or weight, or too big for the pallet.
+            </p>
+          )}
+
+          <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg">
+            <div className="px-4 py-5 sm:p-6 space-y-4">
+              <h2 className="text-lg font-medium text-gray-900 dark:text-white">Container Fill</h2>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead>
+                    <tr>
+                      <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Container
+                      </th>
+                      <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Containers
+                      </th>
+                      <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Pallet Positions
+                      </th>
+                      <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Floor
+                      </th>
+                      <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Volume
+                      </th>
+                      <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Weight
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                    {containerFills.map(fill => (
+                      <tr key={fill.type}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                          {containerSpecs[fill.type].label}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{fill.containers}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                          {fill.stacks} of {fill.containers * fill.positions}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{fill.floorUtilisation}%</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{fill.volumeUtilisation}%</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{fill.weightUtilisation}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg">
+            <div className="px-4 py-5 sm:p-6 space-y-4">
+              <h2 className="text-lg font-medium text-gray-900 dark:text-white">Pallets</h2>
+              {palletPlan.groups.map((group, index) => {
+                const product = products.find(p => p.id === group.productId);
+                return (
+                  <div key={`${group.productId}-${index}`} className="p-4 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="font-medium text-gray-900 dark:text-white">
+                        {group.pallets} x [{product?.sku}] {product?.name}
+                      </span>
+                      <span className="text-gray-500 dark:text-gray-400">
+                        {group.units} units | {formatLength(group.height, unitSystem)} high | {formatWeight(group.weight, unitSystem)} per pallet
+                      </span>
+                    </div>
+                    <table className="mt-2 min-w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+                          <th className="py-1">Layer</th>
+                          <th className="py-1">Units</th>
+                          <th className="py-1">Height to Top ({units.dimension})</th>
+                        </tr>
+                      </thead>
+                      <tbody className="text-gray-700 dark:text-gray-300">
+                        {group.layers.map(layer => (
+                          <tr key={layer.layer}>
+                            <td className="py-1">{layer.layer}</td>
+                            <td className="py-1">{layer.units}</td>
+                            <td className="py-1">{toSystemLength(layer.height, unitSystem)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default LoadPlanner;
@@ -0,0 +1,343 @@
+import React, { useState, useMemo } from 'react';
+import { Plus, Pencil, Trash2, Search, MoreVertical } from 'lucide-react';
+import Modal from '../components/Modal';
+import { useForm } from 'react-hook-form';
+import { WarehouseLocation } from '../types';
+import { useInventoryStore, useAlertStore } from '../store';
+import { useLocationStore } from '../store/locations';
+import { formatLocationCode, getLocationUsage } from '../utils/locations';
+
+interface LocationFormData {
+  zone: string;
+  aisle: string;
+  rack: string;
+  bin: string;
+  maxCbm: number;
+  maxWeight: number;
+}
+
+function Locations() {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingLocation, setEditingLocation] = useState<WarehouseLocation | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedZone, setSelectedZone] = useState('all');
+  const [openActionMenu, setOpenActionMenu] = useState<string | null>(null);
+
+  const { register, handleSubmit, reset, setValue, watch } = useForm<LocationFormData>();
+  const { locations, addLocation, updateLocation, deleteLocation } = useLocationStore();
+  const { products, stock } = useInventoryStore();
+  const { setAlert } = useAlertStore();
+
+  // Preview the generated code while typing
+  const previewCode = formatLocationCode(
+    watch('zone') || '',
+    watch('aisle') || '',
+    watch('rack') || '',
+    watch('bin') || ''
+  );
+
+  const zones = useMemo(() =>
+    Array.from(new Set(locations.map(l => l.zone))).sort(),
+    [locations]
+  );
+
+  const filteredLocations = useMemo(() => {
+    return locations
+      .filter(location => {
+        const zoneMatch = selectedZone === 'all' || location.zone === selectedZone;
+        return location.code.toLowerCase().includes(searchTerm.toLowerCase()) && zoneMatch;
+      })
+      .sort((a, b) => a.code.localeCompare(b.code));
+  }, [locations, searchTerm, selectedZone]);
+
+  const onSubmit = (data: LocationFormData) => {
+    const code = formatLocationCode(data.zone, data.aisle, data.rack, data.bin);
+    const [zone = '', aisle = '', rack = '', bin = ''] = code.split('-');
+
+    try {
+      if (editingLocation) {
+        const hasStock = stock.some(s => s.location === editingLocation.code);
+        if (hasStock && code !== editingLocation.code) {
+          setAlert('Cannot change the code of a location that holds stock', 'error');
+          return;
+        }
+        updateLocation({
+          ...editingLocation,
+          code,
+          zone,
+          aisle,
+          rack,
+          bin,
+          maxCbm: Number(data.maxCbm),
+          maxWeight: Number(data.maxWeight)
+        });
+        setAlert('Location updated successfully', 'success');
+      } else {
+        addLocation({
+          id: crypto.randomUUID(),
+          code,
+          zone,
+          aisle,
+          rack,
+          bin,
+          maxCbm: Number(data.maxCbm),
+          maxWeight: Number(data.maxWeight),
+          createdAt: new Date(),
+          updatedAt: new Date()
+        });
+        setAlert('Location added successfully', 'success');
+      }
+      closeModal();
+    } catch (error) {
+      setAlert(error instanceof Error ? error.message : 'Failed to save location', 'error');
+    }
+  };
+
+  const openEditModal = (location: WarehouseLocation) => {
+    setEditingLocation(location);
+    setValue('zone', location.zone);
+    setValue('aisle', location.aisle);
+    setValue('rack', location.rack);
+    setValue('bin', location.bin);
+    setValue('maxCbm', location.maxCbm);
+    setValue('maxWeight', location.maxWeight);
+    setIsModalOpen(true);
+  };
+
+  const handleDeleteLocation = (location: WarehouseLocation) => {
+    if (stock.some(s => s.location === location.code)) {
+      setAlert('Cannot delete a location that holds stock', 'error');
+      return;
+    }
+    deleteLocation(location.id);
+    setAlert('Location deleted successfully', 'success');
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingLocation(null);
+    reset();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Locations</h1>
+        <button
+          onClick={() => setIsModalOpen(true)}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600"
+        >
+          <Plus className="h-5 w-5 mr-2" />
+          Add Location
+        </button>
+      </div>
+
+      <div className="flex items-center space-x-4">
+        <div className="relative flex-1">
+          <input
+            type="text"
+            placeholder="Search locations by code..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
+          />
+          <Search className="absolute left-3 top-2.5 h-5 w-5 text-gray-400 dark:text-gray-500" />
+        </div>
+        <select
+          value={selectedZone}
+          onChange={(e) => setSelectedZone(e.target.value)}
+          className="block w-40 pl-3 pr-10 py-2 text-base border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md dark:bg-gray-700 dark:text-white"
+        >
+          <option value="all">All Zones</option>
+          {zones.map(zone => (
+            <option key={zone} value={zone}>Zone {zone}</option>
+          ))}
+        </select>
+      </div>
+
+      <Modal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        title={editingLocation ? 'Edit Location' : 'Add New Location'}
+      >
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="grid grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Zone</label>
+              <input
+                type="text"
+                {...register('zone', { required: true })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Aisle</label>
+              <input
+                type="text"
+                {...register('aisle', { required: true })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Rack</label>
+              <input
+                type="text"
+                {...register('rack', { required: true })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Bin</label>
+              <input
+                type="text"
+                {...register('bin', { required: true })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+          </div>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Location code: <span className="font-medium">{previewCode}</span>
+          </p>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Max CBM (m³)</label>
+              <input
+                type="number"
+                step="0.001"
+                {...register('maxCbm', { required: true, min: 0 })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Max Weight (lbs)</label>
+              <input
+                type="number"
+                step="0.01"
+                {...register('maxWeight', { required: true, min: 0 })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={closeModal}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 rounded-md"
+            >
+              {editingLocation ? 'Update' : 'Add'} Location
+            </button>
+          </div>
+        </form>
+      </Modal>
+
+      <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Code
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Zone / Aisle / Rack / Bin
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    CBM Used
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Weight Used
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {filteredLocations.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+                      No locations found. Click "Add Location" to create one.
+                    </td>
+                  </tr>
+                ) : (
+                  filteredLocations.map((location) => {
+                    const usage = getLocationUsage(location.code, stock, products);
+                    const cbmPercent = location.maxCbm > 0 ? (usage.cbm / location.maxCbm) * 100 : 0;
+                    return (
+                      <tr key={location.id}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                          {location.code}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                          {location.zone} / {location.aisle} / {location.rack} / {location.bin}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                          <div>{usage.cbm.toFixed(3)} / {location.maxCbm} m³</div>
+                          <div className="mt-1 w-32 h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full">
+                            <div
+                              className={`h-1.5 rounded-full ${cbmPercent > 90 ? 'bg-red-500' : cbmPercent > 70 ? 'bg-yellow-500' : 'bg-green-500'}`}
+                              style={{ width: `${Math.min(cbmPercent, 100)}%` }}
+                            />
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                          {usage.weight.toFixed(2)} / {location.maxWeight} lbs
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                          <div className="relative inline-block text-left">
+                            <button
+                              onClick={() => setOpenActionMenu(openActionMenu === location.id ? null : location.id)}
+                              className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400"
+                            >
+                              <MoreVertical className="h-5 w-5" />
+                            </button>
+
+                            {openActionMenu === location.id && (
+                              <div className="origin-top-right absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white dark:bg-gray-700 ring-1 ring-black ring-opacity-5 z-10">
+                                <div className="py-1" role="menu">
+                                  <button
+                                    onClick={() => {
+                                      openEditModal(location);
+                                      setOpenActionMenu(null);
+                                    }}
+                                    className="flex items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                  >
+                                    <Pencil className="h-4 w-4 mr-2" />
+                                    Edit
+                                  </button>
+                                  <button
+                                    onClick={() => {
+                                      handleDeleteLocation(location);
+                                      setOpenActionMenu(null);
+                                    }}
+                                    className="flex items-center px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                  >
+                                    <Trash2 className="h-4 w-4 mr-2" />
+                                    Delete
+                                  </button>
+                                </div>
+                              </div>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default Locations;
@@ -1,33 +1,90 @@
-import React, { useState, useMemo } from 'react';
-import { Plus, Search, Upload } from 'lucide-react';
+import React, { useState, useMemo, useEffect } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Plus, Search, Upload, Truck, ChevronDown, ChevronRight, Trash2, RotateCcw } from 'lucide-react';
 import Modal from '../components/Modal';
 import SearchableSelect from '../components/SearchableSelect';
-import { useForm, Controller } from 'react-hook-form';
-import { Transaction } from '../types';
+import { useForm } from 'react-hook-form';
+import { AsnStatus, Order, OrderPriority, ShipToAddress, Transaction, UomLevel, WorkflowType } from '../types';
 import { useInventoryStore, useAlertStore } from '../store';
 import { useAuthStore } from '../store/auth';
-import { generateWorkflowNumber } from '../utils/workflow';
+import { useAsnStore } from '../store/asns';
+import { useOrderStore } from '../store/orders';
+import { useConsigneeStore } from '../store/consignees';
+import { useRmaStore } from '../store/rmas';
+import { generateWorkflowNumber, workflowTypeColors, workflowTypeLabels } from '../utils/workflow';
 import BulkOrderModal from '../components/BulkOrderModal';
+import AsnModal from '../components/AsnModal';
+import BulkAsnModal from '../components/BulkAsnModal';
+import RmaModal from '../components/RmaModal';
+import { getStockSummary } from '../utils/stock';
+import { AsnDraft, asnStatusColors, asnStatusLabels, buildAsn, getAsnLineProgress, getAsnStatus } from '../utils/asns';
+import { toShipTo } from '../utils/consignees';
+import { RmaDraft, buildRma } from '../utils/rmas';
+import { InboundRequestLine } from '../utils/replenishment';
+import { formatEnteredQuantity, getProductUoms, toBaseQuantity, uomAbbreviations, uomLevelLabels } from '../utils/uom';
+import { getAvailableAfterBackorders, getOpenBackorders } from '../utils/backorders';
+import { getOrderStatus, groupWorkflowRows, orderPriorityColors, orderPriorityLabels, orderStatusColors, orderStatusLabels } from '../utils/orders';
 
 interface OrderFormData {
   type: 'inbound' | 'outbound';
+  referenceNumber?: string;
+  requestedDate?: string;
+  priority: OrderPriority;
+  consigneeId?: string;
+  shipTo?: ShipToAddress;
+  carrier?: string;
+  notes?: string;
+}
+
+// Select value for typing an address that isn't kept in the address book
+const ONE_OFF_ADDRESS = 'one-off';
+
+interface OrderLineInput {
+  id: string;
   productId: string;
   quantity: number;
-  notes?: string;
+  uom: UomLevel;
 }
 
+const newLine = (): OrderLineInput => ({ id: crypto.randomUUID(), productId: '', quantity: 1, uom: 'each' });
+
 function Orders() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isBulkModalOpen, setIsBulkModalOpen] = useState(false);
+  const [isAsnModalOpen, setIsAsnModalOpen] = useState(false);
+  const [isBulkAsnModalOpen, setIsBulkAsnModalOpen] = useState(false);
+  const [isRmaModalOpen, setIsRmaModalOpen] = useState(false);
+  const [backorderVendor, setBackorderVendor] = useState('');
+  const [expandedAsnId, setExpandedAsnId] = useState<string | null>(null);
+  const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
+  const [lines, setLines] = useState<OrderLineInput[]>([newLine()]);
   const [searchTerm, setSearchTerm] = useState('');
-  const [selectedStatus, setSelectedStatus] = useState<'all' | 'pending' | 'completed' | 'cancelled'>('all');
+  const [selectedStatus, setSelectedStatus] = useState<'all' | 'pending' | 'backordered' | 'completed' | 'cancelled'>('all');
 
-  const { register, handleSubmit, reset, control } = useForm<OrderFormData>();
+  const { register, handleSubmit, reset, watch } = useForm<OrderFormData>({
+    defaultValues: { type: 'inbound', priority: 'normal' }
+  });
   const { products, transactions, addTransaction } = useInventoryStore();
   const { setAlert } = useAlertStore();
   const { user } = useAuthStore();
+  const { asns, addAsn } = useAsnStore();
+  const { orders, addOrder } = useOrderStore();
+  const { consignees } = useConsigneeStore();
+  const { rmas, addRma } = useRmaStore();
 
   const isVendor = user?.role === 'vendor';
+  const routerLocation = useLocation();
+  const navigate = useNavigate();
+
+  // The replenishment screen hands its suggestions over as a prefilled inbound request
+  useEffect(() => {
+    const inboundLines = (routerLocation.state as { inboundLines?: InboundRequestLine[] } | null)?.inboundLines;
+    if (!inboundLines?.length) return;
+    reset({ type: 'inbound', priority: 'normal', notes: 'Replenishment' });
+    setLines(inboundLines.map(line => ({ ...newLine(), productId: line.productId, quantity: line.quantity })));
+    setIsModalOpen(true);
+    navigate(routerLocation.pathname, { replace: true, state: null });
+  }, [routerLocation.state, routerLocation.pathname, reset, navigate]);
 
   // Filter products based on user role
   const availableProducts = useMemo(() => 
@@ -39,9 +96,9 @@ function Orders() {
     availableProducts.map(product => ({
       value: product.id,
       label: `[${product.sku}] ${product.name}`,
-      description: `Stock: ${product.quantity} | Location: ${product.location}`
+      description: `Available: ${getStockSummary(product, transactions).available} | On hand: ${product.quantity}`
     })),
-    [availableProducts]
+    [availableProducts, transactions]
   );
 
   // Filter transactions based on user role
@@ -50,40 +107,147 @@ function Orders() {
       const product = products.find(p => p.id === transaction.productId);
       if (isVendor && (!product || product.vendorNumber !== user?.vendorNumber)) return false;
 
-      const searchString = `${product?.sku} ${product?.name} ${transaction.workflowNumber}`.toLowerCase();
+      const searchString = `${product?.sku} ${product?.name} ${transaction.workflowNumber} ${transaction.referenceNumber || ''}`.toLowerCase();
       const statusMatch = selectedStatus === 'all' || transaction.status === selectedStatus;
       
       return searchString.includes(searchTerm.toLowerCase()) && statusMatch;
     }).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
   }, [transactions, products, user?.vendorNumber, searchTerm, selectedStatus, isVendor]);
 
+  const workflowRows = useMemo(
+    () => groupWorkflowRows(filteredTransactions, orders),
+    [filteredTransactions, orders]
+  );
+
+  const filteredAsns = useMemo(() => {
+    return asns
+      .filter(asn => !isVendor || asn.vendorNumber === user?.vendorNumber)
+      .filter(asn => `${asn.asnNumber} ${asn.referenceNumber} ${asn.carrier}`.toLowerCase().includes(searchTerm.toLowerCase()))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }, [asns, isVendor, user?.vendorNumber, searchTerm]);
+
+  const openBackorders = useMemo(
+    () => getOpenBackorders(transactions, products, orders, isVendor ? user?.vendorNumber : backorderVendor || undefined),
+    [transactions, products, orders, isVendor, user?.vendorNumber, backorderVendor]
+  );
+
+  const vendorNumbers = useMemo(() =>
+    Array.from(new Set(products.map(p => p.vendorNumber))).filter(Boolean).sort(),
+    [products]
+  );
+
+  const orderType = watch('type');
+  const selectedConsigneeId = watch('consigneeId');
+
+  const consigneeOptions = useMemo(() =>
+    consignees
+      .filter(c => !isVendor || c.vendorNumber === user?.vendorNumber)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    [consignees, isVendor, user?.vendorNumber]
+  );
+
+  const updateLine = (id: string, updates: Partial<OrderLineInput>) => {
+    setLines(lines.map(line => line.id === id ? { ...line, ...updates } : line));
+  };
+
   const onSubmit = async (data: OrderFormData) => {
-    const product = products.find(p => p.id === data.productId);
-    
-    if (!product) {
-      setAlert('Product not found', 'error');
+    const filledLines = lines.filter(line => line.productId);
+    if (filledLines.length === 0) {
+      setAlert('Add at least one product line', 'error');
+      return;
+    }
+    if (filledLines.some(line => Number(line.quantity) <= 0)) {
+      setAlert('Line quantities must be greater than 0', 'error');
       return;
     }
 
-    if (data.type === 'outbound' && product.quantity < data.quantity) {
-      setAlert('Insufficient inventory quantity', 'error');
+    const lineProducts = filledLines.map(line => products.find(p => p.id === line.productId));
+    const vendorNumbers = new Set(lineProducts.map(product => product?.vendorNumber));
+    if (vendorNumbers.size > 1) {
+      setAlert('All lines of an order must belong to the same vendor', 'error');
       return;
     }
 
-    const transaction: Transaction = {
+    const vendorNumber = lineProducts[0]?.vendorNumber || '';
+    let shipTo: ShipToAddress | undefined;
+    let consigneeId: string | undefined;
+    if (data.type === 'outbound' && data.consigneeId === ONE_OFF_ADDRESS) {
+      shipTo = data.shipTo;
+    } else if (data.type === 'outbound' && data.consigneeId) {
+      const consignee = consignees.find(c => c.id === data.consigneeId);
+      if (!consignee || consignee.vendorNumber !== vendorNumber) {
+        setAlert(`Ship-to address must belong to vendor ${vendorNumber}`, 'error');
+        return;
+      }
+      shipTo = toShipTo(consignee);
+      consigneeId = consignee.id;
+    }
+
+    // One workflow number covers every line of the order
+    const order: Order = {
       id: crypto.randomUUID(),
-      type: data.type,
-      productId: data.productId,
-      quantity: data.quantity,
-      status: 'pending',
       workflowNumber: generateWorkflowNumber(transactions),
+      type: data.type,
+      vendorNumber,
+      referenceNumber: data.referenceNumber,
+      consigneeId,
+      shipTo,
+      carrier: data.type === 'outbound' ? data.carrier : undefined,
+      requestedDate: data.requestedDate,
+      priority: data.priority,
       notes: data.notes,
+      createdBy: user?.name,
       createdAt: new Date(),
       updatedAt: new Date()
     };
 
-    addTransaction(transaction);
-    setAlert(`${data.type === 'inbound' ? 'Inbound' : 'Outbound'} request sent successfully`, 'success');
+    const orderLines: Transaction[] = [];
+    for (const line of filledLines) {
+      const product = products.find(p => p.id === line.productId);
+      if (!product) {
+        setAlert('Product not found', 'error');
+        return;
+      }
+      const quantity = toBaseQuantity(product, Number(line.quantity), line.uom);
+      if (quantity === undefined) {
+        setAlert(`${product.sku} is not handled in ${uomLevelLabels[line.uom].toLowerCase()}s`, 'error');
+        return;
+      }
+
+      // Lines beyond available stock are backordered, as are lines that would take stock open backorders
+      // wait for; earlier lines of the same order reserve stock too
+      const backordered = data.type === 'outbound' &&
+        getAvailableAfterBackorders(product, [...transactions, ...orderLines]) < quantity;
+
+      orderLines.push({
+        id: crypto.randomUUID(),
+        type: data.type,
+        productId: line.productId,
+        quantity,
+        uom: line.uom,
+        uomQuantity: line.uom === 'each' ? undefined : Number(line.quantity),
+        status: backordered ? 'backordered' : 'pending',
+        workflowNumber: order.workflowNumber,
+        orderId: order.id,
+        referenceNumber: data.referenceNumber,
+        consigneeId,
+        shipTo,
+        carrier: order.carrier,
+        notes: data.notes,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+    }
+
+    addOrder(order);
+    orderLines.forEach(transaction => addTransaction(transaction));
+    const backorderedLines = orderLines.filter(line => line.status === 'backordered').length;
+    setAlert(
+      backorderedLines > 0
+        ? `Outbound order ${order.workflowNumber} sent with ${backorderedLines} backordered lines`
+        : `${data.type === 'inbound' ? 'Inbound' : 'Outbound'} order ${order.workflowNumber} sent successfully`,
+      backorderedLines > 0 ? 'warning' : 'success'
+    );
     closeModal();
   };
 
@@ -93,11 +257,94 @@ function Orders() {
     setIsBulkModalOpen(false);
   };
 
+  // Each ASN line becomes a pending inbound workflow that staff receive against
+  const createAsns = (drafts: (AsnDraft & { vendorNumber: string })[]) => {
+    let allTransactions = transactions;
+    let allAsns = asns;
+    drafts.forEach(draft => {
+      const { asn, transactions: asnTransactions } = buildAsn(draft, draft.vendorNumber, allAsns, allTransactions, user?.name);
+      addAsn(asn);
+      asnTransactions.forEach(transaction => addTransaction(transaction));
+      allAsns = [...allAsns, asn];
+      allTransactions = [...allTransactions, ...asnTransactions];
+    });
+  };
+
+  const handleCreateAsn = (draft: AsnDraft, vendorNumber: string) => {
+    createAsns([{ ...draft, vendorNumber }]);
+    setAlert('Advance shipping notice created successfully', 'success');
+  };
+
+  const handleBulkAsnImport = (drafts: (AsnDraft & { vendorNumber: string })[]) => {
+    createAsns(drafts);
+    setAlert(`Successfully imported ${drafts.length} advance shipping notices`, 'success');
+    setIsBulkAsnModalOpen(false);
+  };
+
+  // Returns are received and inspected by staff from the Returns page
+  const handleCreateRma = (draft: RmaDraft, vendorNumber: string) => {
+    const rma = buildRma(draft, vendorNumber, rmas, user?.name);
+    addRma(rma);
+    setAlert(`Return ${rma.rmaNumber} raised successfully`, 'success');
+  };
+
   const closeModal = () => {
     setIsModalOpen(false);
+    setLines([newLine()]);
     reset();
   };
 
+  const renderTransactionRow = (transaction: Transaction, isLine = false) => {
+    const product = products.find(p => p.id === transaction.productId);
+    return (
+      <tr key={transaction.id} className={isLine ? 'bg-gray-50 dark:bg-gray-900' : ''}>
+        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+          {new Date(transaction.createdAt).toLocaleDateString()}
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap">
+          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+            workflowTypeColors[transaction.type as WorkflowType]
+          }`}>
+            {workflowTypeLabels[transaction.type as WorkflowType]}
+          </span>
+        </td>
+        <td className={`py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400 ${isLine ? 'pl-12 pr-6' : 'px-6'}`}>
+          {transaction.workflowNumber}
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+          [{product?.sku}] {product?.name}
+        </td>
+        {!isVendor && (
+          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+            {product?.vendorNumber}
+          </td>
+        )}
+        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+          {transaction.quantity}
+          {transaction.uomQuantity !== undefined && (
+            <span className="text-xs"> ({formatEnteredQuantity(transaction)})</span>
+          )}
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap">
+          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+            transaction.status === 'pending'
+              ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
+              : transaction.status === 'completed'
+              ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+              : transaction.status === 'backordered'
+              ? 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200'
+              : 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+          }`}>
+            {transaction.status}
+          </span>
+          {transaction.backorderFilledAt && transaction.status === 'pending' && (
+            <div className="text-xs text-gray-500 dark:text-gray-400">Backorder fillable</div>
+          )}
+        </td>
+      </tr>
+    );
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -117,6 +364,27 @@ function Orders() {
             <Upload className="h-5 w-5 mr-2" />
             Send Bulk Request
           </button>
+          <button
+            onClick={() => setIsAsnModalOpen(true)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 dark:bg-green-500 dark:hover:bg-green-600"
+          >
+            <Truck className="h-5 w-5 mr-2" />
+            New ASN
+          </button>
+          <button
+            onClick={() => setIsBulkAsnModalOpen(true)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 dark:bg-green-500 dark:hover:bg-green-600"
+          >
+            <Upload className="h-5 w-5 mr-2" />
+            Import ASN
+          </button>
+          <button
+            onClick={() => setIsRmaModalOpen(true)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-orange-600 hover:bg-orange-700 dark:bg-orange-500 dark:hover:bg-orange-600"
+          >
+            <RotateCcw className="h-5 w-5 mr-2" />
+            Raise Return
+          </button>
         </div>
       </div>
 
@@ -138,6 +406,7 @@ function Orders() {
         >
           <option value="all">All Status</option>
           <option value="pending">Pending</option>
+          <option value="backordered">Backordered</option>
           <option value="completed">Completed</option>
           <option value="cancelled">Cancelled</option>
         </select>
@@ -159,31 +428,193 @@ function Orders() {
               <option value="outbound">Outbound</option>
             </select>
           </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Product</label>
-            <Controller
-              name="productId"
-              control={control}
-              rules={{ required: true }}
-              render={({ field }) => (
-                <SearchableSelect
-                  options={productOptions}
-                  value={field.value}
-                  onChange={field.onChange}
-                  placeholder="Search and select a product..."
-                  className="mt-1"
-                />
-              )}
-            />
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Reference</label>
+              <input
+                type="text"
+                {...register('referenceNumber')}
+                placeholder="PO / customer order number"
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Priority</label>
+              <select
+                {...register('priority', { required: true })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              >
+                {Object.entries(orderPriorityLabels).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
           </div>
           <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Quantity</label>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Requested Date</label>
             <input
-              type="number"
-              {...register('quantity', { required: true, min: 1 })}
+              type="date"
+              {...register('requestedDate')}
               className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
             />
           </div>
+          {orderType === 'outbound' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Ship To</label>
+              <select
+                {...register('consigneeId')}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              >
+                <option value="">No ship-to address</option>
+                {consigneeOptions.map(consignee => (
+                  <option key={consignee.id} value={consignee.id}>
+                    {consignee.name} - {consignee.city}{isVendor ? '' : ` (${consignee.vendorNumber})`}
+                  </option>
+                ))}
+                <option value={ONE_OFF_ADDRESS}>One-off address...</option>
+              </select>
+            </div>
+          )}
+          {orderType === 'outbound' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Carrier</label>
+              <input
+                type="text"
+                {...register('carrier')}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+          )}
+          {orderType === 'outbound' && selectedConsigneeId === ONE_OFF_ADDRESS && (
+            <div className="space-y-4 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Consignee Name</label>
+                <input
+                  type="text"
+                  {...register('shipTo.name', { required: true })}
+                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Contact</label>
+                  <input
+                    type="text"
+                    {...register('shipTo.contactName')}
+                    className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Phone</label>
+                  <input
+                    type="text"
+                    {...register('shipTo.phone')}
+                    className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Address Line 1</label>
+                <input
+                  type="text"
+                  {...register('shipTo.addressLine1', { required: true })}
+                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Address Line 2</label>
+                <input
+                  type="text"
+                  {...register('shipTo.addressLine2')}
+                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">City</label>
+                  <input
+                    type="text"
+                    {...register('shipTo.city', { required: true })}
+                    className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">State / Province</label>
+                  <input
+                    type="text"
+                    {...register('shipTo.state')}
+                    className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Postal Code</label>
+                  <input
+                    type="text"
+                    {...register('shipTo.postalCode', { required: true })}
+                    className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Country</label>
+                <input
+                  type="text"
+                  {...register('shipTo.country', { required: true })}
+                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Lines</label>
+              <button
+                type="button"
+                onClick={() => setLines([...lines, newLine()])}
+                className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Line
+              </button>
+            </div>
+            {lines.map(line => (
+              <div key={line.id} className="flex items-start space-x-2 p-2 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <div className="flex-1">
+                  <SearchableSelect
+                    options={productOptions}
+                    value={line.productId}
+                    onChange={(value) => updateLine(line.id, { productId: value, uom: 'each' })}
+                    placeholder="Search and select a product..."
+                  />
+                </div>
+                <input
+                  type="number"
+                  min="1"
+                  value={line.quantity}
+                  onChange={(e) => updateLine(line.id, { quantity: Number(e.target.value) })}
+                  className="block w-24 rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                />
+                <select
+                  value={line.uom}
+                  onChange={(e) => updateLine(line.id, { uom: e.target.value as UomLevel })}
+                  className="block w-24 rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                >
+                  {getProductUoms(products.find(p => p.id === line.productId)).map(uom => (
+                    <option key={uom.level} value={uom.level}>{uomAbbreviations[uom.level]}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => setLines(lines.filter(l => l.id !== line.id))}
+                  disabled={lines.length === 1}
+                  className="p-2 text-red-600 dark:text-red-400 hover:text-red-900 dark:hover:text-red-300 disabled:opacity-50"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Notes</label>
             <textarea
@@ -215,6 +646,31 @@ function Orders() {
         onClose={() => setIsBulkModalOpen(false)}
         onImport={handleBulkImport}
         products={availableProducts}
+        consignees={consigneeOptions}
+        existingTransactions={transactions}
+      />
+
+      <AsnModal
+        isOpen={isAsnModalOpen}
+        onClose={() => setIsAsnModalOpen(false)}
+        onCreate={handleCreateAsn}
+        products={availableProducts}
+      />
+
+      <BulkAsnModal
+        isOpen={isBulkAsnModalOpen}
+        onClose={() => setIsBulkAsnModalOpen(false)}
+        onImport={handleBulkAsnImport}
+        products={availableProducts}
+      />
+
+      <RmaModal
+        isOpen={isRmaModalOpen}
+        onClose={() => setIsRmaModalOpen(false)}
+        onCreate={handleCreateRma}
+        products={availableProducts}
+        transactions={transactions}
+        rmas={rmas}
       />
 
       <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg">
@@ -256,48 +712,279 @@ function Orders() {
                     </td>
                   </tr>
                 ) : (
-                  filteredTransactions.map((transaction) => {
-                    const product = products.find(p => p.id === transaction.productId);
+                  workflowRows.map((row) => {
+                    if (row.kind === 'transaction') return renderTransactionRow(row.transaction);
+
+                    const { order } = row;
+                    const orderLines = transactions.filter(t => t.orderId === order.id);
+                    const status = getOrderStatus(orderLines);
+                    const isExpanded = expandedOrderId === order.id;
                     return (
-                      <tr key={transaction.id}>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                          {new Date(transaction.createdAt).toLocaleDateString()}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                            transaction.type === 'inbound' 
-                              ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' 
-                              : 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
-                          }`}>
-                            {transaction.type}
-                          </span>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                          {transaction.workflowNumber}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                          [{product?.sku}] {product?.name}
-                        </td>
-                        {!isVendor && (
+                      <React.Fragment key={order.id}>
+                        <tr
+                          onClick={() => setExpandedOrderId(isExpanded ? null : order.id)}
+                          className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700"
+                        >
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                            {new Date(order.createdAt).toLocaleDateString()}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${workflowTypeColors[order.type]}`}>
+                              {workflowTypeLabels[order.type]}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                            <span className="inline-flex items-center">
+                              {isExpanded
+                                ? <ChevronDown className="h-4 w-4 mr-1" />
+                                : <ChevronRight className="h-4 w-4 mr-1" />}
+                              {order.workflowNumber}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                            <div className="flex items-center space-x-2">
+                              <span>{orderLines.length} lines</span>
+                              <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${orderPriorityColors[order.priority]}`}>
+                                {orderPriorityLabels[order.priority]}
+                              </span>
+                            </div>
+                            {order.referenceNumber && (
+                              <div className="text-xs">Ref: {order.referenceNumber}</div>
+                            )}
+                            {order.requestedDate && (
+                              <div className="text-xs">Requested: {order.requestedDate}</div>
+                            )}
+                            {order.shipTo && (
+                              <div className="text-xs">Ship to: {order.shipTo.name}, {order.shipTo.city}</div>
+                            )}
+                          </td>
+                          {!isVendor && (
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                              {order.vendorNumber}
+                            </td>
+                          )}
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                            {product?.vendorNumber}
+                            {orderLines.reduce((total, line) => total + Number(line.quantity), 0)}
                           </td>
-                        )}
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${orderStatusColors[status]}`}>
+                              {orderStatusLabels[status]}
+                            </span>
+                          </td>
+                        </tr>
+                        {isExpanded && row.lines.map(line => renderTransactionRow(line, true))}
+                      </React.Fragment>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-medium text-gray-900 dark:text-white">Open Backorders</h2>
+            {!isVendor && (
+              <select
+                value={backorderVendor}
+                onChange={(e) => setBackorderVendor(e.target.value)}
+                className="block w-40 pl-3 pr-10 py-2 text-base border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md dark:bg-gray-700 dark:text-white"
+              >
+                <option value="">All Vendors</option>
+                {vendorNumbers.map(vendorNumber => (
+                  <option key={vendorNumber} value={vendorNumber}>{vendorNumber}</option>
+                ))}
+              </select>
+            )}
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Workflow Number
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Product
+                  </th>
+                  {!isVendor && (
+                    <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Vendor
+                    </th>
+                  )}
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Priority
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Backordered
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Available
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Queue
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {openBackorders.length === 0 ? (
+                  <tr>
+                    <td colSpan={isVendor ? 7 : 8} className="px-6 py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+                      No open backorders.
+                    </td>
+                  </tr>
+                ) : (
+                  openBackorders.map(({ transaction, product, priority, queuePosition }) => (
+                    <tr key={transaction.id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {new Date(transaction.createdAt).toLocaleDateString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                        {transaction.workflowNumber}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        [{product.sku}] {product.name}
+                      </td>
+                      {!isVendor && (
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                          {transaction.quantity}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                            transaction.status === 'pending'
-                              ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
-                              : transaction.status === 'completed'
-                              ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
-                              : 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
-                          }`}>
-                            {transaction.status}
-                          </span>
+                          {product.vendorNumber}
                         </td>
-                      </tr>
+                      )}
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${orderPriorityColors[priority]}`}>
+                          {orderPriorityLabels[priority]}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {transaction.quantity}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {getStockSummary(product, transactions).available}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        #{queuePosition}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Advance Shipping Notices</h2>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    ASN Number
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Reference
+                  </th>
+                  {!isVendor && (
+                    <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Vendor
+                    </th>
+                  )}
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Carrier
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Expected Date
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Expected / Received
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Status
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {filteredAsns.length === 0 ? (
+                  <tr>
+                    <td colSpan={isVendor ? 6 : 7} className="px-6 py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+                      No advance shipping notices found.
+                    </td>
+                  </tr>
+                ) : (
+                  filteredAsns.map((asn) => {
+                    const status = getAsnStatus(asn, transactions);
+                    const expected = asn.lines.reduce((total, line) => total + line.expectedQuantity, 0);
+                    const received = asn.lines.reduce(
+                      (total, line) => total + getAsnLineProgress(line.transactionId, transactions).received, 0
+                    );
+                    return (
+                      <React.Fragment key={asn.id}>
+                        <tr
+                          onClick={() => setExpandedAsnId(expandedAsnId === asn.id ? null : asn.id)}
+                          className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700"
+                        >
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                            <span className="inline-flex items-center">
+                              {expandedAsnId === asn.id
+                                ? <ChevronDown className="h-4 w-4 mr-1" />
+                                : <ChevronRight className="h-4 w-4 mr-1" />}
+                              {asn.asnNumber}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                            {asn.referenceNumber}
+                          </td>
+                          {!isVendor && (
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                              {asn.vendorNumber}
+                            </td>
+                          )}
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                            {asn.carrier}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                            {asn.expectedDate}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                            {expected} / {received}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                              asnStatusColors[status as AsnStatus]
+                            }`}>
+                              {asnStatusLabels[status as AsnStatus]}
+                            </span>
+                          </td>
+                        </tr>
+                        {expandedAsnId === asn.id && asn.lines.map(line => {
+                          const product = products.find(p => p.id === line.productId);
+                          const progress = getAsnLineProgress(line.transactionId, transactions);
+                          return (
+                            <tr key={line.id} className="bg-gray-50 dark:bg-gray-900">
+                              <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                                {progress.transaction?.workflowNumber}
+                              </td>
+                              <td colSpan={isVendor ? 3 : 4} className="px-6 py-2 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                                [{product?.sku}] {product?.name}
+                              </td>
+                              <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                                {line.expectedQuantity} / {progress.received}
+                              </td>
+                              <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                                {progress.transaction?.status}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </React.Fragment>
                     );
                   })
                 )}
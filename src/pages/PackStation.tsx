@@ -0,0 +1,610 @@
+import React, { useState, useMemo } from 'react';
+import { Plus, Pencil, Trash2, Printer, Wand2, PackageCheck } from 'lucide-react';
+import { useForm } from 'react-hook-form';
+import Modal from '../components/Modal';
+import SearchableSelect from '../components/SearchableSelect';
+import { BoxType, CartonItem, PackedCarton, PackRecord, Transaction, UnitSystem } from '../types';
+import { useInventoryStore, useAlertStore } from '../store';
+import { useAuthStore } from '../store/auth';
+import { usePackingStore } from '../store/packing';
+import {
+  formatDimensions,
+  formatLength,
+  formatWeight,
+  fromSystemLength,
+  fromSystemWeight,
+  getProductWeight,
+  toSystemLength,
+  toSystemWeight,
+  unitSystemUnits
+} from '../utils/calculations';
+import { getPackSummary, isLinePacked, suggestCartons } from '../utils/cartonization';
+import { generateCartonPackingList } from '../utils/packingSlips';
+import { openPrintWindow } from '../utils/print';
+
+interface BoxFormData {
+  name: string;
+  length: number;
+  width: number;
+  height: number;
+  maxWeight: number;
+  tareWeight: number;
+}
+
+// Outbound lines that ship now; backordered lines wait for stock and are packed later
+const isShippingLine = (t: Transaction) =>
+  t.type === 'outbound' && t.status !== 'cancelled' && t.status !== 'backordered';
+
+function PackStation() {
+  const [isBoxModalOpen, setIsBoxModalOpen] = useState(false);
+  const [editingBox, setEditingBox] = useState<BoxType | null>(null);
+  const [workflowNumber, setWorkflowNumber] = useState('');
+  const [cartons, setCartons] = useState<PackedCarton[]>([]);
+  const [unpacked, setUnpacked] = useState<CartonItem[]>([]);
+
+  const { register, handleSubmit, reset, setValue } = useForm<BoxFormData>();
+  const { products, transactions } = useInventoryStore();
+  const { boxes, packRecords, addBox, updateBox, deleteBox, addPackRecord } = usePackingStore();
+  const { setAlert } = useAlertStore();
+  const { user } = useAuthStore();
+  const unitSystem: UnitSystem = user?.unitSystem || 'imperial';
+  const units = unitSystemUnits[unitSystem];
+
+  // Outbound workflow numbers ready to pack: every shipping line not yet packed has been picked.
+  // An order's lines share one number, and backorders filled later are packed in a further record.
+  const workflowOptions = useMemo(() => {
+    const unpackedLines = transactions.filter(t => isShippingLine(t) && !isLinePacked(packRecords, t));
+    const numbers = Array.from(new Set(unpackedLines.map(t => t.workflowNumber)));
+    return numbers
+      .map(number => ({
+        number,
+        lines: unpackedLines.filter(t => t.workflowNumber === number),
+        backordered: transactions.filter(t => t.workflowNumber === number && t.status === 'backordered').length
+      }))
+      .filter(({ lines }) => lines.every(l => l.status === 'completed'))
+      .map(({ number, lines, backordered }) => ({
+        value: number,
+        label: number,
+        description: `${lines.length} lines picked${backordered > 0 ? ` | ${backordered} backordered` : ''}`
+      }));
+  }, [transactions, packRecords]);
+
+  // Lines of the workflow this packing covers
+  const linesToPack = useMemo(() =>
+    transactions.filter(t =>
+      t.workflowNumber === workflowNumber && isShippingLine(t) && !isLinePacked(packRecords, t)
+    ),
+    [transactions, packRecords, workflowNumber]
+  );
+
+  // Quantity of each product the workflow ships
+  const requiredItems = useMemo(() => {
+    const items: CartonItem[] = [];
+    linesToPack.forEach(t => {
+      const existing = items.find(i => i.productId === t.productId);
+      if (existing) existing.quantity += Number(t.quantity);
+      else items.push({ productId: t.productId, quantity: Number(t.quantity) });
+    });
+    return items;
+  }, [linesToPack]);
+
+  // Carton numbers carry on from cartons already packed for the workflow
+  const packedCartons = getPackSummary(packRecords, workflowNumber)?.cartons || 0;
+  const getCartonNumber = (index: number) => `${workflowNumber}-${packedCartons + index + 1}`;
+
+  const getPackedQuantity = (productId: string) =>
+    cartons.reduce((total, carton) =>
+      total + (carton.items.find(i => i.productId === productId)?.quantity || 0), 0);
+
+  const selectWorkflow = (value: string) => {
+    setWorkflowNumber(value);
+    setCartons([]);
+    setUnpacked([]);
+  };
+
+  const handleSuggest = () => {
+    if (boxes.length === 0) {
+      setAlert('Add boxes to the catalogue first', 'error');
+      return;
+    }
+    const suggestion = suggestCartons(requiredItems, products, boxes);
+    setCartons(suggestion.cartons.map((carton, index) => ({
+      cartonNumber: getCartonNumber(index),
+      boxId: carton.boxId,
+      weight: toSystemWeight(carton.weight, unitSystem),
+      items: carton.items
+    })));
+    setUnpacked(suggestion.unpacked);
+  };
+
+  const addCarton = () => {
+    setCartons([...cartons, {
+      cartonNumber: getCartonNumber(cartons.length),
+      boxId: boxes[0]?.id || '',
+      weight: 0,
+      items: []
+    }]);
+  };
+
+  // Renumber so carton numbers stay sequential after one is removed
+  const removeCarton = (index: number) => {
+    setCartons(cartons
+      .filter((_, i) => i !== index)
+      .map((carton, i) => ({ ...carton, cartonNumber: getCartonNumber(i) })));
+  };
+
+  const updateCarton = (index: number, updates: Partial<PackedCarton>) => {
+    setCartons(cartons.map((carton, i) => i === index ? { ...carton, ...updates } : carton));
+  };
+
+  const setCartonQuantity = (index: number, productId: string, quantity: number) => {
+    const carton = cartons[index];
+    if (!carton) return;
+    updateCarton(index, {
+      items: [
+        ...carton.items.filter(i => i.productId !== productId),
+        ...(quantity > 0 ? [{ productId, quantity }] : [])
+      ]
+    });
+  };
+
+  // Carton weights are entered in the user's weight unit and recorded in pounds
+  const handleConfirmPacking = () => {
+    if (cartons.length === 0) {
+      setAlert('Add at least one carton', 'error');
+      return;
+    }
+    const emptyCarton = cartons.find(c => c.items.length === 0 || !c.boxId || Number(c.weight) <= 0);
+    if (emptyCarton) {
+      setAlert(`Carton ${emptyCarton.cartonNumber} needs a box, items and a weight`, 'error');
+      return;
+    }
+    const mismatch = requiredItems.find(item => getPackedQuantity(item.productId) !== item.quantity);
+    if (mismatch) {
+      const product = products.find(p => p.id === mismatch.productId);
+      setAlert(`Packed quantity of ${product?.sku} must equal ${mismatch.quantity}`, 'error');
+      return;
+    }
+
+    const record: PackRecord = {
+      id: crypto.randomUUID(),
+      workflowNumber,
+      transactionIds: linesToPack.map(t => t.id),
+      cartons: cartons.map(c => ({ ...c, weight: Number(fromSystemWeight(Number(c.weight), unitSystem).toFixed(2)) })),
+      packedBy: user?.name,
+      packedAt: new Date()
+    };
+    addPackRecord(record);
+    setAlert(`${workflowNumber} packed in ${cartons.length} cartons`, 'success');
+    selectWorkflow('');
+  };
+
+  const handlePrint = (record: PackRecord) => {
+    if (!openPrintWindow(generateCartonPackingList(record, products, boxes, unitSystem))) {
+      setAlert('Allow pop-ups to print packing lists', 'error');
+    }
+  };
+
+  const onSubmitBox = (data: BoxFormData) => {
+    const box: BoxType = {
+      id: editingBox?.id || crypto.randomUUID(),
+      name: data.name,
+      length: fromSystemLength(Number(data.length), unitSystem),
+      width: fromSystemLength(Number(data.width), unitSystem),
+      height: fromSystemLength(Number(data.height), unitSystem),
+      maxWeight: fromSystemWeight(Number(data.maxWeight), unitSystem),
+      tareWeight: fromSystemWeight(Number(data.tareWeight), unitSystem)
+    };
+    if (editingBox) {
+      updateBox(box);
+      setAlert('Box updated successfully', 'success');
+    } else {
+      addBox(box);
+      setAlert('Box added successfully', 'success');
+    }
+    closeBoxModal();
+  };
+
+  const openEditBox = (box: BoxType) => {
+    setEditingBox(box);
+    setValue('name', box.name);
+    setValue('length', toSystemLength(box.length, unitSystem));
+    setValue('width', toSystemLength(box.width, unitSystem));
+    setValue('height', toSystemLength(box.height, unitSystem));
+    setValue('maxWeight', toSystemWeight(box.maxWeight, unitSystem));
+    setValue('tareWeight', toSystemWeight(box.tareWeight, unitSystem));
+    setIsBoxModalOpen(true);
+  };
+
+  const closeBoxModal = () => {
+    setIsBoxModalOpen(false);
+    setEditingBox(null);
+    reset();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Pack Station</h1>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg">
+        <div className="px-4 py-5 sm:p-6 space-y-4">
+          <div className="flex items-end space-x-3">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Outbound Workflow</label>
+              <SearchableSelect
+                options={workflowOptions}
+                value={workflowNumber}
+                onChange={selectWorkflow}
+                placeholder="Search and select a workflow to pack..."
+                className="mt-1"
+              />
+            </div>
+            <button
+              onClick={handleSuggest}
+              disabled={!workflowNumber}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 disabled:opacity-50"
+            >
+              <Wand2 className="h-5 w-5 mr-2" />
+              Suggest Cartons
+            </button>
+            <button
+              onClick={addCarton}
+              disabled={!workflowNumber}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              <Plus className="h-5 w-5 mr-2" />
+              Add Carton
+            </button>
+          </div>
+
+          {workflowNumber && (
+            <>
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead>
+                  <tr>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    SKU
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Unit Size
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Required
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Packed
+                  </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                  {requiredItems.map(item => {
+                    const product = products.find(p => p.id === item.productId);
+                    const packed = getPackedQuantity(item.productId);
+                    return (
+                      <tr key={item.productId}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                          {product?.sku}
+                          <div className="text-xs text-gray-500 dark:text-gray-400">{product?.name}</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                          {product && `${formatDimensions(product, unitSystem)}, ${formatWeight(getProductWeight(product), unitSystem)}`}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{item.quantity}</td>
+                        <td className={`px-6 py-4 whitespace-nowrap text-sm ${packed === item.quantity ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                          {packed}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              {unpacked.length > 0 && (
+                <p className="text-sm text-red-600 dark:text-red-400">
+                  No catalogue box fits {unpacked.map(item => `${item.quantity} x ${products.find(p => p.id === item.productId)?.sku}`).join(', ')}.
+                  Add them to a carton by hand.
+                </p>
+              )}
+
+              {cartons.map((carton, index) => (
+                <div key={carton.cartonNumber} className="p-4 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg space-y-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-900 dark:text-white">{carton.cartonNumber}</span>
+                    <button
+                      onClick={() => removeCarton(index)}
+                      className="p-1 text-red-600 dark:text-red-400 hover:text-red-900 dark:hover:text-red-300"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">Box</label>
+                      <select
+                        value={carton.boxId}
+                        onChange={(e) => updateCarton(index, { boxId: e.target.value })}
+                        className="block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                      >
+                        {boxes.map(box => (
+                          <option key={box.id} value={box.id}>
+                            {box.name} ({toSystemLength(box.length, unitSystem)} x {toSystemLength(box.width, unitSystem)} x {formatLength(box.height, unitSystem)})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">Scale Weight ({units.weight})</label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={carton.weight}
+                        onChange={(e) => updateCarton(index, { weight: Number(e.target.value) })}
+                        className="block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                      />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+                    {requiredItems.map(item => (
+                      <div key={item.productId}>
+                        <label className="block text-xs text-gray-500 dark:text-gray-400">
+                          {products.find(p => p.id === item.productId)?.sku}
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          value={carton.items.find(i => i.productId === item.productId)?.quantity || 0}
+                          onChange={(e) => setCartonQuantity(index, item.productId, Number(e.target.value))}
+                          className="block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+
+              {cartons.length > 0 && (
+                <div className="flex justify-end">
+                  <button
+                    onClick={handleConfirmPacking}
+                    className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 dark:bg-green-500 dark:hover:bg-green-600 rounded-md"
+                  >
+                    <PackageCheck className="h-5 w-5 mr-2" />
+                    Confirm Packing
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg">
+        <div className="px-4 py-5 sm:p-6 space-y-4">
+          <h2 className="text-lg font-medium text-gray-900 dark:text-white">Packed Workflows</h2>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Workflow Number
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Cartons
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Total Weight
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Packed
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {packRecords.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+                      Nothing packed yet.
+                    </td>
+                  </tr>
+                ) : (
+                  [...packRecords]
+                    .sort((a, b) => new Date(b.packedAt).getTime() - new Date(a.packedAt).getTime())
+                    .map(record => {
+                      const summary = getPackSummary([record], record.workflowNumber);
+                      return (
+                        <tr key={record.id}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                            {record.workflowNumber}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                            {summary?.cartons}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                            {summary && formatWeight(summary.weight, unitSystem)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                            {new Date(record.packedAt).toLocaleString()}
+                            {record.packedBy && <div className="text-xs">{record.packedBy}</div>}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                            <button
+                              onClick={() => handlePrint(record)}
+                              className="inline-flex items-center text-indigo-600 dark:text-indigo-400 hover:text-indigo-900 dark:hover:text-indigo-300"
+                            >
+                              <Printer className="h-4 w-4 mr-1" />
+                              Packing List
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg">
+        <div className="px-4 py-5 sm:p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-medium text-gray-900 dark:text-white">Box Catalogue</h2>
+            <button
+              onClick={() => setIsBoxModalOpen(true)}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600"
+            >
+              <Plus className="h-5 w-5 mr-2" />
+              Add Box
+            </button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Name
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Inside Dimensions ({units.dimension})
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Max Weight
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Tare Weight
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {boxes.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+                      No boxes yet. Click "Add Box" to build the catalogue.
+                    </td>
+                  </tr>
+                ) : (
+                  boxes.map(box => (
+                    <tr key={box.id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">{box.name}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {toSystemLength(box.length, unitSystem)} x {toSystemLength(box.width, unitSystem)} x {toSystemLength(box.height, unitSystem)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{formatWeight(box.maxWeight, unitSystem)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{formatWeight(box.tareWeight, unitSystem)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                        <button
+                          onClick={() => openEditBox(box)}
+                          className="text-indigo-600 dark:text-indigo-400 hover:text-indigo-900 dark:hover:text-indigo-300"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => deleteBox(box.id)}
+                          className="text-red-600 dark:text-red-400 hover:text-red-900 dark:hover:text-red-300"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <Modal
+        isOpen={isBoxModalOpen}
+        onClose={closeBoxModal}
+        title={editingBox ? 'Edit Box' : 'Add Box'}
+      >
+        <form onSubmit={handleSubmit(onSubmitBox)} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Name</label>
+            <input
+              type="text"
+              {...register('name', { required: true })}
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Length ({units.dimension})</label>
+              <input
+                type="number"
+                step="0.01"
+                {...register('length', { required: true, min: 0 })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Width ({units.dimension})</label>
+              <input
+                type="number"
+                step="0.01"
+                {...register('width', { required: true, min: 0 })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Height ({units.dimension})</label>
+              <input
+                type="number"
+                step="0.01"
+                {...register('height', { required: true, min: 0 })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Max Weight ({units.weight})</label>
+              <input
+                type="number"
+                step="0.01"
+                {...register('maxWeight', { required: true, min: 0 })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Tare Weight ({units.weight})</label>
+              <input
+                type="number"
+                step="0.01"
+                {...register('tareWeight', { required: true, min: 0 })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={closeBoxModal}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 rounded-md"
+            >
+              {editingBox ? 'Update' : 'Add'} Box
+            </button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+}
+
+export default PackStation;
@@ -1,41 +1,86 @@
 import React, { useState, useMemo } from 'react';
-import { Plus, Pencil, Trash2, Search, Upload, MoreVertical, History } from 'lucide-react';
+import { Plus, Pencil, Trash2, Search, Upload, MoreVertical, History, SlidersHorizontal, ScanLine, ShieldAlert, Layers } from 'lucide-react';
 import Modal from '../components/Modal';
-import { useForm } from 'react-hook-form';
-import { Product } from '../types';
+import SearchableSelect from '../components/SearchableSelect';
+import { useForm, Controller } from 'react-hook-form';
+import { AbcBasis, AbcClass, DimensionUnit, KitComponent, Product, ProductUom, StockStatus, UnitSystem, UomLevel, WeightUnit, XyzClass } from '../types';
 import { useInventoryStore, useAlertStore } from '../store';
 import { useAuthStore } from '../store/auth';
+import { useLocationStore } from '../store/locations';
+import { useUnitStore } from '../store/units';
+import { useAbcStore } from '../store/abc';
 import BulkImportModal from '../components/BulkImportModal';
 import LogChangesModal from '../components/LogChangesModal';
+import AdjustStockModal from '../components/AdjustStockModal';
+import SerialLookupModal from '../components/SerialLookupModal';
+import StockStatusModal from '../components/StockStatusModal';
+import KitWorkflowModal from '../components/KitWorkflowModal';
 import { validateSku } from '../utils/validation';
+import { getHeldQuantity, getProductStock, getStockSummary, heldStockStatuses, stockStatusColors, stockStatusLabels } from '../utils/stock';
+import { getLocationOptions } from '../utils/locations';
+import {
+  calculateDimWeight,
+  calculateUnitCBM,
+  dimensionUnitLabels,
+  formatDimensions,
+  formatWeight,
+  getProductWeight,
+  unitSystemUnits,
+  weightUnitLabels
+} from '../utils/calculations';
+import { getAvailableToBuild, isKit, validateKitComponents } from '../utils/kits';
+import { formatMixedQuantity, uomLevelLabels, uomLevels, validateUoms } from '../utils/uom';
+import { abcBasisLabels, abcClassColors, abcWindowOptions, analyzeAbc } from '../utils/abc';
 
 interface ProductFormData {
   sku: string;
   name: string;
   quantity: number;
   minStockLevel: number;
+  reorderPoint?: number;
+  reorderQuantity?: number;
   location: string;
   vendorNumber: string;
   weight: number;
   height: number;
   length: number;
   width: number;
+  dimensionUnit: DimensionUnit;
+  weightUnit: WeightUnit;
   unitCbm: number;
+  serialized: boolean;
 }
 
 function Products() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isBulkImportModalOpen, setIsBulkImportModalOpen] = useState(false);
   const [isLogChangesModalOpen, setIsLogChangesModalOpen] = useState(false);
+  const [isSerialLookupOpen, setIsSerialLookupOpen] = useState(false);
+  const [adjustingProduct, setAdjustingProduct] = useState<Product | null>(null);
+  const [statusProduct, setStatusProduct] = useState<Product | null>(null);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [selectedAbcClass, setSelectedAbcClass] = useState<AbcClass | 'all'>('all');
+  const [selectedXyzClass, setSelectedXyzClass] = useState<XyzClass | 'all'>('all');
   const [expandedNames, setExpandedNames] = useState<Set<string>>(new Set());
   const [openActionMenu, setOpenActionMenu] = useState<string | null>(null);
+  const [uomRows, setUomRows] = useState<ProductUom[]>([]);
+  const [componentRows, setComponentRows] = useState<KitComponent[]>([]);
+  const [kitProduct, setKitProduct] = useState<Product | null>(null);
   
-  const { register, handleSubmit, reset, setValue, watch } = useForm<ProductFormData>();
-  const { products, addProduct, updateProduct, deleteProduct } = useInventoryStore();
   const { user, getAllowedVendorNumbers } = useAuthStore();
+  const unitSystem: UnitSystem = user?.unitSystem || 'imperial';
+  const { register, handleSubmit, reset, setValue, watch, control } = useForm<ProductFormData>({
+    defaultValues: {
+      dimensionUnit: unitSystemUnits[unitSystem].dimension,
+      weightUnit: unitSystemUnits[unitSystem].weight
+    }
+  });
+  const { products, transactions, stock, addProduct, updateProduct, deleteProduct } = useInventoryStore();
+  const { dimWeightDivisors } = useUnitStore();
+  const { abcOptions, setAbcOptions } = useAbcStore();
+  const { locations } = useLocationStore();
   const { setAlert } = useAlertStore();
 
   const allowedVendorNumbers = getAllowedVendorNumbers(user);
@@ -45,6 +90,20 @@ function Products() {
   const quantity = watch('quantity') || 0;
   const unitCbm = watch('unitCbm') || 0;
   const totalCBM = quantity * unitCbm;
+  const dimensionUnit = watch('dimensionUnit') || 'in';
+  const weightUnit = watch('weightUnit') || 'lb';
+  const dimensionsCbm = calculateUnitCBM(Number(watch('length')), Number(watch('width')), Number(watch('height')), dimensionUnit);
+
+  const locationOptions = useMemo(() =>
+    getLocationOptions(locations, stock, products),
+    [locations, stock, products]
+  );
+
+  // Classes are ranked across all products so a vendor sees the same class as staff
+  const abcAnalysis = useMemo(() =>
+    new Map(analyzeAbc(products, transactions, abcOptions).map(analysis => [analysis.product.id, analysis])),
+    [products, transactions, abcOptions]
+  );
 
   const filteredProducts = useMemo(() => {
     return products.filter(product => {
@@ -55,10 +114,27 @@ function Products() {
         }
       }
 
-      const searchString = `${product.sku} ${product.name} ${product.location} ${product.vendorNumber}`.toLowerCase();
+      const analysis = abcAnalysis.get(product.id);
+      if (selectedAbcClass !== 'all' && analysis?.abcClass !== selectedAbcClass) return false;
+      if (selectedXyzClass !== 'all' && analysis?.xyzClass !== selectedXyzClass) return false;
+
+      const locations = getProductStock(stock, product.id).map(s => s.location).join(' ');
+      const searchString = `${product.sku} ${product.name} ${product.location} ${locations} ${product.vendorNumber}`.toLowerCase();
       return searchString.includes(searchTerm.toLowerCase());
     });
-  }, [products, searchTerm, user, allowedVendorNumbers]);
+  }, [products, stock, searchTerm, user, allowedVendorNumbers, abcAnalysis, selectedAbcClass, selectedXyzClass]);
+
+  // Kits are built from plain products only
+  const componentOptions = useMemo(() =>
+    products
+      .filter(p => p.id !== editingProduct?.id && !isKit(p) && !p.serialized)
+      .map(p => ({ value: p.id, label: `[${p.sku}] ${p.name}`, description: `Vendor: ${p.vendorNumber}` })),
+    [products, editingProduct]
+  );
+
+  const updateComponentRow = (index: number, updates: Partial<KitComponent>) => {
+    setComponentRows(componentRows.map((row, i) => i === index ? { ...row, ...updates } : row));
+  };
 
   const onSubmit = (data: ProductFormData) => {
     // Validate SKU uniqueness
@@ -74,12 +150,61 @@ function Products() {
       return;
     }
 
+    // Serials are captured on receipt, so serialized stock has to come in through inbound workflows
+    if (!editingProduct && data.serialized && Number(data.quantity) > 0) {
+      setAlert('Serialized products must start at zero and be received through an inbound workflow', 'error');
+      return;
+    }
+    // Stock already on hand has no serial records, so tracking can only start from empty
+    if (editingProduct && data.serialized && !editingProduct.serialized && Number(editingProduct.quantity) > 0) {
+      setAlert('Products with stock on hand cannot be switched to serialized', 'error');
+      return;
+    }
+
+    if (data.reorderPoint !== undefined && (isNaN(data.reorderPoint) || data.reorderPoint < 0)) {
+      setAlert('Reorder point cannot be negative', 'error');
+      return;
+    }
+    if (data.reorderQuantity !== undefined && (isNaN(data.reorderQuantity) || data.reorderQuantity <= 0)) {
+      setAlert('Reorder quantity must be greater than 0', 'error');
+      return;
+    }
+
+    const uoms = uomRows.map(row => ({
+      level: row.level,
+      unitsPerLevel: Number(row.unitsPerLevel),
+      length: row.length ? Number(row.length) : undefined,
+      width: row.width ? Number(row.width) : undefined,
+      height: row.height ? Number(row.height) : undefined,
+      weight: row.weight ? Number(row.weight) : undefined
+    }));
+    const uomError = validateUoms(uoms);
+    if (uomError) {
+      setAlert(uomError, 'error');
+      return;
+    }
+
+    const components = componentRows.map(row => ({ productId: row.productId, quantity: Number(row.quantity) }));
+    const componentError = validateKitComponents(editingProduct?.id, components, products);
+    if (componentError) {
+      setAlert(componentError, 'error');
+      return;
+    }
+    if (components.length > 0 && data.serialized) {
+      setAlert('Kits cannot be serialized', 'error');
+      return;
+    }
+
     if (editingProduct) {
+      // Quantity changes go through stock adjustments, never the edit form
       const updatedProduct: Product = {
         ...editingProduct,
         ...data,
+        uoms,
+        components: components.length > 0 ? components : undefined,
+        quantity: editingProduct.quantity,
         unitCbm: Number(data.unitCbm),
-        cbm: Number(data.unitCbm) * data.quantity,
+        cbm: Number(data.unitCbm) * editingProduct.quantity,
         updatedAt: new Date()
       };
       updateProduct(updatedProduct);
@@ -88,6 +213,8 @@ function Products() {
       const newProduct: Product = {
         id: crypto.randomUUID(),
         ...data,
+        uoms,
+        components: components.length > 0 ? components : undefined,
         unitCbm: Number(data.unitCbm),
         cbm: Number(data.unitCbm) * data.quantity,
         unitOfMeasurement: 'units',
@@ -118,6 +245,11 @@ function Products() {
         setValue(key as keyof ProductFormData, product[key as keyof Product]);
       }
     });
+    // Products saved before units were recorded are in inches and pounds
+    setValue('dimensionUnit', product.dimensionUnit || 'in');
+    setValue('weightUnit', product.weightUnit || 'lb');
+    setUomRows(product.uoms || []);
+    setComponentRows(product.components || []);
     setIsModalOpen(true);
   };
 
@@ -131,10 +263,21 @@ function Products() {
     setAlert('Product deleted successfully', 'success');
   };
 
+  const addUomRow = () => {
+    const level = uomLevels.find(l => l !== 'each' && !uomRows.some(row => row.level === l));
+    if (level) setUomRows([...uomRows, { level, unitsPerLevel: 0 }]);
+  };
+
+  const updateUomRow = (index: number, updates: Partial<ProductUom>) => {
+    setUomRows(uomRows.map((row, i) => i === index ? { ...row, ...updates } : row));
+  };
+
   const closeModal = () => {
     setIsModalOpen(false);
     setEditingProduct(null);
     reset();
+    setUomRows([]);
+    setComponentRows([]);
   };
 
   const toggleNameExpansion = (productId: string) => {
@@ -157,35 +300,84 @@ function Products() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Inventory</h1>
-        {canEdit && (
-          <div className="flex space-x-3">
-            <button
-              onClick={() => setIsModalOpen(true)}
-              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600"
-            >
-              <Plus className="h-5 w-5 mr-2" />
-              Add Product
-            </button>
-            <button
-              onClick={() => setIsBulkImportModalOpen(true)}
-              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600"
-            >
-              <Upload className="h-5 w-5 mr-2" />
-              Bulk Import
-            </button>
-          </div>
-        )}
+        <div className="flex space-x-3">
+          <button
+            onClick={() => setIsSerialLookupOpen(true)}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md shadow-sm text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            <ScanLine className="h-5 w-5 mr-2" />
+            Serial Lookup
+          </button>
+          {canEdit && (
+            <>
+              <button
+                onClick={() => setIsModalOpen(true)}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600"
+              >
+                <Plus className="h-5 w-5 mr-2" />
+                Add Product
+              </button>
+              <button
+                onClick={() => setIsBulkImportModalOpen(true)}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600"
+              >
+                <Upload className="h-5 w-5 mr-2" />
+                Bulk Import
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
-      <div className="relative">
-        <input
-          type="text"
-          placeholder="Search products by SKU, name, location, or vendor number..."
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-          className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
-        />
-        <Search className="absolute left-3 top-2.5 h-5 w-5 text-gray-400 dark:text-gray-500" />
+      <div className="flex items-center space-x-4">
+        <div className="relative flex-1">
+          <input
+            type="text"
+            placeholder="Search products by SKU, name, location, or vendor number..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
+          />
+          <Search className="absolute left-3 top-2.5 h-5 w-5 text-gray-400 dark:text-gray-500" />
+        </div>
+        <select
+          value={selectedAbcClass}
+          onChange={(e) => setSelectedAbcClass(e.target.value as typeof selectedAbcClass)}
+          className="block w-40 pl-3 pr-10 py-2 text-base border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md dark:bg-gray-700 dark:text-white"
+        >
+          <option value="all">All ABC Classes</option>
+          <option value="A">Class A</option>
+          <option value="B">Class B</option>
+          <option value="C">Class C</option>
+        </select>
+        <select
+          value={selectedXyzClass}
+          onChange={(e) => setSelectedXyzClass(e.target.value as typeof selectedXyzClass)}
+          className="block w-40 pl-3 pr-10 py-2 text-base border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md dark:bg-gray-700 dark:text-white"
+        >
+          <option value="all">All XYZ Classes</option>
+          <option value="X">Class X</option>
+          <option value="Y">Class Y</option>
+          <option value="Z">Class Z</option>
+        </select>
+        <select
+          value={abcOptions.basis}
+          onChange={(e) => setAbcOptions({ basis: e.target.value as AbcBasis })}
+          className="block w-40 pl-3 pr-10 py-2 text-base border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md dark:bg-gray-700 dark:text-white"
+        >
+          {Object.entries(abcBasisLabels).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <select
+          value={abcOptions.windowDays}
+          onChange={(e) => setAbcOptions({ windowDays: Number(e.target.value) })}
+          className="block w-40 pl-3 pr-10 py-2 text-base border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md dark:bg-gray-700 dark:text-white"
+        >
+          {abcWindowOptions.map(days => (
+            <option key={days} value={days}>Last {days} days</option>
+          ))}
+        </select>
       </div>
 
       <Modal
@@ -212,29 +404,68 @@ function Products() {
             />
           </div>
           <div className="grid grid-cols-2 gap-4">
+            {editingProduct ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Quantity</label>
+                <p className="mt-2 text-sm text-gray-900 dark:text-white">{editingProduct.quantity}</p>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Use "Adjust Stock" to change</p>
+              </div>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Initial Quantity</label>
+                <input
+                  type="number"
+                  {...register('quantity', { required: true, min: 0 })}
+                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                />
+              </div>
+            )}
             <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Quantity</label>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Min Stock Level</label>
               <input
                 type="number"
-                {...register('quantity', { required: true, min: 0 })}
+                {...register('minStockLevel', { required: true, min: 0 })}
                 className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
               />
             </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
             <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Min Stock Level</label>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Reorder Point</label>
               <input
                 type="number"
-                {...register('minStockLevel', { required: true, min: 0 })}
+                min="0"
+                {...register('reorderPoint', { setValueAs: value => value === '' || value === undefined ? undefined : Number(value) })}
+                placeholder="Min Stock Level"
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Reorder Quantity</label>
+              <input
+                type="number"
+                min="1"
+                {...register('reorderQuantity', { setValueAs: value => value === '' || value === undefined ? undefined : Number(value) })}
+                placeholder="Reorder Point"
                 className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
               />
             </div>
           </div>
           <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Location</label>
-            <input
-              type="text"
-              {...register('location', { required: true })}
-              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Default Location</label>
+            <Controller
+              name="location"
+              control={control}
+              rules={{ required: true }}
+              render={({ field }) => (
+                <SearchableSelect
+                  options={locationOptions}
+                  value={field.value}
+                  onChange={field.onChange}
+                  placeholder="Search and select a location..."
+                  className="mt-1"
+                />
+              )}
             />
           </div>
           <div>
@@ -245,8 +476,32 @@ function Products() {
               className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
             />
           </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Dimension Unit</label>
+              <select
+                {...register('dimensionUnit')}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              >
+                {Object.entries(dimensionUnitLabels).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Weight Unit</label>
+              <select
+                {...register('weightUnit')}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              >
+                {Object.entries(weightUnitLabels).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
           <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Weight (lbs)</label>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Weight ({weightUnit})</label>
             <input
               type="number"
               step="0.01"
@@ -256,7 +511,7 @@ function Products() {
           </div>
           <div className="grid grid-cols-3 gap-4">
             <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Length (in)</label>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Length ({dimensionUnit})</label>
               <input
                 type="number"
                 step="0.1"
@@ -265,7 +520,7 @@ function Products() {
               />
             </div>
             <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Width (in)</label>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Width ({dimensionUnit})</label>
               <input
                 type="number"
                 step="0.1"
@@ -274,7 +529,7 @@ function Products() {
               />
             </div>
             <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Height (in)</label>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Height ({dimensionUnit})</label>
               <input
                 type="number"
                 step="0.1"
@@ -293,8 +548,148 @@ function Products() {
             />
             <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
               Total CBM: <span className="font-medium">{totalCBM.toFixed(3)}</span> m³
+              {dimensionsCbm > 0 && <> | From dimensions: <span className="font-medium">{dimensionsCbm}</span> m³</>}
             </p>
           </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Pack Levels</label>
+              <button
+                type="button"
+                onClick={addUomRow}
+                disabled={uomRows.length >= uomLevels.length - 1}
+                className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 disabled:opacity-50"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Level
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Stock is held in eaches. Give each level the number of eaches it contains and, optionally, its
+              size ({dimensionUnit}) and weight ({weightUnit}).
+            </p>
+            {uomRows.map((row, index) => (
+              <div key={index} className="p-2 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-2">
+                <div className="flex items-start space-x-2">
+                  <select
+                    value={row.level}
+                    onChange={(e) => updateUomRow(index, { level: e.target.value as UomLevel })}
+                    className="block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                  >
+                    {uomLevels.filter(level => level !== 'each').map(level => (
+                      <option key={level} value={level}>{uomLevelLabels[level]}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min="2"
+                    placeholder="Eaches"
+                    value={row.unitsPerLevel || ''}
+                    onChange={(e) => updateUomRow(index, { unitsPerLevel: Number(e.target.value) })}
+                    className="block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setUomRows(uomRows.filter((_, i) => i !== index))}
+                    className="p-2 text-red-600 dark:text-red-400 hover:text-red-900 dark:hover:text-red-300"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="grid grid-cols-4 gap-2">
+                  <input
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    placeholder="L"
+                    value={row.length ?? ''}
+                    onChange={(e) => updateUomRow(index, { length: e.target.value ? Number(e.target.value) : undefined })}
+                    className="block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                  />
+                  <input
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    placeholder="W"
+                    value={row.width ?? ''}
+                    onChange={(e) => updateUomRow(index, { width: e.target.value ? Number(e.target.value) : undefined })}
+                    className="block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                  />
+                  <input
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    placeholder="H"
+                    value={row.height ?? ''}
+                    onChange={(e) => updateUomRow(index, { height: e.target.value ? Number(e.target.value) : undefined })}
+                    className="block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                  />
+                  <input
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    placeholder="Weight"
+                    value={row.weight ?? ''}
+                    onChange={(e) => updateUomRow(index, { weight: e.target.value ? Number(e.target.value) : undefined })}
+                    className="block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Kit Components</label>
+              <button
+                type="button"
+                onClick={() => setComponentRows([...componentRows, { productId: '', quantity: 1 }])}
+                className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Component
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Add components to make this product a kit that is assembled from other products.
+            </p>
+            {componentRows.map((row, index) => (
+              <div key={index} className="flex items-start space-x-2 p-2 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <div className="flex-1">
+                  <SearchableSelect
+                    options={componentOptions}
+                    value={row.productId}
+                    onChange={(value) => updateComponentRow(index, { productId: value })}
+                    placeholder="Search and select a component..."
+                  />
+                </div>
+                <input
+                  type="number"
+                  min="1"
+                  value={row.quantity}
+                  onChange={(e) => updateComponentRow(index, { quantity: Number(e.target.value) })}
+                  className="block w-24 rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                />
+                <button
+                  type="button"
+                  onClick={() => setComponentRows(componentRows.filter((_, i) => i !== index))}
+                  className="p-2 text-red-600 dark:text-red-400 hover:text-red-900 dark:hover:text-red-300"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              id="serialized"
+              {...register('serialized')}
+              className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-indigo-600 focus:ring-indigo-500"
+            />
+            <label htmlFor="serialized" className="ml-2 block text-sm text-gray-700 dark:text-gray-300">
+              Serialized (capture a serial number for every unit received and shipped)
+            </label>
+          </div>
           <div className="flex justify-end space-x-3 pt-4">
             <button
               type="button"
@@ -337,6 +732,30 @@ function Products() {
         product={selectedProduct}
       />
 
+      <SerialLookupModal
+        isOpen={isSerialLookupOpen}
+        onClose={() => setIsSerialLookupOpen(false)}
+        allowedVendorNumbers={allowedVendorNumbers}
+      />
+
+      <AdjustStockModal
+        isOpen={!!adjustingProduct}
+        onClose={() => setAdjustingProduct(null)}
+        product={adjustingProduct}
+      />
+
+      <StockStatusModal
+        isOpen={!!statusProduct}
+        onClose={() => setStatusProduct(null)}
+        product={statusProduct}
+      />
+
+      <KitWorkflowModal
+        isOpen={!!kitProduct}
+        onClose={() => setKitProduct(null)}
+        product={kitProduct}
+      />
+
       <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg">
         <div className="px-4 py-5 sm:p-6">
           <div className="overflow-x-auto">
@@ -350,7 +769,16 @@ function Products() {
                     Name
                   </th>
                   <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                    Quantity
+                    On Hand
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Reserved
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Available
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Held
                   </th>
                   <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                     Location
@@ -358,6 +786,15 @@ function Products() {
                   <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                     Vendor Number
                   </th>
+                  <th
+                    className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                    title={`${abcBasisLabels[abcOptions.basis]}, last ${abcOptions.windowDays} days`}
+                  >
+                    Class
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Size
+                  </th>
                   <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                     Actions
                   </th>
@@ -366,86 +803,187 @@ function Products() {
               <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
                 {filteredProducts.length === 0 ? (
                   <tr>
-                    <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+                    <td colSpan={11} className="px-6 py-4 text-center text-sm text-gray-500 dark:text-gray-400">
                       No products found. {canEdit && 'Click "Add Product" to create one.'}
                     </td>
                   </tr>
                 ) : (
-                  filteredProducts.map((product) => (
-                    <tr key={product.id}>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
-                        {product.sku}
-                      </td>
-                      <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400">
-                        <button
-                          onClick={() => toggleNameExpansion(product.id)}
-                          className="text-left hover:text-gray-900 dark:hover:text-white"
-                        >
-                          {truncateName(product.name, product.id)}
-                        </button>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                        {product.quantity}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                        {product.location}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                        {product.vendorNumber}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                        <div className="relative inline-block text-left">
+                  filteredProducts.map((product) => {
+                    const summary = getStockSummary(product, transactions);
+                    const analysis = abcAnalysis.get(product.id);
+                    return (
+                      <tr key={product.id}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                          {product.sku}
+                          {isKit(product) && (
+                            <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-200">
+                              Kit
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400">
                           <button
-                            onClick={() => setOpenActionMenu(openActionMenu === product.id ? null : product.id)}
-                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400"
+                            onClick={() => toggleNameExpansion(product.id)}
+                            className="text-left hover:text-gray-900 dark:hover:text-white"
                           >
-                            <MoreVertical className="h-5 w-5" />
+                            {truncateName(product.name, product.id)}
                           </button>
-
-                          {openActionMenu === product.id && (
-                            <div className="origin-top-right absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white dark:bg-gray-700 ring-1 ring-black ring-opacity-5 z-10">
-                              <div className="py-1" role="menu">
-                                <button
-                                  onClick={() => {
-                                    openLogChanges(product);
-                                    setOpenActionMenu(null);
-                                  }}
-                                  className="flex items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
-                                >
-                                  <History className="h-4 w-4 mr-2" />
-                                  View Log Changes
-                                </button>
-                                {canEdit && (
-                                  <>
-                                    <button
-                                      onClick={() => {
-                                        openEditModal(product);
-                                        setOpenActionMenu(null);
-                                      }}
-                                      className="flex items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
-                                    >
-                                      <Pencil className="h-4 w-4 mr-2" />
-                                      Edit
-                                    </button>
-                                    <button
-                                      onClick={() => {
-                                        handleDeleteProduct(product.id);
-                                        setOpenActionMenu(null);
-                                      }}
-                                      className="flex items-center px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
-                                    >
-                                      <Trash2 className="h-4 w-4 mr-2" />
-                                      Delete
-                                    </button>
-                                  </>
-                                )}
-                              </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                          {summary.onHand}
+                          {product.uoms?.length > 0 && (
+                            <div className="text-xs">{formatMixedQuantity(product, summary.onHand)}</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                          {summary.reserved}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                          {summary.available}
+                          {product.uoms?.length > 0 && (
+                            <div className="text-xs font-normal text-gray-500 dark:text-gray-400">{formatMixedQuantity(product, summary.available)}</div>
+                          )}
+                          {isKit(product) && (
+                            <div className="text-xs font-normal text-teal-700 dark:text-teal-300">
+                              Can build: {getAvailableToBuild(product, products, transactions)}
                             </div>
                           )}
-                        </div>
-                      </td>
-                    </tr>
-                  ))
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                          {summary.held === 0 ? (
+                            '-'
+                          ) : (
+                            <div className="flex flex-wrap gap-1">
+                              {heldStockStatuses
+                                .filter(status => getHeldQuantity(product, status) > 0)
+                                .map(status => (
+                                  <span
+                                    key={status}
+                                    className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${stockStatusColors[status as StockStatus]}`}
+                                  >
+                                    {stockStatusLabels[status as StockStatus]}: {getHeldQuantity(product, status)}
+                                  </span>
+                                ))}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                          {getProductStock(stock, product.id).length === 0 ? (
+                            product.location
+                          ) : (
+                            <ul className="space-y-0.5">
+                              {getProductStock(stock, product.id).map(entry => (
+                                <li key={entry.location}>
+                                  <span className="font-medium text-gray-700 dark:text-gray-300">{entry.location}</span>
+                                  {': '}{entry.quantity}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                          {product.vendorNumber}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                          {analysis && (
+                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${abcClassColors[analysis.abcClass]}`}>
+                              {analysis.abcClass}{analysis.xyzClass}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                          <div>{formatDimensions(product, unitSystem)}</div>
+                          <div className="text-xs">
+                            {formatWeight(getProductWeight(product), unitSystem)}
+                            {' | Dim '}{calculateDimWeight(product, unitSystem, dimWeightDivisors)} {unitSystemUnits[unitSystem].weight}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                          <div className="relative inline-block text-left">
+                            <button
+                              onClick={() => setOpenActionMenu(openActionMenu === product.id ? null : product.id)}
+                              className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400"
+                            >
+                              <MoreVertical className="h-5 w-5" />
+                            </button>
+
+                            {openActionMenu === product.id && (
+                              <div className="origin-top-right absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white dark:bg-gray-700 ring-1 ring-black ring-opacity-5 z-10">
+                                <div className="py-1" role="menu">
+                                  <button
+                                    onClick={() => {
+                                      openLogChanges(product);
+                                      setOpenActionMenu(null);
+                                    }}
+                                    className="flex items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                  >
+                                    <History className="h-4 w-4 mr-2" />
+                                    View Log Changes
+                                  </button>
+                                  {canEdit && (
+                                    <>
+                                      <button
+                                        onClick={() => {
+                                          openEditModal(product);
+                                          setOpenActionMenu(null);
+                                        }}
+                                        className="flex items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                      >
+                                        <Pencil className="h-4 w-4 mr-2" />
+                                        Edit
+                                      </button>
+                                      <button
+                                        onClick={() => {
+                                          setAdjustingProduct(product);
+                                          setOpenActionMenu(null);
+                                        }}
+                                        className="flex items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                      >
+                                        <SlidersHorizontal className="h-4 w-4 mr-2" />
+                                        Adjust Stock
+                                      </button>
+                                      <button
+                                        onClick={() => {
+                                          setStatusProduct(product);
+                                          setOpenActionMenu(null);
+                                        }}
+                                        className="flex items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                      >
+                                        <ShieldAlert className="h-4 w-4 mr-2" />
+                                        Change Status
+                                      </button>
+                                      {isKit(product) && (
+                                        <button
+                                          onClick={() => {
+                                            setKitProduct(product);
+                                            setOpenActionMenu(null);
+                                          }}
+                                          className="flex items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                        >
+                                          <Layers className="h-4 w-4 mr-2" />
+                                          Assemble / Disassemble
+                                        </button>
+                                      )}
+                                      <button
+                                        onClick={() => {
+                                          handleDeleteProduct(product.id);
+                                          setOpenActionMenu(null);
+                                        }}
+                                        className="flex items-center px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                      >
+                                        <Trash2 className="h-4 w-4 mr-2" />
+                                        Delete
+                                      </button>
+                                    </>
+                                  )}
+                                </div>
+                              </div>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })
                 )}
               </tbody>
             </table>
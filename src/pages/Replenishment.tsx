@@ -0,0 +1,187 @@
+import React, { useState, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search, ShoppingCart } from 'lucide-react';
+import { useInventoryStore, useAlertStore } from '../store';
+import { useAuthStore } from '../store/auth';
+import { formatMixedQuantity } from '../utils/uom';
+import { getReorderQuantity, getReplenishmentSuggestions, InboundRequestLine, ReplenishmentSuggestion } from '../utils/replenishment';
+
+function Replenishment() {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  const { products, transactions } = useInventoryStore();
+  const { setAlert } = useAlertStore();
+  const { user } = useAuthStore();
+  const navigate = useNavigate();
+
+  const isVendor = user?.role === 'vendor';
+
+  const suggestions = useMemo(() => {
+    const visibleProducts = isVendor ? products.filter(p => p.vendorNumber === user?.vendorNumber) : products;
+    return getReplenishmentSuggestions(visibleProducts, transactions)
+      .filter(({ product }) =>
+        `${product.sku} ${product.name} ${product.vendorNumber}`.toLowerCase().includes(searchTerm.toLowerCase())
+      );
+  }, [products, transactions, isVendor, user?.vendorNumber, searchTerm]);
+
+  // An inbound request covers a single vendor, so suggestions are grouped the same way
+  const vendorGroups = useMemo(() => {
+    const groups = new Map<string, ReplenishmentSuggestion[]>();
+    suggestions.forEach(suggestion => {
+      const vendorNumber = suggestion.product.vendorNumber;
+      groups.set(vendorNumber, [...(groups.get(vendorNumber) || []), suggestion]);
+    });
+    return Array.from(groups.entries());
+  }, [suggestions]);
+
+  const getQuantity = (suggestion: ReplenishmentSuggestion) =>
+    quantities[suggestion.product.id] !== undefined
+      ? Number(quantities[suggestion.product.id])
+      : suggestion.suggestedQuantity;
+
+  const toggleExcluded = (productId: string) => {
+    const updated = new Set(excluded);
+    if (updated.has(productId)) {
+      updated.delete(productId);
+    } else {
+      updated.add(productId);
+    }
+    setExcluded(updated);
+  };
+
+  const createInboundRequest = (vendorSuggestions: ReplenishmentSuggestion[]) => {
+    const inboundLines: InboundRequestLine[] = vendorSuggestions
+      .filter(suggestion => !excluded.has(suggestion.product.id))
+      .map(suggestion => ({ productId: suggestion.product.id, quantity: getQuantity(suggestion) }));
+
+    if (inboundLines.length === 0) {
+      setAlert('Select at least one SKU to reorder', 'error');
+      return;
+    }
+    if (inboundLines.some(line => !Number.isInteger(line.quantity) || line.quantity <= 0)) {
+      setAlert('Reorder quantities must be whole numbers greater than 0', 'error');
+      return;
+    }
+
+    navigate('/orders', { state: { inboundLines } });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Replenishment</h1>
+      </div>
+
+      <div className="relative">
+        <input
+          type="text"
+          placeholder="Search suggestions by SKU, name or vendor number..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
+        />
+        <Search className="absolute left-3 top-2.5 h-5 w-5 text-gray-400 dark:text-gray-500" />
+      </div>
+
+      {vendorGroups.length === 0 && (
+        <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg px-6 py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+          No SKUs are at or below their reorder point.
+        </div>
+      )}
+
+      {vendorGroups.map(([vendorNumber, vendorSuggestions]) => (
+        <div key={vendorNumber} className="bg-white dark:bg-gray-800 shadow-sm rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-medium text-gray-900 dark:text-white">Vendor {vendorNumber}</h2>
+              <button
+                onClick={() => createInboundRequest(vendorSuggestions)}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 dark:bg-green-500 dark:hover:bg-green-600"
+              >
+                <ShoppingCart className="h-5 w-5 mr-2" />
+                Create Inbound Request
+              </button>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead>
+                  <tr>
+                    <th className="pl-6 py-3 bg-gray-50 dark:bg-gray-700" />
+                    <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Product
+                    </th>
+                    <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Available
+                    </th>
+                    <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      On Order
+                    </th>
+                    <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Backordered
+                    </th>
+                    <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Reorder Point
+                    </th>
+                    <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Order Quantity
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                  {vendorSuggestions.map(suggestion => {
+                    const { product } = suggestion;
+                    return (
+                      <tr key={product.id} className={excluded.has(product.id) ? 'opacity-50' : ''}>
+                        <td className="pl-6 py-4">
+                          <input
+                            type="checkbox"
+                            checked={!excluded.has(product.id)}
+                            onChange={() => toggleExcluded(product.id)}
+                            className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                          />
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                          <div className="font-medium text-gray-900 dark:text-white">{product.sku}</div>
+                          <div className="text-xs">{product.name}</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-500 dark:text-gray-400">
+                          {suggestion.available}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-500 dark:text-gray-400">
+                          {suggestion.onOrder}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-500 dark:text-gray-400">
+                          {suggestion.backordered}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-500 dark:text-gray-400">
+                          {suggestion.reorderPoint}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                          <input
+                            type="number"
+                            min="1"
+                            value={quantities[product.id] ?? suggestion.suggestedQuantity}
+                            onChange={(e) => setQuantities({ ...quantities, [product.id]: e.target.value })}
+                            disabled={excluded.has(product.id)}
+                            className="block w-24 rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                          />
+                          <div className="mt-1 text-xs">
+                            {formatMixedQuantity(product, getQuantity(suggestion))} | lots of {getReorderQuantity(product)}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default Replenishment;
@@ -1,19 +1,47 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { FileSpreadsheet, Download } from 'lucide-react';
 import { useInventoryStore } from '../store';
-import { generateStorageReport, generateInventoryReport, generateTransactionReport } from '../utils/reports';
+import { useCycleCountStore } from '../store/cycleCounts';
+import { useDiscrepancyStore } from '../store/discrepancies';
+import { usePackingStore } from '../store/packing';
+import { useRmaStore } from '../store/rmas';
+import { useAuthStore } from '../store/auth';
+import { useUnitStore } from '../store/units';
+import { useAbcStore } from '../store/abc';
+import { AbcBasis, ForecastInterval, ForecastModel, UnitSystem } from '../types';
+import { generateStorageReport, generateInventoryReport, generateTransactionReport, generateCycleCountReport, generateExpiryReport, generateDiscrepancyReport, generateRmaReport, generateForecastReport, generateAbcReport } from '../utils/reports';
 import DateRangeSelector from '../components/DateRangeSelector';
+import { defaultForecastOptions, forecastIntervalLabels, forecastModelLabels, getForecastOptions } from '../utils/forecasting';
+import { abcBasisLabels, abcWindowOptions } from '../utils/abc';
 
 function Reports() {
-  const { products, transactions } = useInventoryStore();
+  const { products, transactions, lots } = useInventoryStore();
+  const { cycleCounts } = useCycleCountStore();
+  const { discrepancies } = useDiscrepancyStore();
+  const { packRecords } = usePackingStore();
+  const { rmas } = useRmaStore();
+  const { user } = useAuthStore();
+  const { dimWeightDivisors } = useUnitStore();
+  const { abcOptions, setAbcOptions } = useAbcStore();
+  const unitSystem: UnitSystem = user?.unitSystem || 'imperial';
   const [startDate, setStartDate] = useState(
     new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
   );
   const [endDate, setEndDate] = useState(
     new Date().toISOString().split('T')[0]
   );
+  const [expiryDays, setExpiryDays] = useState(30);
+  const [discrepancyVendor, setDiscrepancyVendor] = useState('');
+  const [rmaVendor, setRmaVendor] = useState('');
+  const [forecastModel, setForecastModel] = useState<ForecastModel>(defaultForecastOptions.model);
+  const [forecastInterval, setForecastInterval] = useState<ForecastInterval>(defaultForecastOptions.interval);
 
-  const downloadReport = (type: 'storage' | 'inventory' | 'transaction') => {
+  const vendorNumbers = useMemo(() =>
+    Array.from(new Set(products.map(p => p.vendorNumber))).filter(Boolean).sort(),
+    [products]
+  );
+
+  const downloadReport = (type: 'storage' | 'inventory' | 'transaction' | 'cycleCount' | 'expiry' | 'discrepancy' | 'rma' | 'forecast' | 'abc') => {
     let csvContent = '';
     let filename = '';
 
@@ -23,13 +51,37 @@ function Reports() {
         filename = `storage-report-${startDate}-to-${endDate}.csv`;
         break;
       case 'inventory':
-        csvContent = generateInventoryReport(products, startDate, endDate);
+        csvContent = generateInventoryReport(products, startDate, endDate, unitSystem, dimWeightDivisors);
         filename = `inventory-report-${startDate}-to-${endDate}.csv`;
         break;
       case 'transaction':
-        csvContent = generateTransactionReport(transactions, products, startDate, endDate);
+        csvContent = generateTransactionReport(transactions, products, startDate, endDate, packRecords, unitSystem);
         filename = `workflow-history-${startDate}-to-${endDate}.csv`;
         break;
+      case 'cycleCount':
+        csvContent = generateCycleCountReport(cycleCounts, products, startDate, endDate);
+        filename = `cycle-count-history-${startDate}-to-${endDate}.csv`;
+        break;
+      case 'expiry':
+        csvContent = generateExpiryReport(lots, products, expiryDays);
+        filename = `expiring-stock-${expiryDays}-days.csv`;
+        break;
+      case 'discrepancy':
+        csvContent = generateDiscrepancyReport(discrepancies, products, startDate, endDate, discrepancyVendor || undefined);
+        filename = `receiving-discrepancies-${discrepancyVendor || 'all-vendors'}-${startDate}-to-${endDate}.csv`;
+        break;
+      case 'rma':
+        csvContent = generateRmaReport(rmas, products, startDate, endDate, rmaVendor || undefined);
+        filename = `returns-${rmaVendor || 'all-vendors'}-${startDate}-to-${endDate}.csv`;
+        break;
+      case 'forecast':
+        csvContent = generateForecastReport(products, transactions, getForecastOptions(forecastModel, forecastInterval));
+        filename = `demand-forecast-${forecastInterval}-${forecastModel}.csv`;
+        break;
+      case 'abc':
+        csvContent = generateAbcReport(products, transactions, abcOptions);
+        filename = `abc-analysis-${abcOptions.basis}-${abcOptions.windowDays}-days.csv`;
+        break;
     }
 
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
@@ -160,6 +212,278 @@ function Reports() {
             </div>
           </div>
         </div>
+
+        {/* Cycle Count History Card */}
+        <div className="bg-white dark:bg-gray-800 overflow-hidden shadow rounded-lg">
+          <div className="p-5">
+            <div className="flex items-center">
+              <div className="flex-shrink-0">
+                <FileSpreadsheet className="h-6 w-6 text-gray-400 dark:text-gray-500" />
+              </div>
+              <div className="ml-5 w-0 flex-1">
+                <dl>
+                  <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">
+                    Cycle Count History
+                  </dt>
+                  <dd>
+                    <div className="text-lg font-medium text-gray-900 dark:text-white">
+                      Counts and variances
+                    </div>
+                  </dd>
+                </dl>
+              </div>
+            </div>
+          </div>
+          <div className="bg-gray-50 dark:bg-gray-700 px-5 py-3">
+            <div className="text-sm">
+              <button
+                onClick={() => downloadReport('cycleCount')}
+                className="inline-flex items-center font-medium text-indigo-600 dark:text-indigo-400 hover:text-indigo-500 dark:hover:text-indigo-300"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Download Report
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Expiring Stock Card */}
+        <div className="bg-white dark:bg-gray-800 overflow-hidden shadow rounded-lg">
+          <div className="p-5">
+            <div className="flex items-center">
+              <div className="flex-shrink-0">
+                <FileSpreadsheet className="h-6 w-6 text-gray-400 dark:text-gray-500" />
+              </div>
+              <div className="ml-5 w-0 flex-1">
+                <dl>
+                  <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">
+                    Expiring Stock
+                  </dt>
+                  <dd>
+                    <div className="flex items-center text-lg font-medium text-gray-900 dark:text-white">
+                      Lots expiring within
+                      <input
+                        type="number"
+                        min={0}
+                        value={expiryDays}
+                        onChange={(e) => setExpiryDays(Number(e.target.value))}
+                        className="mx-2 w-16 rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                      />
+                      days
+                    </div>
+                  </dd>
+                </dl>
+              </div>
+            </div>
+          </div>
+          <div className="bg-gray-50 dark:bg-gray-700 px-5 py-3">
+            <div className="text-sm">
+              <button
+                onClick={() => downloadReport('expiry')}
+                className="inline-flex items-center font-medium text-indigo-600 dark:text-indigo-400 hover:text-indigo-500 dark:hover:text-indigo-300"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Download Report
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Receiving Discrepancies Card */}
+        <div className="bg-white dark:bg-gray-800 overflow-hidden shadow rounded-lg">
+          <div className="p-5">
+            <div className="flex items-center">
+              <div className="flex-shrink-0">
+                <FileSpreadsheet className="h-6 w-6 text-gray-400 dark:text-gray-500" />
+              </div>
+              <div className="ml-5 w-0 flex-1">
+                <dl>
+                  <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">
+                    Receiving Discrepancies
+                  </dt>
+                  <dd>
+                    <div className="text-lg font-medium text-gray-900 dark:text-white">
+                      Short, over and damaged receipts
+                    </div>
+                    <select
+                      value={discrepancyVendor}
+                      onChange={(e) => setDiscrepancyVendor(e.target.value)}
+                      className="mt-2 block w-full pl-3 pr-10 py-1 text-sm border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md dark:bg-gray-700 dark:text-white"
+                    >
+                      <option value="">All Vendors</option>
+                      {vendorNumbers.map(vendorNumber => (
+                        <option key={vendorNumber} value={vendorNumber}>{vendorNumber}</option>
+                      ))}
+                    </select>
+                  </dd>
+                </dl>
+              </div>
+            </div>
+          </div>
+          <div className="bg-gray-50 dark:bg-gray-700 px-5 py-3">
+            <div className="text-sm">
+              <button
+                onClick={() => downloadReport('discrepancy')}
+                className="inline-flex items-center font-medium text-indigo-600 dark:text-indigo-400 hover:text-indigo-500 dark:hover:text-indigo-300"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Download Report
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Returns Card */}
+        <div className="bg-white dark:bg-gray-800 overflow-hidden shadow rounded-lg">
+          <div className="p-5">
+            <div className="flex items-center">
+              <div className="flex-shrink-0">
+                <FileSpreadsheet className="h-6 w-6 text-gray-400 dark:text-gray-500" />
+              </div>
+              <div className="ml-5 w-0 flex-1">
+                <dl>
+                  <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">
+                    Returns (RMA)
+                  </dt>
+                  <dd>
+                    <div className="text-lg font-medium text-gray-900 dark:text-white">
+                      Returned units and dispositions
+                    </div>
+                    <select
+                      value={rmaVendor}
+                      onChange={(e) => setRmaVendor(e.target.value)}
+                      className="mt-2 block w-full pl-3 pr-10 py-1 text-sm border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md dark:bg-gray-700 dark:text-white"
+                    >
+                      <option value="">All Vendors</option>
+                      {vendorNumbers.map(vendorNumber => (
+                        <option key={vendorNumber} value={vendorNumber}>{vendorNumber}</option>
+                      ))}
+                    </select>
+                  </dd>
+                </dl>
+              </div>
+            </div>
+          </div>
+          <div className="bg-gray-50 dark:bg-gray-700 px-5 py-3">
+            <div className="text-sm">
+              <button
+                onClick={() => downloadReport('rma')}
+                className="inline-flex items-center font-medium text-indigo-600 dark:text-indigo-400 hover:text-indigo-500 dark:hover:text-indigo-300"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Download Report
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Demand Forecast Card */}
+        <div className="bg-white dark:bg-gray-800 overflow-hidden shadow rounded-lg">
+          <div className="p-5">
+            <div className="flex items-center">
+              <div className="flex-shrink-0">
+                <FileSpreadsheet className="h-6 w-6 text-gray-400 dark:text-gray-500" />
+              </div>
+              <div className="ml-5 w-0 flex-1">
+                <dl>
+                  <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">
+                    Demand Forecast
+                  </dt>
+                  <dd>
+                    <div className="text-lg font-medium text-gray-900 dark:text-white">
+                      Days of cover and stock-out dates
+                    </div>
+                    <div className="mt-2 grid grid-cols-2 gap-2">
+                      <select
+                        value={forecastModel}
+                        onChange={(e) => setForecastModel(e.target.value as ForecastModel)}
+                        className="block w-full pl-3 pr-10 py-1 text-sm border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md dark:bg-gray-700 dark:text-white"
+                      >
+                        {Object.entries(forecastModelLabels).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={forecastInterval}
+                        onChange={(e) => setForecastInterval(e.target.value as ForecastInterval)}
+                        className="block w-full pl-3 pr-10 py-1 text-sm border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md dark:bg-gray-700 dark:text-white"
+                      >
+                        {Object.entries(forecastIntervalLabels).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </dd>
+                </dl>
+              </div>
+            </div>
+          </div>
+          <div className="bg-gray-50 dark:bg-gray-700 px-5 py-3">
+            <div className="text-sm">
+              <button
+                onClick={() => downloadReport('forecast')}
+                className="inline-flex items-center font-medium text-indigo-600 dark:text-indigo-400 hover:text-indigo-500 dark:hover:text-indigo-300"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Download Report
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* ABC Analysis Card */}
+        <div className="bg-white dark:bg-gray-800 overflow-hidden shadow rounded-lg">
+          <div className="p-5">
+            <div className="flex items-center">
+              <div className="flex-shrink-0">
+                <FileSpreadsheet className="h-6 w-6 text-gray-400 dark:text-gray-500" />
+              </div>
+              <div className="ml-5 w-0 flex-1">
+                <dl>
+                  <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">
+                    ABC Analysis
+                  </dt>
+                  <dd>
+                    <div className="text-lg font-medium text-gray-900 dark:text-white">
+                      Velocity and demand variability classes
+                    </div>
+                    <div className="mt-2 grid grid-cols-2 gap-2">
+                      <select
+                        value={abcOptions.basis}
+                        onChange={(e) => setAbcOptions({ basis: e.target.value as AbcBasis })}
+                        className="block w-full pl-3 pr-10 py-1 text-sm border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md dark:bg-gray-700 dark:text-white"
+                      >
+                        {Object.entries(abcBasisLabels).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={abcOptions.windowDays}
+                        onChange={(e) => setAbcOptions({ windowDays: Number(e.target.value) })}
+                        className="block w-full pl-3 pr-10 py-1 text-sm border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md dark:bg-gray-700 dark:text-white"
+                      >
+                        {abcWindowOptions.map(days => (
+                          <option key={days} value={days}>Last {days} days</option>
+                        ))}
+                      </select>
+                    </div>
+                  </dd>
+                </dl>
+              </div>
+            </div>
+          </div>
+          <div className="bg-gray-50 dark:bg-gray-700 px-5 py-3">
+            <div className="text-sm">
+              <button
+                onClick={() => downloadReport('abc')}
+                className="inline-flex items-center font-medium text-indigo-600 dark:text-indigo-400 hover:text-indigo-500 dark:hover:text-indigo-300"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Download Report
+              </button>
+            </div>
+          </div>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,549 @@
+import React, { useState, useMemo } from 'react';
+import { Search, MoreVertical, PackageOpen, ClipboardCheck, Plus, Trash2, XCircle } from 'lucide-react';
+import Modal from '../components/Modal';
+import { Rma, RmaDisposition, RmaDispositionEntry, RmaStatus, Transaction } from '../types';
+import { useInventoryStore, useAlertStore } from '../store';
+import { useAuthStore } from '../store/auth';
+import { useLocationStore } from '../store/locations';
+import { useRmaStore } from '../store/rmas';
+import {
+  buildDispositionWorkflows,
+  buildRmaReceipt,
+  putAwayDispositions,
+  rmaDispositionLabels,
+  rmaStatusColors,
+  rmaStatusLabels,
+  validateDispositions
+} from '../utils/rmas';
+import { getHeldQuantity, getLocationQuantity } from '../utils/stock';
+
+interface ReceiptInput {
+  quantity: string;
+  location: string;
+}
+
+function Returns() {
+  const [receivingRma, setReceivingRma] = useState<Rma | null>(null);
+  const [inspectingRma, setInspectingRma] = useState<Rma | null>(null);
+  const [receipts, setReceipts] = useState<Record<string, ReceiptInput>>({});
+  const [dispositions, setDispositions] = useState<Record<string, RmaDispositionEntry[]>>({});
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedStatus, setSelectedStatus] = useState<'all' | RmaStatus>('all');
+  const [openActionMenu, setOpenActionMenu] = useState<string | null>(null);
+
+  const { products, transactions, stock, postWorkflow } = useInventoryStore();
+  const { locations } = useLocationStore();
+  const { rmas, updateRma } = useRmaStore();
+  const { setAlert } = useAlertStore();
+  const { user } = useAuthStore();
+
+  const isVendor = user?.role === 'vendor';
+
+  const locationCodes = useMemo(() =>
+    Array.from(new Set([...locations.map(l => l.code), ...products.map(p => p.location)])).filter(Boolean).sort(),
+    [locations, products]
+  );
+
+  const filteredRmas = useMemo(() => {
+    return rmas
+      .filter(rma => !isVendor || rma.vendorNumber === user?.vendorNumber)
+      .filter(rma => {
+        const skus = rma.lines.map(line => products.find(p => p.id === line.productId)?.sku).join(' ');
+        const searchString = `${rma.rmaNumber} ${rma.outboundWorkflowNumber} ${rma.vendorNumber} ${skus}`.toLowerCase();
+        const statusMatch = selectedStatus === 'all' || rma.status === selectedStatus;
+        return searchString.includes(searchTerm.toLowerCase()) && statusMatch;
+      })
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }, [rmas, products, isVendor, user?.vendorNumber, searchTerm, selectedStatus]);
+
+  const openReceipt = (rma: Rma) => {
+    setReceipts(Object.fromEntries(rma.lines.map(line => [line.id, {
+      quantity: String(line.quantity),
+      location: products.find(p => p.id === line.productId)?.location || ''
+    }])));
+    setReceivingRma(rma);
+  };
+
+  // Returned units go into stock held in quarantine until they are inspected
+  const receiveRma = () => {
+    if (!receivingRma) return;
+
+    const lines = receivingRma.lines.map(line => ({
+      ...line,
+      receivedQuantity: Number(receipts[line.id]?.quantity) || 0,
+      location: receipts[line.id]?.location
+    }));
+
+    if (lines.some(line => !Number.isInteger(line.receivedQuantity) || line.receivedQuantity < 0)) {
+      setAlert('Received quantities must be whole numbers', 'error');
+      return;
+    }
+    if (lines.some(line => line.receivedQuantity > line.quantity)) {
+      setAlert('Cannot receive more units than the return authorises', 'error');
+      return;
+    }
+    if (lines.every(line => line.receivedQuantity === 0)) {
+      setAlert('Enter the quantity received for at least one line', 'error');
+      return;
+    }
+    if (lines.some(line => line.receivedQuantity > 0 && !line.location)) {
+      setAlert('Choose a location for every received line', 'error');
+      return;
+    }
+    // Returns carry no serial numbers, so serialized units can't be put back on the serial ledger
+    const serializedLine = lines.find(line =>
+      line.receivedQuantity > 0 && products.find(p => p.id === line.productId)?.serialized);
+    if (serializedLine) {
+      const product = products.find(p => p.id === serializedLine.productId);
+      setAlert(`${product?.sku} is serialized and cannot be received through an RMA`, 'error');
+      return;
+    }
+
+    const received: Rma = {
+      ...receivingRma,
+      lines,
+      status: 'received',
+      receivedBy: user?.name || 'Unknown',
+      receivedAt: new Date()
+    };
+    buildRmaReceipt(received, transactions, user?.name).forEach(transaction => postWorkflow(transaction));
+    updateRma(received);
+    setAlert(`Return ${received.rmaNumber} received into quarantine`, 'success');
+    setReceivingRma(null);
+  };
+
+  const openInspection = (rma: Rma) => {
+    setDispositions(Object.fromEntries(
+      rma.lines
+        .filter(line => Number(line.receivedQuantity) > 0)
+        .map(line => [line.id, [{ disposition: 'restock' as RmaDisposition, quantity: Number(line.receivedQuantity), location: line.location }]])
+    ));
+    setInspectingRma(rma);
+  };
+
+  const updateEntry = (lineId: string, index: number, updates: Partial<RmaDispositionEntry>) => {
+    setDispositions({
+      ...dispositions,
+      [lineId]: (dispositions[lineId] || []).map((entry, i) => i === index ? { ...entry, ...updates } : entry)
+    });
+  };
+
+  // Post the movement for each disposition and close out the return
+  const inspectRma = () => {
+    if (!inspectingRma) return;
+
+    const inspectedLines = inspectingRma.lines.filter(line => Number(line.receivedQuantity) > 0);
+    for (const line of inspectedLines) {
+      const product = products.find(p => p.id === line.productId);
+      const error = validateDispositions(line, dispositions[line.id] || []);
+      if (error) {
+        setAlert(`${product?.sku}: ${error}`, 'error');
+        return;
+      }
+      if (product?.serialized) {
+        setAlert(`${product.sku} is serialized and cannot be inspected through an RMA`, 'error');
+        return;
+      }
+    }
+
+    // Lines of the same product share its quarantine and their location's stock, so check the totals
+    const quarantined: Record<string, number> = {};
+    const located: Record<string, number> = {};
+    inspectedLines.forEach(line => {
+      const key = `${line.productId}|${line.location || ''}`;
+      quarantined[line.productId] = (quarantined[line.productId] || 0) + Number(line.receivedQuantity);
+      located[key] = (located[key] || 0) + Number(line.receivedQuantity);
+    });
+    for (const line of inspectedLines) {
+      const product = products.find(p => p.id === line.productId);
+      if (!product || getHeldQuantity(product, 'quarantine') < (quarantined[line.productId] || 0) ||
+          getLocationQuantity(stock, line.productId, line.location || '') < (located[`${line.productId}|${line.location || ''}`] || 0)) {
+        setAlert(`The returned units of ${product?.sku} are no longer quarantined in ${line.location}`, 'error');
+        return;
+      }
+    }
+
+    let posted: Transaction[] = transactions;
+    inspectedLines.forEach(line => {
+      const workflows = buildDispositionWorkflows(inspectingRma, line, dispositions[line.id] || [], posted, user?.name);
+      workflows.forEach(transaction => postWorkflow(transaction));
+      posted = [...posted, ...workflows];
+    });
+
+    updateRma({
+      ...inspectingRma,
+      lines: inspectingRma.lines.map(line => ({ ...line, dispositions: dispositions[line.id] })),
+      status: 'inspected',
+      inspectedBy: user?.name || 'Unknown',
+      inspectedAt: new Date()
+    });
+    setAlert(`Return ${inspectingRma.rmaNumber} inspected`, 'success');
+    setInspectingRma(null);
+  };
+
+  const cancelRma = (rma: Rma) => {
+    updateRma({ ...rma, status: 'cancelled' });
+    setAlert(`Return ${rma.rmaNumber} cancelled`, 'warning');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Returns</h1>
+      </div>
+
+      <div className="flex items-center space-x-4">
+        <div className="relative flex-1">
+          <input
+            type="text"
+            placeholder="Search returns by RMA, workflow number or SKU..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
+          />
+          <Search className="absolute left-3 top-2.5 h-5 w-5 text-gray-400 dark:text-gray-500" />
+        </div>
+        <select
+          value={selectedStatus}
+          onChange={(e) => setSelectedStatus(e.target.value as typeof selectedStatus)}
+          className="block w-40 pl-3 pr-10 py-2 text-base border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md dark:bg-gray-700 dark:text-white"
+        >
+          <option value="all">All Status</option>
+          {Object.entries(rmaStatusLabels).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      <Modal
+        isOpen={!!receivingRma}
+        onClose={() => setReceivingRma(null)}
+        title={`Receive Return - ${receivingRma?.rmaNumber}`}
+      >
+        <div className="space-y-4">
+          <div className="max-h-96 overflow-y-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-3 py-2 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    SKU
+                  </th>
+                  <th className="px-3 py-2 bg-gray-50 dark:bg-gray-700 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Authorised
+                  </th>
+                  <th className="px-3 py-2 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Received
+                  </th>
+                  <th className="px-3 py-2 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Location
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {receivingRma?.lines.map(line => {
+                  const product = products.find(p => p.id === line.productId);
+                  const receipt = receipts[line.id] || { quantity: '', location: '' };
+                  return (
+                    <tr key={line.id}>
+                      <td className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+                        <div className="font-medium text-gray-900 dark:text-white">{product?.sku || 'N/A'}</div>
+                        <div className="text-xs">{product?.name}</div>
+                      </td>
+                      <td className="px-3 py-2 text-right text-sm text-gray-500 dark:text-gray-400">
+                        {line.quantity}
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="number"
+                          min={0}
+                          max={line.quantity}
+                          value={receipt.quantity}
+                          onChange={(e) => setReceipts({ ...receipts, [line.id]: { ...receipt, quantity: e.target.value } })}
+                          className="block w-20 rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <select
+                          value={receipt.location}
+                          onChange={(e) => setReceipts({ ...receipts, [line.id]: { ...receipt, location: e.target.value } })}
+                          className="block w-32 rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                        >
+                          <option value="">Select...</option>
+                          {locationCodes.map(code => (
+                            <option key={code} value={code}>{code}</option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Received units are held in quarantine until the return is inspected.
+          </p>
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={() => setReceivingRma(null)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={receiveRma}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 rounded-md"
+            >
+              Receive Return
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      <Modal
+        isOpen={!!inspectingRma}
+        onClose={() => setInspectingRma(null)}
+        title={`Inspect Return - ${inspectingRma?.rmaNumber}`}
+      >
+        <div className="space-y-4">
+          <div className="max-h-96 overflow-y-auto space-y-4">
+            {inspectingRma?.lines.filter(line => Number(line.receivedQuantity) > 0).map(line => {
+              const product = products.find(p => p.id === line.productId);
+              const entries = dispositions[line.id] || [];
+              return (
+                <div key={line.id} className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="text-sm">
+                      <span className="font-medium text-gray-900 dark:text-white">[{product?.sku}] {product?.name}</span>
+                      <span className="text-gray-500 dark:text-gray-400"> - {line.receivedQuantity} received into {line.location}</span>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setDispositions({
+                        ...dispositions,
+                        [line.id]: [...entries, { disposition: 'quarantine', quantity: 0, location: line.location }]
+                      })}
+                      className="inline-flex items-center px-2 py-1 text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:text-indigo-900 dark:hover:text-indigo-300"
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Split
+                    </button>
+                  </div>
+                  {entries.map((entry, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <select
+                        value={entry.disposition}
+                        onChange={(e) => updateEntry(line.id, index, { disposition: e.target.value as RmaDisposition })}
+                        className="block w-40 rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                      >
+                        {Object.entries(rmaDispositionLabels).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        min={1}
+                        value={entry.quantity}
+                        onChange={(e) => updateEntry(line.id, index, { quantity: Number(e.target.value) })}
+                        className="block w-20 rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                      />
+                      {putAwayDispositions.includes(entry.disposition) && (
+                        <select
+                          value={entry.location || ''}
+                          onChange={(e) => updateEntry(line.id, index, { location: e.target.value })}
+                          className="block w-32 rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                        >
+                          {locationCodes.map(code => (
+                            <option key={code} value={code}>{code}</option>
+                          ))}
+                        </select>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => setDispositions({ ...dispositions, [line.id]: entries.filter((_, i) => i !== index) })}
+                        disabled={entries.length === 1}
+                        className="p-2 text-red-600 dark:text-red-400 hover:text-red-900 dark:hover:text-red-300 disabled:opacity-50"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Restocked units are released to available stock; destroyed and vendor returns are written off.
+          </p>
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={() => setInspectingRma(null)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={inspectRma}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 rounded-md"
+            >
+              Post Dispositions
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    RMA Number
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Outbound Workflow
+                  </th>
+                  {!isVendor && (
+                    <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Vendor
+                    </th>
+                  )}
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Reason
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Lines
+                  </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Status
+                  </th>
+                  {!isVendor && (
+                    <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {filteredRmas.length === 0 ? (
+                  <tr>
+                    <td colSpan={isVendor ? 6 : 8} className="px-6 py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+                      No returns found. Returns are raised from the Orders page.
+                    </td>
+                  </tr>
+                ) : (
+                  filteredRmas.map((rma) => (
+                    <tr key={rma.id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {new Date(rma.createdAt).toLocaleDateString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                        {rma.rmaNumber}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {rma.outboundWorkflowNumber}
+                      </td>
+                      {!isVendor && (
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                          {rma.vendorNumber}
+                        </td>
+                      )}
+                      <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400">
+                        {rma.reason}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400">
+                        {rma.lines.map(line => {
+                          const product = products.find(p => p.id === line.productId);
+                          return (
+                            <div key={line.id}>
+                              [{product?.sku || 'N/A'}] {line.receivedQuantity ?? line.quantity} / {line.quantity}
+                              {line.dispositions && (
+                                <span className="text-xs">
+                                  {' '}({line.dispositions.map(entry => `${rmaDispositionLabels[entry.disposition]}: ${entry.quantity}`).join(', ')})
+                                </span>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${rmaStatusColors[rma.status]}`}>
+                          {rmaStatusLabels[rma.status]}
+                        </span>
+                      </td>
+                      {!isVendor && (
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                          <div className="relative inline-block text-left">
+                            <button
+                              onClick={() => setOpenActionMenu(openActionMenu === rma.id ? null : rma.id)}
+                              className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400"
+                            >
+                              <MoreVertical className="h-5 w-5" />
+                            </button>
+
+                            {openActionMenu === rma.id && (rma.status === 'requested' || rma.status === 'received') && (
+                              <div className="origin-top-right absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white dark:bg-gray-700 ring-1 ring-black ring-opacity-5 z-10">
+                                <div className="py-1" role="menu">
+                                  {rma.status === 'requested' && (
+                                    <>
+                                      <button
+                                        onClick={() => {
+                                          openReceipt(rma);
+                                          setOpenActionMenu(null);
+                                        }}
+                                        className="flex items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                      >
+                                        <PackageOpen className="h-4 w-4 mr-2" />
+                                        Receive
+                                      </button>
+                                      <button
+                                        onClick={() => {
+                                          cancelRma(rma);
+                                          setOpenActionMenu(null);
+                                        }}
+                                        className="flex items-center px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                      >
+                                        <XCircle className="h-4 w-4 mr-2" />
+                                        Cancel Return
+                                      </button>
+                                    </>
+                                  )}
+                                  {rma.status === 'received' && (
+                                    <button
+                                      onClick={() => {
+                                        openInspection(rma);
+                                        setOpenActionMenu(null);
+                                      }}
+                                      className="flex items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                    >
+                                      <ClipboardCheck className="h-4 w-4 mr-2" />
+                                      Inspect
+                                    </button>
+                                  )}
+                                </div>
+                              </div>
+                            )}
+                          </div>
+                        </td>
+                      )}
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default Returns;
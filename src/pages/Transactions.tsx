@@ -1,47 +1,98 @@
-import React, { useState, useMemo } from 'react';
-import { ArrowDownCircle, ArrowUpCircle, CheckCircle, XCircle, Search, Upload, Edit, MoreVertical } from 'lucide-react';
+import React, { useState, useMemo, useEffect } from 'react';
+import { ArrowDownCircle, ArrowUpCircle, ArrowRightLeft, CheckCircle, XCircle, Search, Upload, Edit, MoreVertical, Truck, ChevronDown, ChevronRight, Printer, ListChecks } from 'lucide-react';
 import Modal from '../components/Modal';
 import SearchableSelect from '../components/SearchableSelect';
 import { useForm, Controller } from 'react-hook-form';
-import { Transaction, Product } from '../types';
+import { Transaction, Product, WorkflowType, LotAllocation, StockStatus, Order, UomLevel } from '../types';
 import { useInventoryStore, useAlertStore } from '../store';
 import { useAuthStore } from '../store/auth';
+import { useLocationStore } from '../store/locations';
+import { useDiscrepancyStore } from '../store/discrepancies';
+import { useOrderStore } from '../store/orders';
 import BulkTransactionModal from '../components/BulkTransactionModal';
-import { generateWorkflowNumber } from '../utils/workflow';
+import AsnReceiveModal from '../components/AsnReceiveModal';
+import PickListModal from '../components/PickListModal';
+import WavePanel from '../components/WavePanel';
+import { generateWorkflowNumber, workflowTypeColors, workflowTypeLabels } from '../utils/workflow';
+import { formatLocationBreakdown, getLocationQuantity, getProductStock, getStockSummary, getUnreservedLocationQuantity, stockStatusLabels } from '../utils/stock';
+import { checkLocationCapacity, getLocationOptions } from '../utils/locations';
+import { getProductLots, suggestFefoAllocation } from '../utils/lots';
+import { getSerialDirection, parseSerialInput, validateSerials } from '../utils/serials';
+import { buildReceivingDiscrepancy, getReceivingVariance } from '../utils/receiving';
+import { generatePackingSlip } from '../utils/packingSlips';
+import { openPrintWindow } from '../utils/print';
+import { formatEnteredQuantity, getProductUoms, toBaseQuantity, uomAbbreviations, uomLevelLabels } from '../utils/uom';
+import { getOrderStatus, groupWorkflowRows, orderPriorityColors, orderPriorityLabels, orderStatusColors, orderStatusLabels } from '../utils/orders';
 
 interface TransactionFormData {
   productId: string;
   quantity: number;
+  uom?: UomLevel;
+  location: string;
+  toLocation?: string;
+  lotNumber?: string;
+  expiryDate?: string;
   notes?: string;
 }
 
 function Transactions() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isBulkImportModalOpen, setIsBulkImportModalOpen] = useState(false);
-  const [modalType, setModalType] = useState<'inbound' | 'outbound'>('inbound');
+  const [isAsnReceiveModalOpen, setIsAsnReceiveModalOpen] = useState(false);
+  const [modalType, setModalType] = useState<WorkflowType>('inbound');
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
-  const [selectedStatus, setSelectedStatus] = useState<'all' | 'pending' | 'completed' | 'cancelled'>('all');
+  const [selectedStatus, setSelectedStatus] = useState<'all' | 'pending' | 'backordered' | 'completed' | 'cancelled'>('all');
   const [openActionMenu, setOpenActionMenu] = useState<string | null>(null);
+  const [pickingTransaction, setPickingTransaction] = useState<Transaction | null>(null);
+  const [lotPicks, setLotPicks] = useState<LotAllocation[]>([]);
+  const [serialTransaction, setSerialTransaction] = useState<Transaction | null>(null);
+  const [serialInput, setSerialInput] = useState('');
+  const [receivingTransaction, setReceivingTransaction] = useState<Transaction | null>(null);
+  const [receiving, setReceiving] = useState({ received: 0, damaged: 0, notes: '' });
+  const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
+  const [completionQueue, setCompletionQueue] = useState<Transaction[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [pickListTransactions, setPickListTransactions] = useState<Transaction[] | null>(null);
 
-  const { register, handleSubmit, reset, setValue, control } = useForm<TransactionFormData>();
-  const { products, transactions, addTransaction, completeTransaction, updateTransaction } = useInventoryStore();
+  const { register, handleSubmit, reset, setValue, control, watch } = useForm<TransactionFormData>();
+  const { products, transactions, stock, lots, serials, addTransaction, completeTransaction, updateTransaction } = useInventoryStore();
   const { setAlert } = useAlertStore();
   const { user } = useAuthStore();
+  const { locations } = useLocationStore();
+  const { addDiscrepancy } = useDiscrepancyStore();
+  const { orders } = useOrderStore();
 
   const productOptions = useMemo(() => 
     products.map(product => ({
       value: product.id,
       label: `[${product.sku}] ${product.name}`,
-      description: `Stock: ${product.quantity} | Location: ${product.location}`
+      description: `Available: ${getStockSummary(product, transactions).available} | Locations: ${formatLocationBreakdown(stock, product.id) || product.location}`
     })),
-    [products]
+    [products, stock, transactions]
+  );
+
+  const receiveLocationOptions = useMemo(() =>
+    getLocationOptions(locations, stock, products),
+    [locations, stock, products]
+  );
+
+  // Locations the selected product can be picked from
+  const selectedProductId = watch('productId');
+  const selectedProduct = products.find(p => p.id === selectedProductId);
+  const pickLocationOptions = useMemo(() =>
+    getProductStock(stock, selectedProductId).map(entry => ({
+      value: entry.location,
+      label: entry.location,
+      description: `Stock: ${entry.quantity}`
+    })),
+    [stock, selectedProductId]
   );
 
   const filteredTransactions = useMemo(() => {
     return transactions.filter(transaction => {
       const product = products.find(p => p.id === transaction.productId);
-      const searchString = `${product?.sku} ${product?.name} ${transaction.workflowNumber} ${product?.vendorNumber}`.toLowerCase();
+      const searchString = `${product?.sku} ${product?.name} ${transaction.workflowNumber} ${product?.vendorNumber} ${transaction.referenceNumber || ''}`.toLowerCase();
       
       return (
         searchString.includes(searchTerm.toLowerCase()) &&
@@ -50,29 +101,80 @@ function Transactions() {
     }).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
   }, [transactions, products, searchTerm, selectedStatus]);
 
+  const workflowRows = useMemo(
+    () => groupWorkflowRows(filteredTransactions, orders),
+    [filteredTransactions, orders]
+  );
+
+  // Pending outbounds ticked for the next pick list
+  const selectedOutbounds = useMemo(() =>
+    transactions.filter(t => selectedIds.includes(t.id) && t.type === 'outbound' && t.status === 'pending'),
+    [transactions, selectedIds]
+  );
+
   const onSubmit = async (data: TransactionFormData) => {
-    const workflowNumber = editingTransaction?.workflowNumber || generateWorkflowNumber(transactions);
+    const workflowNumber = editingTransaction?.workflowNumber ||
+      generateWorkflowNumber(transactions, modalType === 'transfer' ? 'TR' : 'WF');
+    const product = products.find(p => p.id === data.productId);
+    // Stock moves in eaches; the entered pack level is kept for display
+    const uom = data.uom || 'each';
+    const quantity = product ? toBaseQuantity(product, Number(data.quantity), uom) : Number(data.quantity);
+    if (quantity === undefined) {
+      setAlert(`${product?.sku} is not handled in ${uomLevelLabels[uom].toLowerCase()}s`, 'error');
+      return;
+    }
     const transaction: Transaction = {
+      ...editingTransaction,
       id: editingTransaction?.id || crypto.randomUUID(),
       type: modalType,
       status: 'pending',
       workflowNumber,
       createdAt: editingTransaction?.createdAt || new Date(),
       updatedAt: new Date(),
-      ...data
+      ...data,
+      quantity,
+      uom,
+      uomQuantity: uom === 'each' ? undefined : Number(data.quantity)
     };
 
+    if (data.expiryDate && !data.lotNumber) {
+      setAlert('Lot number is required when an expiry date is given', 'error');
+      return;
+    }
+
+    if (modalType === 'outbound' && product) {
+      const { available } = getStockSummary(product, transactions, editingTransaction?.id);
+      if (available < quantity) {
+        setAlert(`Insufficient available quantity (available: ${available})`, 'error');
+        return;
+      }
+    }
+
+    // Stock already promised to other pending outbounds can't leave the location again
+    if (modalType !== 'inbound' &&
+        getUnreservedLocationQuantity(stock, transactions, data.productId, data.location, editingTransaction?.id) < quantity) {
+      setAlert(`Insufficient quantity in location ${data.location}`, 'error');
+      return;
+    }
+
     if (editingTransaction) {
       updateTransaction(transaction);
       setAlert('Workflow updated successfully', 'success');
     } else {
-      const product = products.find(p => p.id === data.productId);
-      if (modalType === 'outbound' && product && product.quantity < data.quantity) {
-        setAlert('Insufficient inventory quantity', 'error');
+      if (modalType === 'transfer' && data.location === data.toLocation) {
+        setAlert('Source and destination locations must be different', 'error');
         return;
       }
+      const location = locations.find(l => l.code === (modalType === 'transfer' ? data.toLocation : data.location));
+      if (modalType !== 'outbound' && product && location) {
+        const capacityError = checkLocationCapacity(location, product, quantity, stock, products);
+        if (capacityError) {
+          setAlert(capacityError, 'error');
+          return;
+        }
+      }
       addTransaction(transaction);
-      setAlert(`${modalType === 'inbound' ? 'Inbound' : 'Outbound'} workflow created successfully`, 'success');
+      setAlert(`${workflowTypeLabels[modalType]} workflow created successfully`, 'success');
     }
     closeModal();
   };
@@ -84,8 +186,227 @@ function Transactions() {
   };
 
   const handleCompleteTransaction = (transaction: Transaction) => {
+    const product = products.find(p => p.id === transaction.productId);
+    // Inbounds are received against the expected quantity before anything posts
+    if (transaction.type === 'inbound' && transaction.expectedQuantity === undefined) {
+      setReceivingTransaction(transaction);
+      setReceiving({ received: Number(transaction.quantity), damaged: 0, notes: '' });
+      return;
+    }
+    if (transaction.type === 'transfer' &&
+        getUnreservedLocationQuantity(stock, transactions, transaction.productId, transaction.location) < Number(transaction.quantity)) {
+      setAlert(`Insufficient quantity in location ${transaction.location}`, 'error');
+      return;
+    }
+    // The location may have been emptied since the outbound was created
+    if (transaction.type === 'outbound' && transaction.location &&
+        getLocationQuantity(stock, transaction.productId, transaction.location) < Number(transaction.quantity)) {
+      setAlert(`Insufficient quantity in location ${transaction.location}`, 'error');
+      return;
+    }
+    if (transaction.type !== 'outbound') {
+      const destination = transaction.type === 'transfer' ? transaction.toLocation : transaction.location;
+      const location = locations.find(l => l.code === (destination || product?.location));
+      if (product && location) {
+        const capacityError = checkLocationCapacity(location, product, Number(transaction.quantity), stock, products);
+        if (capacityError) {
+          setAlert(capacityError, 'error');
+          return;
+        }
+      }
+    }
+    // Serialized products need every unit's serial captured on receipt, transfer and shipment
+    if (product?.serialized && !transaction.serialNumbers &&
+        Number(transaction.quantity) > 0) {
+      setSerialTransaction(transaction);
+      setSerialInput('');
+      return;
+    }
+    // Let staff confirm which lots to pick, starting from the FEFO suggestion
+    if (transaction.type === 'outbound' && getProductLots(lots, transaction.productId).length > 0) {
+      setPickingTransaction(transaction);
+      setLotPicks(suggestFefoAllocation(lots, transaction.productId, Number(transaction.quantity)));
+      return;
+    }
     completeTransaction(transaction);
-    setAlert(`${transaction.type === 'inbound' ? 'Inbound' : 'Outbound'} workflow completed`, 'success');
+    const discrepancy = transaction.type === 'inbound'
+      ? buildReceivingDiscrepancy(transaction, product, user?.name)
+      : null;
+    if (discrepancy) {
+      addDiscrepancy(discrepancy);
+      setAlert('Inbound workflow completed with a receiving discrepancy', 'warning');
+      return;
+    }
+    setAlert(`${workflowTypeLabels[transaction.type as WorkflowType]} workflow completed`, 'success');
+  };
+
+  const handleConfirmReceiving = () => {
+    if (!receivingTransaction) return;
+
+    if (receiving.received < 0) {
+      setAlert('Received quantity cannot be negative', 'error');
+      return;
+    }
+    if (receiving.damaged < 0 || receiving.damaged > receiving.received) {
+      setAlert('Damaged quantity must be between 0 and the received quantity', 'error');
+      return;
+    }
+
+    setReceivingTransaction(null);
+    handleCompleteTransaction({
+      ...receivingTransaction,
+      expectedQuantity: Number(receivingTransaction.quantity),
+      quantity: receiving.received,
+      damagedQuantity: receiving.damaged,
+      receivingNotes: receiving.notes || undefined
+    });
+  };
+
+  const handleConfirmSerials = () => {
+    if (!serialTransaction) return;
+
+    const serialNumbers = parseSerialInput(serialInput);
+    const serialError = validateSerials(
+      serials,
+      serialTransaction.productId,
+      serialNumbers,
+      Number(serialTransaction.quantity),
+      getSerialDirection(serialTransaction.type, Number(serialTransaction.quantity)),
+      serialTransaction.type === 'inbound' ? undefined : serialTransaction.location
+    );
+    if (serialError) {
+      setAlert(serialError, 'error');
+      return;
+    }
+
+    setSerialTransaction(null);
+    handleCompleteTransaction({ ...serialTransaction, serialNumbers });
+  };
+
+  const getLotPick = (lotNumber: string) => {
+    return lotPicks.find(p => p.lotNumber === lotNumber)?.quantity || 0;
+  };
+
+  const setLotPick = (lotNumber: string, quantity: number) => {
+    setLotPicks([
+      ...lotPicks.filter(p => p.lotNumber !== lotNumber),
+      { lotNumber, quantity }
+    ]);
+  };
+
+  const handleConfirmLotPicks = () => {
+    if (!pickingTransaction) return;
+
+    const picks = lotPicks.filter(p => p.quantity > 0);
+    const overPicked = picks.find(p =>
+      p.quantity > (lots.find(l => l.productId === pickingTransaction.productId && l.lotNumber === p.lotNumber)?.quantity || 0)
+    );
+    if (overPicked) {
+      setAlert(`Insufficient quantity in lot ${overPicked.lotNumber}`, 'error');
+      return;
+    }
+    const totalPicked = picks.reduce((total, p) => total + p.quantity, 0);
+    // Every unit shipped has to come out of a lot, or the lot ledger drifts from stock on hand
+    if (totalPicked !== Number(pickingTransaction.quantity)) {
+      setAlert(`Picked quantity must equal the workflow quantity of ${pickingTransaction.quantity}`, 'error');
+      return;
+    }
+
+    completeTransaction({ ...pickingTransaction, lotAllocations: picks });
+    setAlert('Outbound workflow completed', 'success');
+    setPickingTransaction(null);
+    setLotPicks([]);
+  };
+
+  // Lines of an order complete one at a time, pausing while a receiving, serial or lot step is open
+  useEffect(() => {
+    if (completionQueue.length === 0 || receivingTransaction || serialTransaction || pickingTransaction) return;
+    const [next, ...rest] = completionQueue;
+    setCompletionQueue(rest);
+    // Read the latest workflows, as completing the previous line has just changed them
+    const current = useInventoryStore.getState().transactions.find(t => t.id === next?.id);
+    if (current?.status === 'pending') {
+      handleCompleteTransaction(current);
+    }
+  }, [completionQueue, receivingTransaction, serialTransaction, pickingTransaction, handleCompleteTransaction]);
+
+  const handleCompleteOrder = (orderLines: Transaction[]) => {
+    setCompletionQueue(orderLines.filter(line => line.status === 'pending'));
+  };
+
+  const handleCancelOrder = (order: Order, orderLines: Transaction[]) => {
+    orderLines
+      .filter(line => line.status === 'pending' || line.status === 'backordered')
+      .forEach(line => updateTransaction({ ...line, status: 'cancelled', updatedAt: new Date() }));
+    setAlert(`Order ${order.workflowNumber} cancelled`, 'warning');
+  };
+
+  // Backing out of a completion step also stops the rest of an order's lines
+  const cancelCompletion = () => {
+    setReceivingTransaction(null);
+    setSerialTransaction(null);
+    setPickingTransaction(null);
+    setCompletionQueue([]);
+  };
+
+  const printPackingSlip = (html: string) => {
+    if (!openPrintWindow(html)) {
+      setAlert('Allow pop-ups to print packing slips', 'error');
+    }
+  };
+
+  const handlePrintOrderSlip = (order: Order, orderLines: Transaction[]) => {
+    printPackingSlip(generatePackingSlip({
+      workflowNumber: order.workflowNumber,
+      referenceNumber: order.referenceNumber,
+      requestedDate: order.requestedDate,
+      shipTo: order.shipTo,
+      notes: order.notes,
+      lines: orderLines
+    }, products));
+  };
+
+  const handlePrintTransactionSlip = (transaction: Transaction) => {
+    printPackingSlip(generatePackingSlip({
+      workflowNumber: transaction.workflowNumber,
+      referenceNumber: transaction.referenceNumber,
+      shipTo: transaction.shipTo,
+      notes: transaction.notes,
+      lines: [transaction]
+    }, products));
+  };
+
+  const toggleSelected = (ids: string[], selected: boolean) => {
+    setSelectedIds(selected
+      ? Array.from(new Set([...selectedIds, ...ids]))
+      : selectedIds.filter(id => !ids.includes(id)));
+  };
+
+  // Serialized units are captured one workflow at a time, so they can't go on a pick list
+  const openPickList = (outbounds: Transaction[]) => {
+    if (outbounds.length === 0) {
+      setAlert('Select pending outbound workflows to pick', 'error');
+      return;
+    }
+    const serialized = outbounds.find(t => products.find(p => p.id === t.productId)?.serialized);
+    if (serialized) {
+      setAlert(`${serialized.workflowNumber} needs serials captured and must be completed on its own`, 'error');
+      return;
+    }
+    setPickListTransactions(outbounds);
+  };
+
+  // Completing in pick list order removes stock from the same locations the list sent staff to
+  const handleConfirmPick = (picked: Transaction[]) => {
+    // The store refuses workflows whose stock has moved since the list was built
+    const completed = picked.filter(transaction => completeTransaction(transaction));
+    setSelectedIds([]);
+    if (completed.length < picked.length) {
+      const failed = picked.filter(t => !completed.includes(t)).map(t => t.workflowNumber);
+      setAlert(`${completed.length} outbound workflows completed, not enough stock for ${failed.join(', ')}`, 'error');
+      return;
+    }
+    setAlert(`${completed.length} outbound workflows picked and completed`, 'success');
   };
 
   const handleCancelTransaction = (transaction: Transaction) => {
@@ -94,14 +415,19 @@ function Transactions() {
       status: 'cancelled',
       updatedAt: new Date()
     });
-    setAlert(`${transaction.type === 'inbound' ? 'Inbound' : 'Outbound'} workflow cancelled`, 'warning');
+    setAlert(`${workflowTypeLabels[transaction.type as WorkflowType]} workflow cancelled`, 'warning');
   };
 
   const openEditModal = (transaction: Transaction) => {
     setEditingTransaction(transaction);
     setModalType(transaction.type);
     setValue('productId', transaction.productId);
-    setValue('quantity', transaction.quantity);
+    setValue('quantity', transaction.uomQuantity ?? transaction.quantity);
+    setValue('uom', transaction.uomQuantity !== undefined ? transaction.uom : 'each');
+    setValue('location', transaction.location || '');
+    setValue('toLocation', transaction.toLocation || '');
+    setValue('lotNumber', transaction.lotNumber || '');
+    setValue('expiryDate', transaction.expiryDate || '');
     setValue('notes', transaction.notes || '');
     setIsModalOpen(true);
   };
@@ -112,6 +438,151 @@ function Transactions() {
     reset();
   };
 
+  const renderTransactionRow = (transaction: Transaction, isLine = false) => {
+    const product = products.find(p => p.id === transaction.productId);
+    return (
+      <tr key={transaction.id} className={isLine ? 'bg-gray-50 dark:bg-gray-900' : ''}>
+        <td className="pl-6 py-4">
+          {transaction.type === 'outbound' && transaction.status === 'pending' && (
+            <input
+              type="checkbox"
+              checked={selectedIds.includes(transaction.id)}
+              onChange={(e) => toggleSelected([transaction.id], e.target.checked)}
+              className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+            />
+          )}
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+          {new Date(transaction.createdAt).toLocaleDateString()}
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap">
+          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+            workflowTypeColors[transaction.type as WorkflowType]
+          }`}>
+            {workflowTypeLabels[transaction.type as WorkflowType]}
+          </span>
+        </td>
+        <td className={`py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400 ${isLine ? 'pl-12 pr-6' : 'px-6'}`}>
+          {transaction.workflowNumber}
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+          {product?.sku || 'N/A'}
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+          {product?.vendorNumber || 'N/A'}
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+          {transaction.quantity}
+          {transaction.uomQuantity !== undefined && (
+            <span className="text-xs"> ({formatEnteredQuantity(transaction)})</span>
+          )}
+          {transaction.expectedQuantity !== undefined &&
+            Number(transaction.expectedQuantity) !== Number(transaction.quantity) && (
+            <span className="text-xs"> of {transaction.expectedQuantity}</span>
+          )}
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+          {transaction.type === 'transfer'
+            ? `${transaction.location} → ${transaction.toLocation}`
+            : transaction.type === 'status_change'
+            ? `${stockStatusLabels[transaction.fromStatus as StockStatus]} → ${stockStatusLabels[transaction.toStatus as StockStatus]}`
+            : transaction.location || '-'}
+          {transaction.lotNumber && (
+            <div className="text-xs">Lot {transaction.lotNumber}</div>
+          )}
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap">
+          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+            transaction.status === 'pending'
+              ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
+              : transaction.status === 'completed'
+              ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+              : transaction.status === 'backordered'
+              ? 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200'
+              : 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+          }`}>
+            {transaction.status}
+          </span>
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+          <div className="relative inline-block text-left">
+            <button
+              onClick={() => setOpenActionMenu(openActionMenu === transaction.id ? null : transaction.id)}
+              className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400"
+            >
+              <MoreVertical className="h-5 w-5" />
+            </button>
+
+            {openActionMenu === transaction.id && (transaction.status === 'pending' || transaction.status === 'backordered' || (transaction.type === 'outbound' && !isLine)) && (
+              <div className="origin-top-right absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white dark:bg-gray-700 ring-1 ring-black ring-opacity-5 z-10">
+                <div className="py-1" role="menu">
+                  {transaction.status === 'pending' && (
+                    <>
+                      <button
+                        onClick={() => {
+                          openEditModal(transaction);
+                          setOpenActionMenu(null);
+                        }}
+                        className="flex items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                      >
+                        <Edit className="h-4 w-4 mr-2" />
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => {
+                          handleCompleteTransaction(transaction);
+                          setOpenActionMenu(null);
+                        }}
+                        className="flex items-center px-4 py-2 text-sm text-green-600 dark:text-green-400 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                      >
+                        <CheckCircle className="h-4 w-4 mr-2" />
+                        Complete
+                      </button>
+                      <button
+                        onClick={() => {
+                          handleCancelTransaction(transaction);
+                          setOpenActionMenu(null);
+                        }}
+                        className="flex items-center px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                      >
+                        <XCircle className="h-4 w-4 mr-2" />
+                        Cancel
+                      </button>
+                    </>
+                  )}
+                  {transaction.status === 'backordered' && (
+                    <button
+                      onClick={() => {
+                        handleCancelTransaction(transaction);
+                        setOpenActionMenu(null);
+                      }}
+                      className="flex items-center px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                    >
+                      <XCircle className="h-4 w-4 mr-2" />
+                      Cancel Backorder
+                    </button>
+                  )}
+                  {transaction.type === 'outbound' && !isLine && (
+                    <button
+                      onClick={() => {
+                        handlePrintTransactionSlip(transaction);
+                        setOpenActionMenu(null);
+                      }}
+                      className="flex items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                    >
+                      <Printer className="h-4 w-4 mr-2" />
+                      Packing Slip
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        </td>
+      </tr>
+    );
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -137,6 +608,30 @@ function Transactions() {
             <ArrowUpCircle className="h-5 w-5 mr-2" />
             New Outbound
           </button>
+          <button
+            onClick={() => {
+              setModalType('transfer');
+              setIsModalOpen(true);
+            }}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-purple-600 hover:bg-purple-700 dark:bg-purple-500 dark:hover:bg-purple-600"
+          >
+            <ArrowRightLeft className="h-5 w-5 mr-2" />
+            New Transfer
+          </button>
+          <button
+            onClick={() => setIsAsnReceiveModalOpen(true)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 dark:bg-green-500 dark:hover:bg-green-600"
+          >
+            <Truck className="h-5 w-5 mr-2" />
+            Receive ASN
+          </button>
+          <button
+            onClick={() => openPickList(selectedOutbounds)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600"
+          >
+            <ListChecks className="h-5 w-5 mr-2" />
+            Generate Pick List{selectedOutbounds.length > 0 ? ` (${selectedOutbounds.length})` : ''}
+          </button>
           <button
             onClick={() => setIsBulkImportModalOpen(true)}
             className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600"
@@ -165,6 +660,7 @@ function Transactions() {
         >
           <option value="all">All Status</option>
           <option value="pending">Pending</option>
+          <option value="backordered">Backordered</option>
           <option value="completed">Completed</option>
           <option value="cancelled">Cancelled</option>
         </select>
@@ -173,7 +669,7 @@ function Transactions() {
       <Modal
         isOpen={isModalOpen}
         onClose={closeModal}
-        title={`${editingTransaction ? 'Edit' : 'New'} ${modalType === 'inbound' ? 'Inbound' : 'Outbound'} Workflow`}
+        title={`${editingTransaction ? 'Edit' : 'New'} ${workflowTypeLabels[modalType]} Workflow`}
       >
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
           <div>
@@ -186,21 +682,115 @@ function Transactions() {
                 <SearchableSelect
                   options={productOptions}
                   value={field.value}
-                  onChange={field.onChange}
+                  onChange={(value) => {
+                    field.onChange(value);
+                    setValue('uom', 'each');
+                  }}
                   placeholder="Search and select a product..."
                   className="mt-1"
                 />
               )}
             />
           </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Quantity</label>
-            <input
-              type="number"
-              {...register('quantity', { required: true, min: 1 })}
-              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
-            />
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Quantity</label>
+              <input
+                type="number"
+                {...register('quantity', { required: true, min: 1 })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Unit</label>
+              <select
+                {...register('uom')}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              >
+                {getProductUoms(selectedProduct).map(uom => (
+                  <option key={uom.level} value={uom.level}>
+                    {uomLevelLabels[uom.level]} ({uom.unitsPerLevel} {uomAbbreviations.each})
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
+          {modalType === 'inbound' ? (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Receive Into Location</label>
+              <Controller
+                name="location"
+                control={control}
+                rules={{ required: true }}
+                render={({ field }) => (
+                  <SearchableSelect
+                    options={receiveLocationOptions}
+                    value={field.value}
+                    onChange={field.onChange}
+                    placeholder="Search and select a location..."
+                    className="mt-1"
+                  />
+                )}
+              />
+            </div>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Pick From Location</label>
+              <Controller
+                name="location"
+                control={control}
+                rules={{ required: true }}
+                render={({ field }) => (
+                  <SearchableSelect
+                    options={pickLocationOptions}
+                    value={field.value}
+                    onChange={field.onChange}
+                    placeholder="Search and select a location..."
+                    className="mt-1"
+                  />
+                )}
+              />
+            </div>
+          )}
+          {modalType === 'inbound' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Lot Number</label>
+                <input
+                  type="text"
+                  {...register('lotNumber')}
+                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Expiry Date</label>
+                <input
+                  type="date"
+                  {...register('expiryDate')}
+                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                />
+              </div>
+            </div>
+          )}
+          {modalType === 'transfer' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Move To Location</label>
+              <Controller
+                name="toLocation"
+                control={control}
+                rules={{ required: true }}
+                render={({ field }) => (
+                  <SearchableSelect
+                    options={receiveLocationOptions}
+                    value={field.value || ''}
+                    onChange={field.onChange}
+                    placeholder="Search and select a location..."
+                    className="mt-1"
+                  />
+                )}
+              />
+            </div>
+          )}
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Notes</label>
             <textarea
@@ -227,6 +817,207 @@ function Transactions() {
         </form>
       </Modal>
 
+      <Modal
+        isOpen={!!receivingTransaction}
+        onClose={cancelCompletion}
+        title={`Receive - ${receivingTransaction?.workflowNumber || ''}`}
+      >
+        {receivingTransaction && (
+          <div className="space-y-4">
+            <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
+              <dl className="grid grid-cols-3 gap-x-4 gap-y-2">
+                <div>
+                  <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Expected</dt>
+                  <dd className="text-sm text-gray-900 dark:text-white">{receivingTransaction.quantity}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Short</dt>
+                  <dd className="text-sm text-gray-900 dark:text-white">
+                    {getReceivingVariance(Number(receivingTransaction.quantity), receiving.received).short}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Over</dt>
+                  <dd className="text-sm text-gray-900 dark:text-white">
+                    {getReceivingVariance(Number(receivingTransaction.quantity), receiving.received).over}
+                  </dd>
+                </div>
+              </dl>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Received Quantity</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={receiving.received}
+                  onChange={(e) => setReceiving({ ...receiving, received: Number(e.target.value) })}
+                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Damaged (of received)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={receiving.damaged}
+                  onChange={(e) => setReceiving({ ...receiving, damaged: Number(e.target.value) })}
+                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Only the received quantity is posted. Damaged units are received into the Damaged status.
+            </p>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Receiving Note</label>
+              <textarea
+                value={receiving.notes}
+                onChange={(e) => setReceiving({ ...receiving, notes: e.target.value })}
+                rows={3}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+            </div>
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={cancelCompletion}
+                className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleConfirmReceiving}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 rounded-md"
+              >
+                Confirm Receipt
+              </button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      <Modal
+        isOpen={!!serialTransaction}
+        onClose={cancelCompletion}
+        title={`Capture Serials - ${serialTransaction?.workflowNumber || ''}`}
+      >
+        {serialTransaction && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {serialTransaction.type === 'inbound'
+                ? 'Scan or enter the serial of every unit received.'
+                : serialTransaction.type === 'transfer'
+                ? `Scan or enter the serial of every unit moved from ${serialTransaction.location}.`
+                : 'Scan or enter the serial of every unit shipped.'}{' '}
+              Separate serials with new lines, spaces or commas.
+            </p>
+            <textarea
+              value={serialInput}
+              onChange={(e) => setSerialInput(e.target.value)}
+              rows={8}
+              autoFocus
+              className="block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm font-mono"
+            />
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Entered: <span className="font-medium">{parseSerialInput(serialInput).length}</span> of {serialTransaction.quantity}
+            </p>
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={cancelCompletion}
+                className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleConfirmSerials}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 rounded-md"
+              >
+                Confirm Serials
+              </button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      <Modal
+        isOpen={!!pickingTransaction}
+        onClose={cancelCompletion}
+        title={`Pick Lots - ${pickingTransaction?.workflowNumber || ''}`}
+      >
+        {pickingTransaction && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Lots are suggested first-expired-first-out for {pickingTransaction.quantity} units. Adjust the quantities if you picked from a different lot.
+            </p>
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-4 py-2 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Lot</th>
+                  <th className="px-4 py-2 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Expiry</th>
+                  <th className="px-4 py-2 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">In Stock</th>
+                  <th className="px-4 py-2 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Pick</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {getProductLots(lots, pickingTransaction.productId).map(lot => (
+                  <tr key={lot.lotNumber}>
+                    <td className="px-4 py-2 text-sm text-gray-900 dark:text-white">{lot.lotNumber}</td>
+                    <td className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">{lot.expiryDate || '-'}</td>
+                    <td className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">{lot.quantity}</td>
+                    <td className="px-4 py-2">
+                      <input
+                        type="number"
+                        min={0}
+                        max={lot.quantity}
+                        value={getLotPick(lot.lotNumber)}
+                        onChange={(e) => setLotPick(lot.lotNumber, Number(e.target.value))}
+                        className="block w-24 rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={cancelCompletion}
+                className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleConfirmLotPicks}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 rounded-md"
+              >
+                Complete Workflow
+              </button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      <AsnReceiveModal
+        isOpen={isAsnReceiveModalOpen}
+        onClose={() => setIsAsnReceiveModalOpen(false)}
+        onReceiveLine={(transaction) => {
+          setIsAsnReceiveModalOpen(false);
+          handleCompleteTransaction(transaction);
+        }}
+      />
+
+      <PickListModal
+        isOpen={!!pickListTransactions}
+        onClose={() => setPickListTransactions(null)}
+        transactions={pickListTransactions || []}
+        onConfirm={handleConfirmPick}
+      />
+
       <Modal
         isOpen={isBulkImportModalOpen}
         onClose={() => setIsBulkImportModalOpen(false)}
@@ -236,6 +1027,7 @@ function Transactions() {
           onClose={() => setIsBulkImportModalOpen(false)}
           onImport={handleBulkImport}
           products={products}
+          existingTransactions={transactions}
         />
       </Modal>
 
@@ -245,6 +1037,7 @@ function Transactions() {
             <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
               <thead>
                 <tr>
+                  <th className="pl-6 py-3 bg-gray-50 dark:bg-gray-700" />
                   <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                     Date
                   </th>
@@ -263,6 +1056,9 @@ function Transactions() {
                   <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                     Quantity
                   </th>
+                  <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Location
+                  </th>
                   <th className="px-6 py-3 bg-gray-50 dark:bg-gray-700 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                     Status
                   </th>
@@ -274,98 +1070,140 @@ function Transactions() {
               <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
                 {filteredTransactions.length === 0 ? (
                   <tr>
-                    <td colSpan={8} className="px-6 py-4 text-center text-sm text-gray-500 dark:text-gray-400">
-                      No workflows found. Create a new inbound or outbound workflow to get started.
+                    <td colSpan={10} className="px-6 py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+                      No workflows found. Create a new inbound, outbound or transfer workflow to get started.
                     </td>
                   </tr>
                 ) : (
-                  filteredTransactions.map((transaction) => {
-                    const product = products.find(p => p.id === transaction.productId);
+                  workflowRows.map((row) => {
+                    if (row.kind === 'transaction') return renderTransactionRow(row.transaction);
+
+                    const { order } = row;
+                    const orderLines = transactions.filter(t => t.orderId === order.id);
+                    const status = getOrderStatus(orderLines);
+                    const isExpanded = expandedOrderId === order.id;
+                    const pendingIds = orderLines.filter(line => line.status === 'pending').map(line => line.id);
                     return (
-                      <tr key={transaction.id}>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                          {new Date(transaction.createdAt).toLocaleDateString()}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                            transaction.type === 'inbound' 
-                              ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' 
-                              : 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
-                          }`}>
-                            {transaction.type}
-                          </span>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                          {transaction.workflowNumber}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                          {product?.sku || 'N/A'}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                          {product?.vendorNumber || 'N/A'}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                          {transaction.quantity}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                            transaction.status === 'pending'
-                              ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
-                              : transaction.status === 'completed'
-                              ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
-                              : 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
-                          }`}>
-                            {transaction.status}
-                          </span>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                          <div className="relative inline-block text-left">
+                      <React.Fragment key={order.id}>
+                        <tr>
+                          <td className="pl-6 py-4">
+                            {order.type === 'outbound' && pendingIds.length > 0 && (
+                              <input
+                                type="checkbox"
+                                checked={pendingIds.every(id => selectedIds.includes(id))}
+                                onChange={(e) => toggleSelected(pendingIds, e.target.checked)}
+                                className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                              />
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                            {new Date(order.createdAt).toLocaleDateString()}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${workflowTypeColors[order.type]}`}>
+                              {workflowTypeLabels[order.type]}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
                             <button
-                              onClick={() => setOpenActionMenu(openActionMenu === transaction.id ? null : transaction.id)}
-                              className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400"
+                              onClick={() => setExpandedOrderId(isExpanded ? null : order.id)}
+                              className="inline-flex items-center"
                             >
-                              <MoreVertical className="h-5 w-5" />
+                              {isExpanded
+                                ? <ChevronDown className="h-4 w-4 mr-1" />
+                                : <ChevronRight className="h-4 w-4 mr-1" />}
+                              {order.workflowNumber}
                             </button>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                            <div className="flex items-center space-x-2">
+                              <span>{orderLines.length} lines</span>
+                              <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${orderPriorityColors[order.priority]}`}>
+                                {orderPriorityLabels[order.priority]}
+                              </span>
+                            </div>
+                            {order.referenceNumber && (
+                              <div className="text-xs">Ref: {order.referenceNumber}</div>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                            {order.vendorNumber}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                            {orderLines.reduce((total, line) => total + Number(line.quantity), 0)}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400">
+                            {order.requestedDate && (
+                              <div className="whitespace-nowrap">Requested: {order.requestedDate}</div>
+                            )}
+                            {order.shipTo && (
+                              <div className="text-xs">Ship to: {order.shipTo.name}, {order.shipTo.city}</div>
+                            )}
+                            {order.carrier && (
+                              <div className="text-xs">Carrier: {order.carrier}</div>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${orderStatusColors[status]}`}>
+                              {orderStatusLabels[status]}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                            <div className="relative inline-block text-left">
+                              <button
+                                onClick={() => setOpenActionMenu(openActionMenu === order.id ? null : order.id)}
+                                className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400"
+                              >
+                                <MoreVertical className="h-5 w-5" />
+                              </button>
 
-                            {openActionMenu === transaction.id && transaction.status === 'pending' && (
-                              <div className="origin-top-right absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white dark:bg-gray-700 ring-1 ring-black ring-opacity-5 z-10">
-                                <div className="py-1" role="menu">
-                                  <button
-                                    onClick={() => {
-                                      openEditModal(transaction);
-                                      setOpenActionMenu(null);
-                                    }}
-                                    className="flex items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
-                                  >
-                                    <Edit className="h-4 w-4 mr-2" />
-                                    Edit
-                                  </button>
-                                  <button
-                                    onClick={() => {
-                                      handleCompleteTransaction(transaction);
-                                      setOpenActionMenu(null);
-                                    }}
-                                    className="flex items-center px-4 py-2 text-sm text-green-600 dark:text-green-400 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
-                                  >
-                                    <CheckCircle className="h-4 w-4 mr-2" />
-                                    Complete
-                                  </button>
-                                  <button
-                                    onClick={() => {
-                                      handleCancelTransaction(transaction);
-                                      setOpenActionMenu(null);
-                                    }}
-                                    className="flex items-center px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
-                                  >
-                                    <XCircle className="h-4 w-4 mr-2" />
-                                    Cancel
-                                  </button>
+                              {openActionMenu === order.id && (status === 'pending' || status === 'partial' || order.type === 'outbound') && (
+                                <div className="origin-top-right absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white dark:bg-gray-700 ring-1 ring-black ring-opacity-5 z-10">
+                                  <div className="py-1" role="menu">
+                                    {(status === 'pending' || status === 'partial') && (
+                                      <>
+                                        <button
+                                          onClick={() => {
+                                            handleCompleteOrder(orderLines);
+                                            setOpenActionMenu(null);
+                                          }}
+                                          className="flex items-center px-4 py-2 text-sm text-green-600 dark:text-green-400 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                        >
+                                          <CheckCircle className="h-4 w-4 mr-2" />
+                                          Complete Order
+                                        </button>
+                                        <button
+                                          onClick={() => {
+                                            handleCancelOrder(order, orderLines);
+                                            setOpenActionMenu(null);
+                                          }}
+                                          className="flex items-center px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                        >
+                                          <XCircle className="h-4 w-4 mr-2" />
+                                          Cancel Order
+                                        </button>
+                                      </>
+                                    )}
+                                    {order.type === 'outbound' && (
+                                      <button
+                                        onClick={() => {
+                                          handlePrintOrderSlip(order, orderLines);
+                                          setOpenActionMenu(null);
+                                        }}
+                                        className="flex items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 w-full text-left"
+                                      >
+                                        <Printer className="h-4 w-4 mr-2" />
+                                        Packing Slip
+                                      </button>
+                                    )}
+                                  </div>
                                 </div>
-                              </div>
-                            )}
-                          </div>
-                        </td>
-                      </tr>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                        {isExpanded && row.lines.map(line => renderTransactionRow(line, true))}
+                      </React.Fragment>
                     );
                   })
                 )}
@@ -374,6 +1212,8 @@ function Transactions() {
           </div>
         </div>
       </div>
+
+      <WavePanel onPick={openPickList} />
     </div>
   );
 }
@@ -0,0 +1,21 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { AbcOptions, defaultAbcOptions } from '../utils/abc';
+
+interface AbcState {
+  abcOptions: AbcOptions;
+  setAbcOptions: (options: Partial<AbcOptions>) => void;
+}
+
+// Basis and window shared by every screen that classifies products
+export const useAbcStore = create<AbcState>()(
+  persist(
+    (set) => ({
+      abcOptions: defaultAbcOptions,
+      setAbcOptions: (options) => set((state) => ({ abcOptions: { ...state.abcOptions, ...options } })),
+    }),
+    {
+      name: 'abc-storage',
+    }
+  )
+);
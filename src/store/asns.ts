@@ -0,0 +1,42 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { Asn } from '../types';
+
+interface AsnState {
+  asns: Asn[];
+  addAsn: (asn: Asn) => void;
+  updateAsn: (asn: Asn) => void;
+}
+
+export const useAsnStore = create<AsnState>()(
+  persist(
+    (set) => ({
+      asns: [],
+
+      addAsn: (asn) =>
+        set((state) => ({
+          asns: [...state.asns, asn],
+        })),
+
+      updateAsn: (asn) =>
+        set((state) => ({
+          asns: state.asns.map((a) =>
+            a.id === asn.id ? { ...asn, updatedAt: new Date() } : a
+          ),
+        })),
+    }),
+    {
+      name: 'asn-storage',
+      onRehydrateStorage: () => (state) => {
+        // Convert date strings back to Date objects
+        if (state?.asns) {
+          state.asns = state.asns.map(asn => ({
+            ...asn,
+            createdAt: new Date(asn.createdAt),
+            updatedAt: new Date(asn.updatedAt)
+          }));
+        }
+      },
+    }
+  )
+);
@@ -0,0 +1,48 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { Consignee } from '../types';
+
+interface ConsigneeState {
+  consignees: Consignee[];
+  addConsignee: (consignee: Consignee) => void;
+  updateConsignee: (consignee: Consignee) => void;
+  deleteConsignee: (consigneeId: string) => void;
+}
+
+export const useConsigneeStore = create<ConsigneeState>()(
+  persist(
+    (set) => ({
+      consignees: [],
+
+      addConsignee: (consignee) =>
+        set((state) => ({
+          consignees: [...state.consignees, consignee],
+        })),
+
+      updateConsignee: (consignee) =>
+        set((state) => ({
+          consignees: state.consignees.map((c) =>
+            c.id === consignee.id ? { ...consignee, updatedAt: new Date() } : c
+          ),
+        })),
+
+      deleteConsignee: (consigneeId) =>
+        set((state) => ({
+          consignees: state.consignees.filter((c) => c.id !== consigneeId),
+        })),
+    }),
+    {
+      name: 'consignee-storage',
+      onRehydrateStorage: () => (state) => {
+        // Convert date strings back to Date objects
+        if (state?.consignees) {
+          state.consignees = state.consignees.map(consignee => ({
+            ...consignee,
+            createdAt: new Date(consignee.createdAt),
+            updatedAt: new Date(consignee.updatedAt)
+          }));
+        }
+      },
+    }
+  )
+);
@@ -0,0 +1,50 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { CycleCount } from '../types';
+
+interface CycleCountState {
+  cycleCounts: CycleCount[];
+  addCycleCount: (cycleCount: CycleCount) => void;
+  updateCycleCount: (cycleCount: CycleCount) => void;
+  deleteCycleCount: (cycleCountId: string) => void;
+}
+
+export const useCycleCountStore = create<CycleCountState>()(
+  persist(
+    (set) => ({
+      cycleCounts: [],
+
+      addCycleCount: (cycleCount) =>
+        set((state) => ({
+          cycleCounts: [...state.cycleCounts, cycleCount],
+        })),
+
+      updateCycleCount: (cycleCount) =>
+        set((state) => ({
+          cycleCounts: state.cycleCounts.map((c) =>
+            c.id === cycleCount.id ? { ...cycleCount, updatedAt: new Date() } : c
+          ),
+        })),
+
+      deleteCycleCount: (cycleCountId) =>
+        set((state) => ({
+          cycleCounts: state.cycleCounts.filter((c) => c.id !== cycleCountId),
+        })),
+    }),
+    {
+      name: 'cycle-count-storage',
+      onRehydrateStorage: () => (state) => {
+        // Convert date strings back to Date objects
+        if (state?.cycleCounts) {
+          state.cycleCounts = state.cycleCounts.map(cycleCount => ({
+            ...cycleCount,
+            createdAt: new Date(cycleCount.createdAt),
+            updatedAt: new Date(cycleCount.updatedAt),
+            submittedAt: cycleCount.submittedAt ? new Date(cycleCount.submittedAt) : undefined,
+            reviewedAt: cycleCount.reviewedAt ? new Date(cycleCount.reviewedAt) : undefined
+          }));
+        }
+      },
+    }
+  )
+);
@@ -0,0 +1,33 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { ReceivingDiscrepancy } from '../types';
+
+interface DiscrepancyState {
+  discrepancies: ReceivingDiscrepancy[];
+  addDiscrepancy: (discrepancy: ReceivingDiscrepancy) => void;
+}
+
+export const useDiscrepancyStore = create<DiscrepancyState>()(
+  persist(
+    (set) => ({
+      discrepancies: [],
+
+      addDiscrepancy: (discrepancy) =>
+        set((state) => ({
+          discrepancies: [...state.discrepancies, discrepancy],
+        })),
+    }),
+    {
+      name: 'discrepancy-storage',
+      onRehydrateStorage: () => (state) => {
+        // Convert date strings back to Date objects
+        if (state?.discrepancies) {
+          state.discrepancies = state.discrepancies.map(discrepancy => ({
+            ...discrepancy,
+            createdAt: new Date(discrepancy.createdAt)
+          }));
+        }
+      },
+    }
+  )
+);
@@ -1,7 +1,13 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { AlertType, Product, Transaction } from '../types';
+import { AlertType, LocationStock, LotStock, Product, SerialRecord, Transaction } from '../types';
 import { calculateUnitCBM, calculateTotalCBM } from '../utils/calculations';
+import { adjustLocationStock, applyStatusChange, getTotalQuantity, hasNegativeStock, removeStock } from '../utils/stock';
+import { consumeLots, receiveLot, suggestFefoAllocation } from '../utils/lots';
+import { moveSerials, receiveSerials, shipSerials, writeOffSerials } from '../utils/serials';
+import { postKitWorkflow } from '../utils/kits';
+import { fillBackorders } from '../utils/backorders';
+import { useOrderStore } from './orders';
 
 interface AlertState {
   message: string | null;
@@ -22,12 +28,17 @@ export const useAlertStore = create<AlertState>((set) => ({
 interface InventoryState {
   products: Product[];
   transactions: Transaction[];
+  stock: LocationStock[];
+  lots: LotStock[];
+  serials: SerialRecord[];
   addProduct: (product: Product) => void;
   updateProduct: (product: Product) => void;
   deleteProduct: (productId: string) => void;
   addTransaction: (transaction: Transaction) => void;
   updateTransaction: (transaction: Transaction) => void;
-  completeTransaction: (transaction: Transaction) => void;
+  // Both return false when the workflow would leave stock the ledger can't cover
+  completeTransaction: (transaction: Transaction) => boolean;
+  postWorkflow: (transaction: Transaction) => boolean;
 }
 
 export const useInventoryStore = create<InventoryState>()(
@@ -35,23 +46,33 @@ export const useInventoryStore = create<InventoryState>()(
     (set, get) => ({
       products: [],
       transactions: [],
+      stock: [],
+      lots: [],
+      serials: [],
       addProduct: (product) => {
         const totalCbm = product.quantity * product.unitCbm;
         set((state) => ({
           products: [...state.products, { ...product, cbm: totalCbm }],
+          stock: product.quantity > 0
+            ? adjustLocationStock(state.stock, product.id, product.location, Number(product.quantity))
+            : state.stock,
         }));
       },
-      updateProduct: (product) => {
-        const totalCbm = product.quantity * product.unitCbm;
+      // Quantity only changes through workflows, so the stored quantity is kept
+      updateProduct: (product) =>
         set((state) => ({
           products: state.products.map((p) =>
-            p.id === product.id ? { ...product, cbm: totalCbm } : p
+            p.id === product.id
+              ? { ...product, quantity: p.quantity, cbm: p.quantity * product.unitCbm }
+              : p
           ),
-        }));
-      },
+        })),
       deleteProduct: (productId) =>
         set((state) => ({
           products: state.products.filter((p) => p.id !== productId),
+          stock: state.stock.filter((s) => s.productId !== productId),
+          lots: state.lots.filter((l) => l.productId !== productId),
+          serials: state.serials.filter((s) => s.productId !== productId),
         })),
       addTransaction: (transaction) =>
         set((state) => ({
@@ -65,44 +86,195 @@ export const useInventoryStore = create<InventoryState>()(
         })),
       completeTransaction: (transaction) => {
         const { products } = get();
+
+        // Kit workflows move the kit and all of its components in one update
+        if (transaction.type === 'assemble' || transaction.type === 'disassemble') {
+          const posted = postKitWorkflow(transaction, products, get().stock, get().lots);
+          if (!posted || posted.products.some(p => hasNegativeStock(posted.stock, p.id))) return false;
+          set((state) => ({
+            ...posted,
+            transactions: state.transactions.map((t) =>
+              t.id === transaction.id ? { ...transaction, status: 'completed', updatedAt: new Date() } : t
+            ),
+          }));
+          return true;
+        }
+
         const product = products.find(p => p.id === transaction.productId);
         
-        if (!product) return;
+        if (!product) return false;
 
         let newQuantity;
+        let newStock;
+        let newLots = get().lots;
+        let newSerials = get().serials;
+        let lotAllocations = transaction.lotAllocations;
+        let statusQuantities = product.statusQuantities;
         if (transaction.type === 'inbound') {
           newQuantity = Number(product.quantity) + Number(transaction.quantity);
+          newStock = adjustLocationStock(
+            get().stock,
+            product.id,
+            transaction.location || product.location,
+            Number(transaction.quantity)
+          );
+          // Damaged units are received into stock but held out of available
+          if (Number(transaction.damagedQuantity) > 0) {
+            statusQuantities = applyStatusChange(statusQuantities, 'available', 'damaged', Number(transaction.damagedQuantity));
+          }
+          // Stock received into a held status, such as returns awaiting inspection
+          if (transaction.stockStatus && transaction.stockStatus !== 'available') {
+            statusQuantities = applyStatusChange(statusQuantities, 'available', transaction.stockStatus, Number(transaction.quantity));
+          }
+          if (transaction.lotNumber) {
+            newLots = receiveLot(
+              newLots,
+              product.id,
+              transaction.lotNumber,
+              Number(transaction.quantity),
+              transaction.expiryDate
+            );
+          }
+          if (transaction.serialNumbers?.length) {
+            newSerials = receiveSerials(
+              newSerials,
+              product.id,
+              transaction.serialNumbers,
+              transaction.location || product.location,
+              transaction.workflowNumber
+            );
+          }
+        } else if (transaction.type === 'adjustment') {
+          // Adjustments carry a signed quantity posted to a single location
+          newQuantity = Number(product.quantity) + Number(transaction.quantity);
+          newStock = adjustLocationStock(
+            get().stock,
+            product.id,
+            transaction.location || product.location,
+            Number(transaction.quantity)
+          );
+          // Stock written off is taken from the earliest expiring lots
+          if (Number(transaction.quantity) < 0) {
+            lotAllocations = suggestFefoAllocation(newLots, product.id, -Number(transaction.quantity));
+            newLots = consumeLots(newLots, product.id, lotAllocations);
+          }
+          if (transaction.serialNumbers?.length) {
+            newSerials = Number(transaction.quantity) > 0
+              ? receiveSerials(
+                  newSerials,
+                  product.id,
+                  transaction.serialNumbers,
+                  transaction.location || product.location,
+                  transaction.workflowNumber
+                )
+              : writeOffSerials(newSerials, product.id, transaction.serialNumbers, transaction.workflowNumber);
+          }
+          // Stock adjusted while held changes the quantity in that status
+          if (transaction.stockStatus && transaction.stockStatus !== 'available') {
+            statusQuantities = applyStatusChange(statusQuantities, 'available', transaction.stockStatus, Number(transaction.quantity));
+          }
+        } else if (transaction.type === 'status_change') {
+          // Status changes move stock between statuses without changing the total
+          newQuantity = Number(product.quantity);
+          newStock = get().stock;
+          statusQuantities = applyStatusChange(
+            statusQuantities,
+            transaction.fromStatus,
+            transaction.toStatus,
+            Number(transaction.quantity)
+          );
+        } else if (transaction.type === 'transfer') {
+          // Transfers move stock between locations without changing the total
+          newQuantity = Number(product.quantity);
+          newStock = adjustLocationStock(
+            removeStock(get().stock, product.id, Number(transaction.quantity), transaction.location),
+            product.id,
+            transaction.toLocation,
+            Number(transaction.quantity)
+          );
+          if (transaction.serialNumbers?.length) {
+            newSerials = moveSerials(newSerials, product.id, transaction.serialNumbers, transaction.toLocation, transaction.workflowNumber);
+          }
         } else {
+          // Without a location the outbound is taken across bins, which must hold all of it
+          if (!transaction.location && getTotalQuantity(get().stock, product.id) < Number(transaction.quantity)) return false;
           newQuantity = Number(product.quantity) - Number(transaction.quantity);
+          newStock = removeStock(get().stock, product.id, Number(transaction.quantity), transaction.location);
+          // Pick the lots chosen at completion, falling back to FEFO
+          if (!lotAllocations) {
+            lotAllocations = suggestFefoAllocation(newLots, product.id, Number(transaction.quantity));
+          }
+          newLots = consumeLots(newLots, product.id, lotAllocations);
+          if (transaction.serialNumbers?.length) {
+            newSerials = shipSerials(newSerials, product.id, transaction.serialNumbers, transaction.workflowNumber);
+          }
         }
 
+        // A move can never take a location below zero
+        if (hasNegativeStock(newStock, product.id)) return false;
+
         const totalCbm = newQuantity * product.unitCbm;
 
         const updatedProduct = {
           ...product,
           quantity: newQuantity,
           cbm: totalCbm,
+          statusQuantities,
           updatedAt: new Date()
         };
 
         const updatedTransaction = {
           ...transaction,
+          lotAllocations: lotAllocations?.length ? lotAllocations : undefined,
           status: 'completed',
           updatedAt: new Date()
         };
 
-        set((state) => ({
-          products: state.products.map((p) =>
-            p.id === product.id ? updatedProduct : p
-          ),
-          transactions: state.transactions.map((t) =>
+        set((state) => {
+          const transactions = state.transactions.map((t) =>
             t.id === transaction.id ? updatedTransaction : t
-          ),
+          );
+          return {
+            products: state.products.map((p) =>
+              p.id === product.id ? updatedProduct : p
+            ),
+            // Received stock goes to the SKU's backorders first, in priority order
+            transactions: transaction.type === 'inbound'
+              ? fillBackorders(transactions, useOrderStore.getState().orders, updatedProduct)
+              : transactions,
+            stock: newStock,
+            lots: newLots,
+            serials: newSerials,
+          };
+        });
+        return true;
+      },
+      // Record a workflow that takes effect immediately, such as an adjustment or status change.
+      // A workflow that can't be posted is not kept, so nothing is left pending.
+      postWorkflow: (transaction) => {
+        const { addTransaction, completeTransaction } = get();
+        addTransaction(transaction);
+        if (completeTransaction(transaction)) return true;
+        set((state) => ({
+          transactions: state.transactions.filter((t) => t.id !== transaction.id),
         }));
+        return false;
       },
     }),
     {
       name: 'inventory-storage',
+      onRehydrateStorage: () => (state) => {
+        // Seed the location ledger for products stored before it existed
+        if (state) {
+          const unseeded = state.products.filter(p =>
+            p.quantity > 0 && !state.stock.some(s => s.productId === p.id)
+          );
+          state.stock = [
+            ...state.stock,
+            ...unseeded.map(p => ({ productId: p.id, location: p.location, quantity: Number(p.quantity) })),
+          ];
+        }
+      },
     }
   )
 );
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { WarehouseLocation } from '../types';
+
+interface LocationState {
+  locations: WarehouseLocation[];
+  addLocation: (location: WarehouseLocation) => void;
+  updateLocation: (location: WarehouseLocation) => void;
+  deleteLocation: (locationId: string) => void;
+  isCodeUnique: (code: string, excludeId?: string) => boolean;
+}
+
+export const useLocationStore = create<LocationState>()(
+  persist(
+    (set, get) => ({
+      locations: [],
+
+      isCodeUnique: (code: string, excludeId?: string): boolean => {
+        const { locations } = get();
+        return !locations.some(l =>
+          l.code === code &&
+          (!excludeId || l.id !== excludeId)
+        );
+      },
+
+      addLocation: (location) => {
+        const { isCodeUnique } = get();
+        if (!isCodeUnique(location.code)) {
+          throw new Error('Location code already exists');
+        }
+        set((state) => ({
+          locations: [...state.locations, location],
+        }));
+      },
+
+      updateLocation: (location) => {
+        const { isCodeUnique } = get();
+        if (!isCodeUnique(location.code, location.id)) {
+          throw new Error('Location code already exists');
+        }
+        set((state) => ({
+          locations: state.locations.map((l) =>
+            l.id === location.id ? { ...location, updatedAt: new Date() } : l
+          ),
+        }));
+      },
+
+      deleteLocation: (locationId) =>
+        set((state) => ({
+          locations: state.locations.filter((l) => l.id !== locationId),
+        })),
+    }),
+    {
+      name: 'location-storage',
+      onRehydrateStorage: () => (state) => {
+        // Convert date strings back to Date objects
+        if (state?.locations) {
+          state.locations = state.locations.map(location => ({
+            ...location,
+            createdAt: new Date(location.createdAt),
+            updatedAt: new Date(location.updatedAt)
+          }));
+        }
+      },
+    }
+  )
+);
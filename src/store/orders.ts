@@ -0,0 +1,42 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { Order } from '../types';
+
+interface OrderState {
+  orders: Order[];
+  addOrder: (order: Order) => void;
+  updateOrder: (order: Order) => void;
+}
+
+export const useOrderStore = create<OrderState>()(
+  persist(
+    (set) => ({
+      orders: [],
+
+      addOrder: (order) =>
+        set((state) => ({
+          orders: [...state.orders, order],
+        })),
+
+      updateOrder: (order) =>
+        set((state) => ({
+          orders: state.orders.map((o) =>
+            o.id === order.id ? { ...order, updatedAt: new Date() } : o
+          ),
+        })),
+    }),
+    {
+      name: 'order-storage',
+      onRehydrateStorage: () => (state) => {
+        // Convert date strings back to Date objects
+        if (state?.orders) {
+          state.orders = state.orders.map(order => ({
+            ...order,
+            createdAt: new Date(order.createdAt),
+            updatedAt: new Date(order.updatedAt)
+          }));
+        }
+      },
+    }
+  )
+);
@@ -0,0 +1,53 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { BoxType, PackRecord } from '../types';
+
+interface PackingState {
+  boxes: BoxType[];
+  packRecords: PackRecord[];
+  addBox: (box: BoxType) => void;
+  updateBox: (box: BoxType) => void;
+  deleteBox: (boxId: string) => void;
+  addPackRecord: (record: PackRecord) => void;
+}
+
+export const usePackingStore = create<PackingState>()(
+  persist(
+    (set) => ({
+      boxes: [],
+      packRecords: [],
+
+      addBox: (box) =>
+        set((state) => ({
+          boxes: [...state.boxes, box],
+        })),
+
+      updateBox: (box) =>
+        set((state) => ({
+          boxes: state.boxes.map((b) => (b.id === box.id ? box : b)),
+        })),
+
+      deleteBox: (boxId) =>
+        set((state) => ({
+          boxes: state.boxes.filter((b) => b.id !== boxId),
+        })),
+
+      addPackRecord: (record) =>
+        set((state) => ({
+          packRecords: [...state.packRecords, record],
+        })),
+    }),
+    {
+      name: 'packing-storage',
+      onRehydrateStorage: () => (state) => {
+        // Convert date strings back to Date objects
+        if (state?.packRecords) {
+          state.packRecords = state.packRecords.map(record => ({
+            ...record,
+            packedAt: new Date(record.packedAt)
+          }));
+        }
+      },
+    }
+  )
+);
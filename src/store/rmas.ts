@@ -0,0 +1,44 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { Rma } from '../types';
+
+interface RmaState {
+  rmas: Rma[];
+  addRma: (rma: Rma) => void;
+  updateRma: (rma: Rma) => void;
+}
+
+export const useRmaStore = create<RmaState>()(
+  persist(
+    (set) => ({
+      rmas: [],
+
+      addRma: (rma) =>
+        set((state) => ({
+          rmas: [...state.rmas, rma],
+        })),
+
+      updateRma: (rma) =>
+        set((state) => ({
+          rmas: state.rmas.map((r) =>
+            r.id === rma.id ? { ...rma, updatedAt: new Date() } : r
+          ),
+        })),
+    }),
+    {
+      name: 'rma-storage',
+      onRehydrateStorage: () => (state) => {
+        // Convert date strings back to Date objects
+        if (state?.rmas) {
+          state.rmas = state.rmas.map(rma => ({
+            ...rma,
+            receivedAt: rma.receivedAt ? new Date(rma.receivedAt) : undefined,
+            inspectedAt: rma.inspectedAt ? new Date(rma.inspectedAt) : undefined,
+            createdAt: new Date(rma.createdAt),
+            updatedAt: new Date(rma.updatedAt)
+          }));
+        }
+      },
+    }
+  )
+);
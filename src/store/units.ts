@@ -0,0 +1,21 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { UnitSystem } from '../types';
+import { defaultDimWeightDivisors } from '../utils/calculations';
+
+interface UnitState {
+  dimWeightDivisors: Record<UnitSystem, number>;
+  setDimWeightDivisors: (divisors: Record<UnitSystem, number>) => void;
+}
+
+export const useUnitStore = create<UnitState>()(
+  persist(
+    (set) => ({
+      dimWeightDivisors: defaultDimWeightDivisors,
+      setDimWeightDivisors: (divisors) => set({ dimWeightDivisors: divisors }),
+    }),
+    {
+      name: 'unit-storage',
+    }
+  )
+);
@@ -0,0 +1,55 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { Wave } from '../types';
+
+interface WaveState {
+  waves: Wave[];
+  cutoffTimes: string[];
+  addWave: (wave: Wave) => void;
+  updateWave: (wave: Wave) => void;
+  deleteWave: (waveId: string) => void;
+  setCutoffTimes: (cutoffTimes: string[]) => void;
+}
+
+export const useWaveStore = create<WaveState>()(
+  persist(
+    (set) => ({
+      waves: [],
+      cutoffTimes: ['11:00', '16:00'],
+
+      addWave: (wave) =>
+        set((state) => ({
+          waves: [...state.waves, wave],
+        })),
+
+      updateWave: (wave) =>
+        set((state) => ({
+          waves: state.waves.map((w) =>
+            w.id === wave.id ? { ...wave, updatedAt: new Date() } : w
+          ),
+        })),
+
+      deleteWave: (waveId) =>
+        set((state) => ({
+          waves: state.waves.filter((w) => w.id !== waveId),
+        })),
+
+      setCutoffTimes: (cutoffTimes) => set({ cutoffTimes }),
+    }),
+    {
+      name: 'wave-storage',
+      onRehydrateStorage: () => (state) => {
+        // Convert date strings back to Date objects
+        if (state?.waves) {
+          state.waves = state.waves.map(wave => ({
+            ...wave,
+            releasedAt: wave.releasedAt ? new Date(wave.releasedAt) : undefined,
+            shippedAt: wave.shippedAt ? new Date(wave.shippedAt) : undefined,
+            createdAt: new Date(wave.createdAt),
+            updatedAt: new Date(wave.updatedAt)
+          }));
+        }
+      },
+    }
+  )
+);
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeAbc } from '../utils/abc';
+import { Product, Transaction } from '../types';
+
+const today = new Date(2026, 5, 30);
+
+const products = [
+  { id: 'mug', sku: 'MUG', unitCbm: 0.001 },
+  { id: 'desk', sku: 'DESK', unitCbm: 0.5 },
+  { id: 'pen', sku: 'PEN', unitCbm: 0.0001 },
+] as Product[];
+
+const shipment = (productId: string, quantity: number, daysAgo: number) =>
+  ({
+    id: `${productId}-${daysAgo}`,
+    type: 'outbound',
+    productId,
+    quantity,
+    status: 'completed',
+    createdAt: new Date(2026, 5, 30 - daysAgo),
+  }) as Transaction;
+
+const transactions = [
+  shipment('mug', 90, 1),
+  shipment('mug', 90, 8),
+  shipment('desk', 20, 2),
+  shipment('pen', 500, 200),
+];
+
+describe('abc analysis', () => {
+  it('should rank by units shipped in the window and classify variability', () => {
+    const analysis = analyzeAbc(products, transactions, { basis: 'quantity', windowDays: 14 }, today);
+
+    expect(analysis.map(a => [a.product.id, a.abcClass, a.xyzClass])).toEqual([
+      ['mug', 'A', 'X'],
+      ['desk', 'B', 'Y'],
+      ['pen', 'C', 'Z'],
+    ]);
+  });
+
+  it('should rank by CBM shipped when classifying by CBM', () => {
+    const analysis = analyzeAbc(products, transactions, { basis: 'cbm', windowDays: 14 }, today);
+
+    expect(analysis[0]?.product.id).toBe('desk');
+    expect(analysis[0]?.abcClass).toBe('A');
+  });
+});
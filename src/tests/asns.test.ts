@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { getAsnStatus } from '../utils/asns';
+import { Asn, Transaction } from '../types';
+
+const asn = {
+  id: 'asn',
+  lines: [
+    { id: 'l1', productId: 'mug', expectedQuantity: 5, transactionId: 't1' },
+    { id: 'l2', productId: 'cup', expectedQuantity: 5, transactionId: 't2' },
+  ],
+} as Asn;
+
+const line = (id: string, status: string) => ({ id, type: 'inbound', status, quantity: 5 }) as Transaction;
+
+describe('asn status', () => {
+  it('should leave cancelled lines out of the received status', () => {
+    expect(getAsnStatus(asn, [line('t1', 'completed'), line('t2', 'cancelled')])).toBe('received');
+    expect(getAsnStatus(asn, [line('t1', 'pending'), line('t2', 'cancelled')])).toBe('open');
+    expect(getAsnStatus(asn, [line('t1', 'cancelled'), line('t2', 'cancelled')])).toBe('cancelled');
+  });
+});
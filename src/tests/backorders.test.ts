@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { fillBackorders, getAvailableAfterBackorders } from '../utils/backorders';
+import { Order, Product, Transaction } from '../types';
+
+const product = { id: 'mug', sku: 'MUG', quantity: 8 } as Product;
+
+const orders = [
+  { id: 'low', priority: 'low' },
+  { id: 'urgent', priority: 'urgent' },
+  { id: 'high', priority: 'high' },
+] as Order[];
+
+const backorder = (id: string, quantity: number, day: number) =>
+  ({
+    id,
+    type: 'outbound',
+    productId: 'mug',
+    quantity,
+    status: 'backordered',
+    orderId: id,
+    createdAt: new Date(2026, 0, day),
+  }) as Transaction;
+
+describe('backorders', () => {
+  it('should fill backorders by priority and stop at the first that does not fit', () => {
+    const transactions = [backorder('low', 1, 1), backorder('urgent', 5, 2), backorder('high', 4, 3)];
+    const filled = fillBackorders(transactions, orders, product);
+
+    expect(filled.map(t => t.status)).toEqual(['backordered', 'pending', 'backordered']);
+    expect(filled[1]?.backorderFilledAt).toBeInstanceOf(Date);
+  });
+
+  it('should hold stock back for open backorders when placing new lines', () => {
+    expect(getAvailableAfterBackorders(product, [backorder('low', 5, 1)])).toBe(3);
+    expect(getAvailableAfterBackorders(product, [])).toBe(8);
+  });
+});
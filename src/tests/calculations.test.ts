@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDimWeight, calculateProductCBM, calculateUnitCBM, getProductDimensions, getProductWeight } from '../utils/calculations';
+import { Product } from '../types';
+
+const imperial = { id: 'a', length: 10, width: 10, height: 10, weight: 2 } as Product;
+const metric = { id: 'b', length: 50, width: 40, height: 30, weight: 5, dimensionUnit: 'cm', weightUnit: 'kg' } as Product;
+
+describe('calculations', () => {
+  it('should convert product units and treat products without units as inches and pounds', () => {
+    expect(getProductDimensions(imperial, 'cm').length).toBeCloseTo(25.4);
+    expect(getProductWeight(metric, 'lb')).toBeCloseTo(11.023, 3);
+    expect(calculateUnitCBM(100, 100, 100, 'cm')).toBe(1);
+    expect(calculateProductCBM(metric, 10)).toBe(0.6);
+  });
+
+  it('should compute dimensional weight with the system divisor', () => {
+    expect(calculateDimWeight(metric, 'metric')).toBe(12);
+    expect(calculateDimWeight(imperial, 'imperial')).toBe(7.19);
+    expect(calculateDimWeight(metric, 'metric', { metric: 6000, imperial: 166 })).toBe(10);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { getPackSummary, isLinePacked, suggestCartons } from '../utils/cartonization';
+import { BoxType, PackRecord, Product, Transaction } from '../types';
+
+const boxes: BoxType[] = [
+  { id: 'large', name: 'Large', length: 20, width: 20, height: 20, maxWeight: 50, tareWeight: 2 },
+  { id: 'small', name: 'Small', length: 10, width: 10, height: 10, maxWeight: 20, tareWeight: 1 },
+];
+
+const products = [
+  { id: 'cube', length: 5, width: 5, height: 5, weight: 1 },
+  { id: 'rod', length: 2, width: 2, height: 18, weight: 3 },
+  { id: 'loose', length: 0, width: 0, height: 0, weight: 1 },
+] as Product[];
+
+describe('cartonization', () => {
+  it('should choose the smallest box that takes every item', () => {
+    const { cartons } = suggestCartons([{ productId: 'cube', quantity: 8 }], products, boxes);
+    expect(cartons).toEqual([{ boxId: 'small', items: [{ productId: 'cube', quantity: 8 }], weight: 9 }]);
+  });
+
+  it('should turn items to fit and open more cartons when needed', () => {
+    const { cartons } = suggestCartons([{ productId: 'cube', quantity: 9 }, { productId: 'rod', quantity: 1 }], products, boxes);
+    expect(cartons.map(c => c.boxId)).toEqual(['large']);
+    const { cartons: heavy } = suggestCartons([{ productId: 'rod', quantity: 20 }], products, boxes);
+    expect(heavy.length).toBeGreaterThan(1);
+    expect(heavy.every(c => c.weight <= 50)).toBe(true);
+  });
+
+  it('should leave items without dimensions unpacked', () => {
+    const { unpacked } = suggestCartons([{ productId: 'loose', quantity: 2 }], products, boxes);
+    expect(unpacked).toEqual([{ productId: 'loose', quantity: 2 }]);
+  });
+
+  it('should pack backorders filled later in a further record and total every record', () => {
+    const carton = (weight: number) => ({ cartonNumber: 'c', boxId: 'small', weight, items: [] });
+    const records = [
+      { id: 'r1', workflowNumber: 'WF-1', transactionIds: ['t1'], cartons: [carton(4), carton(5)], packedAt: new Date() },
+      { id: 'r2', workflowNumber: 'WF-1', transactionIds: ['t2'], cartons: [carton(2.5)], packedAt: new Date() },
+    ] as PackRecord[];
+
+    expect(isLinePacked(records.slice(0, 1), { id: 't2', workflowNumber: 'WF-1' } as Transaction)).toBe(false);
+    expect(isLinePacked(records, { id: 't2', workflowNumber: 'WF-1' } as Transaction)).toBe(true);
+    expect(getPackSummary(records, 'WF-1')).toEqual({ cartons: 3, weight: 11.5 });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { buildDemandSeries, forecastProduct, projectDemand } from '../utils/forecasting';
+import { Product, Transaction } from '../types';
+
+const today = new Date(2026, 5, 30);
+
+const product = { id: 'mug', sku: 'MUG', quantity: 21 } as Product;
+
+const shipment = (id: string, quantity: number, daysAgo: number, status = 'completed') =>
+  ({
+    id,
+    type: 'outbound',
+    productId: 'mug',
+    quantity,
+    status,
+    createdAt: new Date(2026, 5, 30 - daysAgo),
+  }) as Transaction;
+
+describe('forecasting', () => {
+  it('should bucket completed outbound quantities into periods ending today', () => {
+    const transactions = [shipment('a', 3, 0), shipment('b', 2, 6), shipment('c', 5, 7), shipment('d', 9, 1, 'pending')];
+
+    expect(buildDemandSeries(transactions, 'mug', 'week', 3, today)).toEqual([0, 5, 5]);
+    expect(buildDemandSeries(transactions, 'mug', 'day', 2, today)).toEqual([0, 3]);
+  });
+
+  it('should project days of cover and a stock-out date from the moving average', () => {
+    const transactions = [shipment('a', 14, 0), shipment('b', 14, 7)];
+    const forecast = forecastProduct(product, transactions, {
+      model: 'moving_average',
+      interval: 'week',
+      periods: 4,
+      window: 2,
+      alpha: 0.3,
+      horizonDays: 365
+    }, today);
+
+    expect(forecast.dailyDemand).toBe(2);
+    expect(forecast.daysOfCover).toBe(10.5);
+    expect(forecast.stockOutDate).toEqual(new Date(2026, 6, 10));
+  });
+
+  it('should repeat the last full season and fall back to the last period without one', () => {
+    const options = { model: 'seasonal_naive', interval: 'day', window: 7, alpha: 0.3 } as const;
+    const twoWeeks = [9, 9, 9, 9, 9, 9, 9, 1, 2, 3, 4, 5, 6, 7];
+
+    expect(projectDemand(twoWeeks, options, 9)).toEqual([1, 2, 3, 4, 5, 6, 7, 1, 2]);
+    expect(projectDemand([4, 6, 8], options, 3)).toEqual([8, 8, 8]);
+  });
+
+  it('should smooth demand towards recent periods and report no cover when nothing is available', () => {
+    const options = { model: 'exponential_smoothing', interval: 'week', window: 4, alpha: 0.5 } as const;
+
+    expect(projectDemand([10, 20, 30], options, 2)).toEqual([22.5, 22.5]);
+
+    const forecast = forecastProduct({ ...product, quantity: 0 }, [shipment('a', 14, 0)], {
+      ...options,
+      periods: 4,
+      horizonDays: 365
+    }, today);
+    expect(forecast.daysOfCover).toBe(0);
+    expect(forecast.stockOutDate).toEqual(today);
+  });
+});
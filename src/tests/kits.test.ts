@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { getAvailableToBuild, postKitWorkflow } from '../utils/kits';
+import { LocationStock, Product, Transaction } from '../types';
+
+const products = [
+  { id: 'kit', sku: 'GIFT', quantity: 0, unitCbm: 0, location: 'K-01', components: [{ productId: 'mug', quantity: 2 }, { productId: 'tea', quantity: 1 }] },
+  { id: 'mug', sku: 'MUG', quantity: 10, unitCbm: 0, location: 'A-01' },
+  { id: 'tea', sku: 'TEA', quantity: 3, unitCbm: 0, location: 'A-02' },
+] as Product[];
+
+const stock: LocationStock[] = [
+  { productId: 'mug', location: 'A-01', quantity: 10 },
+  { productId: 'tea', location: 'A-02', quantity: 3 },
+];
+
+const workflow = (type: 'assemble' | 'disassemble', quantity: number) =>
+  ({ id: 't1', type, productId: 'kit', quantity, location: 'K-01' }) as Transaction;
+
+describe('kits', () => {
+  it('should limit available to build by the scarcest component', () => {
+    expect(getAvailableToBuild(products[0] as Product, products, [])).toBe(3);
+  });
+
+  it('should consume components and produce kits together', () => {
+    const posted = postKitWorkflow(workflow('assemble', 3), products, stock, []);
+    expect(posted?.products.map(p => p.quantity)).toEqual([3, 4, 0]);
+    expect(posted?.stock).toEqual([
+      { productId: 'mug', location: 'A-01', quantity: 4 },
+      { productId: 'kit', location: 'K-01', quantity: 3 },
+    ]);
+
+    const undone = postKitWorkflow(workflow('disassemble', 1), posted!.products, posted!.stock, []);
+    expect(undone?.products.map(p => p.quantity)).toEqual([2, 6, 1]);
+  });
+
+  it('should change nothing when a component is short', () => {
+    expect(postKitWorkflow(workflow('assemble', 4), products, stock, [])).toBeNull();
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { defaultPalletSpec, planContainerFill, planPallets } from '../utils/loadPlanning';
+import { Product } from '../types';
+
+const products = [
+  { id: 'carton', length: 12, width: 10, height: 9, weight: 20 },
+  { id: 'heavy', length: 24, width: 20, height: 6, weight: 200 },
+  { id: 'loose', length: 0, width: 0, height: 0, weight: 1 },
+] as Product[];
+
+describe('load planning', () => {
+  it('should build full and part pallets within the stacking height', () => {
+    const { groups } = planPallets([{ productId: 'carton', quantity: 100 }], products, defaultPalletSpec);
+    // 16 per layer on a 48 x 40 pallet, 6 layers under the 60 in limit
+    expect(groups.map(g => [g.pallets, g.units])).toEqual([[1, 96], [1, 4]]);
+    expect(groups[0]?.layers).toHaveLength(6);
+    expect(groups[0]?.height).toBe(60);
+    expect(groups[1]?.layers).toEqual([{ layer: 1, units: 4, height: 15 }]);
+  });
+
+  it('should stop a pallet at the weight limit and skip items without dimensions', () => {
+    const { groups, unpalletised } = planPallets(
+      [{ productId: 'heavy', quantity: 20 }, { productId: 'loose', quantity: 3 }],
+      products,
+      defaultPalletSpec
+    );
+    expect(groups.map(g => [g.pallets, g.units])).toEqual([[2, 10]]);
+    expect(unpalletised).toEqual([{ productId: 'loose', quantity: 3 }]);
+  });
+
+  it('should count containers by floor positions and stacking', () => {
+    const { groups } = planPallets([{ productId: 'carton', quantity: 96 * 10 }], products, defaultPalletSpec);
+    const floor = planContainerFill(groups, products, defaultPalletSpec, '20ft');
+    expect(floor.positions).toBe(8);
+    expect(floor.containers).toBe(2);
+
+    // 60 in pallets cannot go two high, 42 in pallets can
+    const tall = planContainerFill(groups, products, { ...defaultPalletSpec, stackable: true }, '40hc');
+    expect(tall.stacks).toBe(10);
+
+    const lowSpec = { ...defaultPalletSpec, maxHeight: 50, stackable: true };
+    const low = planPallets([{ productId: 'carton', quantity: 64 * 10 }], products, lowSpec);
+    const stacked = planContainerFill(low.groups, products, lowSpec, '20ft');
+    expect(stacked.stacks).toBe(5);
+    expect(stacked.containers).toBe(1);
+  });
+});
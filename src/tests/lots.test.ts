@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { consumeLots, getExpiringLots, receiveLot, suggestFefoAllocation } from '../utils/lots';
+import { LotStock } from '../types';
+
+const lots: LotStock[] = [
+  { productId: 'p1', lotNumber: 'L2', expiryDate: '2025-03-01', quantity: 10 },
+  { productId: 'p1', lotNumber: 'L3', quantity: 8 },
+  { productId: 'p1', lotNumber: 'L1', expiryDate: '2025-01-15', quantity: 4 },
+  { productId: 'p2', lotNumber: 'L9', expiryDate: '2025-01-01', quantity: 6 },
+];
+
+describe('lot tracking', () => {
+  it('should suggest the earliest expiring lots first', () => {
+    expect(suggestFefoAllocation(lots, 'p1', 12)).toEqual([
+      { lotNumber: 'L1', quantity: 4 },
+      { lotNumber: 'L2', quantity: 8 },
+    ]);
+  });
+
+  it('should pick lots without an expiry date last', () => {
+    expect(suggestFefoAllocation(lots, 'p1', 20).at(-1)).toEqual({ lotNumber: 'L3', quantity: 6 });
+  });
+
+  it('should merge receipts into an existing lot', () => {
+    const updated = receiveLot(lots, 'p1', 'L1', 6, '2025-01-15');
+    expect(updated.find(l => l.lotNumber === 'L1')?.quantity).toBe(10);
+    expect(updated).toHaveLength(4);
+  });
+
+  it('should drop lots once they are fully consumed', () => {
+    const updated = consumeLots(lots, 'p1', [{ lotNumber: 'L1', quantity: 4 }]);
+    expect(updated.some(l => l.lotNumber === 'L1')).toBe(false);
+  });
+
+  it('should list lots expiring within the window', () => {
+    const expiring = getExpiringLots(lots, 30, new Date('2025-01-01'));
+    expect(expiring.map(l => l.lotNumber)).toEqual(['L9', 'L1']);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { buildPickList } from '../utils/pickLists';
+import { LocationStock, Product, Transaction } from '../types';
+
+const products = [
+  { id: 'p1', sku: 'SKU-B' },
+  { id: 'p2', sku: 'SKU-A' },
+] as Product[];
+
+const stock: LocationStock[] = [
+  { productId: 'p1', location: 'B-01', quantity: 5 },
+  { productId: 'p1', location: 'A-02', quantity: 3 },
+  { productId: 'p2', location: 'A-02', quantity: 10 },
+];
+
+const outbound = (id: string, productId: string, quantity: number, location?: string) => ({
+  id, productId, quantity, location, type: 'outbound', status: 'pending', workflowNumber: id
+}) as Transaction;
+
+describe('pick lists', () => {
+  it('should consolidate outbounds by SKU and location', () => {
+    const lines = buildPickList([outbound('t1', 'p2', 4), outbound('t2', 'p2', 3)], stock, products);
+    expect(lines).toEqual([{ productId: 'p2', location: 'A-02', quantity: 7, transactionIds: ['t1', 't2'] }]);
+  });
+
+  it('should sort picks by location code and SKU', () => {
+    const lines = buildPickList([outbound('t1', 'p1', 6), outbound('t2', 'p2', 1)], stock, products);
+    expect(lines.map(l => `${l.location} ${l.productId} ${l.quantity}`)).toEqual([
+      'A-02 p2 1',
+      'A-02 p1 3',
+      'B-01 p1 3',
+    ]);
+  });
+
+  it('should list quantity without stock last with no location', () => {
+    const lines = buildPickList([outbound('t1', 'p1', 10)], stock, products);
+    expect(lines.at(-1)).toEqual({ productId: 'p1', location: '', quantity: 2, transactionIds: ['t1'] });
+  });
+
+  it('should pick a chosen location only for what it holds', () => {
+    const lines = buildPickList([outbound('t1', 'p1', 4, 'A-02')], stock, products);
+    expect(lines).toEqual([
+      { productId: 'p1', location: 'A-02', quantity: 3, transactionIds: ['t1'] },
+      { productId: 'p1', location: '', quantity: 1, transactionIds: ['t1'] },
+    ]);
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { getReplenishmentSuggestion } from '../utils/replenishment';
+import { Product, Transaction } from '../types';
+
+const product = { id: 'mug', sku: 'MUG', vendorNumber: 'V1', quantity: 12, minStockLevel: 5, reorderPoint: 20, reorderQuantity: 24 } as Product;
+
+describe('replenishment', () => {
+  it('should count stock on order and backordered against the reorder point', () => {
+    const transactions = [
+      { id: 'i1', type: 'inbound', productId: 'mug', quantity: 10, status: 'pending' },
+      { id: 'o1', type: 'outbound', productId: 'mug', quantity: 30, status: 'backordered' },
+    ] as Transaction[];
+
+    // Position 12 + 10 - 30 = -8, so two lots of 24 are needed to get back above 20
+    expect(getReplenishmentSuggestion(product, transactions)).toMatchObject({ position: -8, suggestedQuantity: 48 });
+    expect(getReplenishmentSuggestion({ ...product, reorderPoint: undefined }, [])).toBeNull();
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { buildDispositionWorkflows, getReturnableQuantity } from '../utils/rmas';
+import { Rma, Transaction } from '../types';
+
+const shipped = [
+  { id: 'o1', type: 'outbound', productId: 'mug', quantity: 6, status: 'completed', workflowNumber: 'WF1026-001' },
+  { id: 'o2', type: 'outbound', productId: 'mug', quantity: 4, status: 'completed', workflowNumber: 'WF1026-001' },
+] as Transaction[];
+
+const rma = {
+  id: 'r1',
+  rmaNumber: 'RMA1026-001',
+  outboundWorkflowNumber: 'WF1026-001',
+  vendorNumber: 'V1',
+  reason: 'Damaged',
+  status: 'received',
+  lines: [{ id: 'l1', productId: 'mug', quantity: 5, receivedQuantity: 5, location: 'R-01' }],
+} as Rma;
+
+describe('rmas', () => {
+  it('should only allow units not already claimed by another return', () => {
+    expect(getReturnableQuantity(shipped, [rma], 'WF1026-001', 'mug')).toBe(5);
+    expect(getReturnableQuantity(shipped, [{ ...rma, status: 'cancelled' }], 'WF1026-001', 'mug')).toBe(10);
+  });
+
+  it('should post one movement per disposition', () => {
+    const workflows = buildDispositionWorkflows(rma, rma.lines[0]!, [
+      { disposition: 'restock', quantity: 2, location: 'A-01' },
+      { disposition: 'quarantine', quantity: 1, location: 'R-01' },
+      { disposition: 'destroy', quantity: 2 },
+    ], []);
+
+    expect(workflows.map(t => [t.type, t.quantity])).toEqual([
+      ['status_change', 2],
+      ['transfer', 2],
+      ['adjustment', -2],
+    ]);
+    expect(workflows[1].toLocation).toBe('A-01');
+    expect(workflows[2].reasonCode).toBe('destroyed');
+    expect(new Set(workflows.map(t => t.workflowNumber)).size).toBe(3);
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { moveSerials, receiveSerials, shipSerials, validateSerials } from '../utils/serials';
+
+describe('serial ledger', () => {
+  it('should keep the history of a unit that is shipped and received again', () => {
+    let serials = receiveSerials([], 'cam', ['SN1'], 'A-01', 'WF-1');
+    serials = shipSerials(serials, 'cam', ['SN1'], 'WF-2');
+    serials = receiveSerials(serials, 'cam', ['SN1'], 'B-02', 'RT-1');
+
+    expect(serials).toHaveLength(1);
+    expect(serials[0]?.status).toBe('in_stock');
+    expect(serials[0]?.history?.map(m => m.workflowNumber)).toEqual(['WF-1', 'WF-2', 'RT-1']);
+  });
+
+  it('should move transferred units and only take units from their current location', () => {
+    const serials = moveSerials(receiveSerials([], 'cam', ['SN1', 'SN2'], 'A-01', 'WF-1'), 'cam', ['SN1'], 'B-02', 'TR-1');
+
+    expect(serials.find(s => s.serialNumber === 'SN1')?.location).toBe('B-02');
+    expect(validateSerials(serials, 'cam', ['SN1'], 1, 'out', 'A-01')).toBe('Serial number SN1 is not in location A-01');
+    expect(validateSerials(serials, 'cam', ['SN2'], 1, 'out', 'A-01')).toBeNull();
+  });
+});
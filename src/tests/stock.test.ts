@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { adjustLocationStock, getProductStock, getStockSummary, getTotalQuantity, getUnreservedLocationQuantity, removeStock } from '../utils/stock';
+import { LocationStock, Product, Transaction } from '../types';
+
+const stock: LocationStock[] = [
+  { productId: 'p1', location: 'B-02', quantity: 5 },
+  { productId: 'p1', location: 'A-01', quantity: 10 },
+  { productId: 'p2', location: 'A-01', quantity: 3 },
+];
+
+describe('stock ledger', () => {
+  it('should list product stock sorted by location', () => {
+    expect(getProductStock(stock, 'p1').map(s => s.location)).toEqual(['A-01', 'B-02']);
+  });
+
+  it('should add stock to a new location', () => {
+    const updated = adjustLocationStock(stock, 'p1', 'C-03', 7);
+    expect(getTotalQuantity(updated, 'p1')).toBe(22);
+  });
+
+  it('should drop a location once it is empty', () => {
+    const updated = adjustLocationStock(stock, 'p1', 'B-02', -5);
+    expect(getProductStock(updated, 'p1')).toHaveLength(1);
+  });
+
+  it('should remove stock from a specific location', () => {
+    const updated = removeStock(stock, 'p1', 4, 'B-02');
+    expect(getTotalQuantity(updated, 'p1')).toBe(11);
+    expect(updated.find(s => s.location === 'B-02')?.quantity).toBe(1);
+  });
+
+  it('should remove stock across locations in order when none is given', () => {
+    const updated = removeStock(stock, 'p1', 12);
+    expect(getProductStock(updated, 'p1')).toEqual([{ productId: 'p1', location: 'B-02', quantity: 3 }]);
+    expect(getTotalQuantity(updated, 'p2')).toBe(3);
+  });
+
+  it('should leave stock reserved by pending outbounds out of a location', () => {
+    const transactions = [
+      { id: 't1', type: 'outbound', status: 'pending', productId: 'p1', location: 'A-01', quantity: 10 },
+      { id: 't2', type: 'outbound', status: 'completed', productId: 'p1', location: 'A-01', quantity: 4 },
+    ] as Transaction[];
+    expect(getUnreservedLocationQuantity(stock, transactions, 'p1', 'A-01')).toBe(0);
+    expect(getUnreservedLocationQuantity(stock, transactions, 'p1', 'A-01', 't1')).toBe(10);
+  });
+});
+
+describe('stock summary', () => {
+  const product = { id: 'p1', quantity: 15 } as Product;
+  const transactions = [
+    { id: 't1', productId: 'p1', type: 'outbound', status: 'pending', quantity: 10 },
+    { id: 't2', productId: 'p1', type: 'outbound', status: 'completed', quantity: 4 },
+    { id: 't3', productId: 'p1', type: 'inbound', status: 'pending', quantity: 20 },
+    { id: 't4', productId: 'p2', type: 'outbound', status: 'pending', quantity: 2 },
+  ] as Transaction[];
+
+  it('should reserve stock for pending outbound workflows only', () => {
+    expect(getStockSummary(product, transactions)).toEqual({ onHand: 15, held: 0, reserved: 10, available: 5 });
+  });
+
+  it('should exclude held stock from the available quantity', () => {
+    const held = { ...product, statusQuantities: { quarantine: 3, damaged: 1 } } as Product;
+    expect(getStockSummary(held, transactions)).toEqual({ onHand: 15, held: 4, reserved: 10, available: 1 });
+  });
+
+  it('should ignore the workflow being edited', () => {
+    expect(getStockSummary(product, transactions, 't1').available).toBe(15);
+  });
+});
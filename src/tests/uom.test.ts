@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { formatMixedQuantity, toBaseQuantity, validateUoms } from '../utils/uom';
+import { Product } from '../types';
+
+const product = {
+  id: 'p1',
+  uoms: [
+    { level: 'case', unitsPerLevel: 24 },
+    { level: 'inner', unitsPerLevel: 6 },
+  ],
+} as Product;
+
+describe('units of measure', () => {
+  it('should convert pack levels to eaches and back into mixed units', () => {
+    expect(toBaseQuantity(product, 3, 'case')).toBe(72);
+    expect(toBaseQuantity(product, 5)).toBe(5);
+    expect(toBaseQuantity(product, 5, 'pallet')).toBeUndefined();
+    expect(formatMixedQuantity(product, 293)).toBe('12 cs + 5 ea');
+    expect(formatMixedQuantity(product, 30)).toBe('1 cs + 1 inr');
+    expect(formatMixedQuantity({ id: 'p2' } as Product, 7)).toBe('7 ea');
+  });
+
+  it('should require each level to hold more eaches than the one below', () => {
+    expect(validateUoms(product.uoms)).toBeNull();
+    expect(validateUoms([{ level: 'inner', unitsPerLevel: 6 }, { level: 'case', unitsPerLevel: 4 }])).toMatch(/Case/);
+    expect(validateUoms([{ level: 'case', unitsPerLevel: 1.5 }])).toMatch(/whole number/);
+  });
+});
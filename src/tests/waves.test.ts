@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { getCutoffSlot, planWaves } from '../utils/waves';
+import { Order, Transaction } from '../types';
+
+const outbound = (id: string, createdAt: string, orderId?: string) => ({
+  id, orderId, type: 'outbound', status: 'pending', productId: 'p1', quantity: 1, createdAt: new Date(createdAt)
+}) as Transaction;
+
+describe('wave planning', () => {
+  it('should assign workflows to the next cut-off', () => {
+    expect(getCutoffSlot(new Date('2024-10-18T09:30:00'), ['16:00', '11:00'])).toBe('2024-10-18 11:00');
+    expect(getCutoffSlot(new Date('2024-10-18T12:00:00'), ['11:00', '16:00'])).toBe('2024-10-18 16:00');
+    expect(getCutoffSlot(new Date('2024-10-18T17:15:00'), ['11:00', '16:00'])).toBe('2024-10-19 11:00');
+  });
+
+  it('should group by priority with the most urgent wave first', () => {
+    const orders = [
+      { id: 'o1', priority: 'low' },
+      { id: 'o2', priority: 'urgent' },
+    ] as Order[];
+    const transactions = [
+      outbound('t1', '2024-10-18T09:00:00', 'o1'),
+      outbound('t2', '2024-10-18T09:00:00', 'o2'),
+      outbound('t3', '2024-10-18T09:00:00'),
+    ];
+    const waves = planWaves(transactions, orders, [], 'priority', []);
+    expect(waves.map(w => [w.groupKey, w.transactionIds])).toEqual([
+      ['urgent', ['t2']],
+      ['normal', ['t3']],
+      ['low', ['t1']],
+    ]);
+  });
+
+  it('should skip workflows already in a wave', () => {
+    const transactions = [outbound('t1', '2024-10-18T09:00:00'), outbound('t2', '2024-10-18T09:00:00')];
+    const [existing] = planWaves([transactions[0]!], [], [], 'carrier', []);
+    const waves = planWaves(transactions, [], [existing!], 'carrier', []);
+    expect(waves).toHaveLength(1);
+    expect(waves[0]?.transactionIds).toEqual(['t2']);
+  });
+});
@@ -12,4 +12,347 @@ export interface Billing {
   paidAt?: Date;
 }
 
-// Remove BillingItem interface as it's no longer needed
\ No newline at end of file
+// Remove BillingItem interface as it's no longer needed
+
+// Quantity of a product held in a single warehouse location (bin)
+export interface LocationStock {
+  productId: string;
+  location: string;
+  quantity: number;
+}
+
+// A bin in the warehouse location master, identified by its zone/aisle/rack/bin code
+export interface WarehouseLocation {
+  id: string;
+  code: string;
+  zone: string;
+  aisle: string;
+  rack: string;
+  bin: string;
+  maxCbm: number;
+  maxWeight: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type WorkflowType = 'inbound' | 'outbound' | 'transfer' | 'adjustment' | 'status_change' | 'assemble' | 'disassemble';
+
+export type StockStatus = 'available' | 'quarantine' | 'damaged' | 'on_hold';
+
+export type AdjustmentReason = 'damage' | 'shrinkage' | 'found' | 'count_correction' | 'destroyed' | 'returned_to_vendor';
+
+export type AbcClass = 'A' | 'B' | 'C';
+
+export type AbcBasis = 'quantity' | 'cbm';
+
+export type XyzClass = 'X' | 'Y' | 'Z';
+
+export type CycleCountScope = 'location' | 'vendor' | 'abc';
+
+export type CycleCountStatus = 'open' | 'submitted' | 'approved' | 'rejected';
+
+// One product/location pair to be counted
+export interface CycleCountLine {
+  id: string;
+  productId: string;
+  location: string;
+  countedQuantity?: number;
+  // System quantity captured when the count is submitted; variances are approved against it
+  systemQuantity?: number;
+}
+
+export interface CycleCount {
+  id: string;
+  countNumber: string;
+  scope: CycleCountScope;
+  scopeValue: string;
+  status: CycleCountStatus;
+  lines: CycleCountLine[];
+  createdBy: string;
+  countedBy?: string;
+  reviewedBy?: string;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  submittedAt?: Date;
+  reviewedAt?: Date;
+}
+
+// Quantity of a product held per lot; expiry dates are ISO dates (YYYY-MM-DD)
+export interface LotStock {
+  productId: string;
+  lotNumber: string;
+  expiryDate?: string;
+  quantity: number;
+}
+
+export interface LotAllocation {
+  lotNumber: string;
+  quantity: number;
+}
+
+export type SerialStatus = 'in_stock' | 'shipped' | 'written_off';
+
+export type SerialMovementType = 'received' | 'transferred' | 'shipped' | 'written_off';
+
+// One workflow that moved a serialized unit
+export interface SerialMovement {
+  type: SerialMovementType;
+  workflowNumber: string;
+  location?: string;
+  date: Date;
+}
+
+// One unit of a serialized product, keyed by product and serial number
+export interface SerialRecord {
+  serialNumber: string;
+  productId: string;
+  status: SerialStatus;
+  location: string;
+  receivedAt: Date;
+  receivedWorkflow: string;
+  shippedAt?: Date;
+  shippedWorkflow?: string;
+  // Every movement of the unit, oldest first; records from before history was kept have none
+  history?: SerialMovement[];
+}
+
+// Difference between what an inbound workflow expected and what was received
+export interface ReceivingDiscrepancy {
+  id: string;
+  transactionId: string;
+  workflowNumber: string;
+  productId: string;
+  vendorNumber: string;
+  expectedQuantity: number;
+  receivedQuantity: number;
+  shortQuantity: number;
+  overQuantity: number;
+  damagedQuantity: number;
+  receivedBy?: string;
+  notes?: string;
+  createdAt: Date;
+}
+
+export type AsnStatus = 'open' | 'receiving' | 'received' | 'cancelled';
+
+// Each ASN line is received through its own inbound workflow
+export interface AsnLine {
+  id: string;
+  productId: string;
+  expectedQuantity: number;
+  transactionId: string;
+}
+
+export interface Asn {
+  id: string;
+  asnNumber: string;
+  referenceNumber: string;
+  vendorNumber: string;
+  carrier: string;
+  expectedDate: string;
+  lines: AsnLine[];
+  notes?: string;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Delivery address printed on packing slips; copied onto orders so later edits don't rewrite history
+export interface ShipToAddress {
+  name: string;
+  contactName?: string;
+  phone?: string;
+  addressLine1: string;
+  addressLine2?: string;
+  city: string;
+  state?: string;
+  postalCode: string;
+  country: string;
+}
+
+// Saved consignee in a vendor's address book
+export interface Consignee extends ShipToAddress {
+  id: string;
+  vendorNumber: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type OrderPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+export type OrderStatus = 'pending' | 'partial' | 'completed' | 'cancelled';
+
+// Order header; its lines are workflows that carry the order's id and share its workflow number
+export interface Order {
+  id: string;
+  workflowNumber: string;
+  type: 'inbound' | 'outbound';
+  vendorNumber: string;
+  referenceNumber?: string;
+  consigneeId?: string;
+  shipTo?: ShipToAddress;
+  carrier?: string;
+  requestedDate?: string;
+  priority: OrderPriority;
+  notes?: string;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One stop on a pick path: a SKU to take from a location for one or more outbound workflows
+export interface PickListLine {
+  productId: string;
+  location: string;
+  quantity: number;
+  transactionIds: string[];
+}
+
+export type WaveStatus = 'planned' | 'released' | 'picking' | 'packed' | 'shipped';
+
+export type WaveGrouping = 'carrier' | 'cutoff' | 'priority';
+
+// Batch of pending outbound workflows picked and shipped together.
+// groupKey is the carrier, the priority, or the cut-off slot as "YYYY-MM-DD HH:mm".
+export interface Wave {
+  id: string;
+  waveNumber: string;
+  grouping: WaveGrouping;
+  groupKey: string;
+  transactionIds: string[];
+  status: WaveStatus;
+  createdBy?: string;
+  releasedAt?: Date;
+  shippedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Shipping carton in the box catalogue; dimensions in inches, weights in lbs
+export interface BoxType {
+  id: string;
+  name: string;
+  length: number;
+  width: number;
+  height: number;
+  maxWeight: number;
+  tareWeight: number;
+}
+
+export interface CartonItem {
+  productId: string;
+  quantity: number;
+}
+
+// Carton as actually packed at the pack station, with its scale weight
+export interface PackedCarton {
+  cartonNumber: string;
+  boxId: string;
+  weight: number;
+  items: CartonItem[];
+}
+
+// Packing of an outbound workflow number. Backordered lines are packed later in a
+// further record, so each record lists the lines it covered.
+export interface PackRecord {
+  id: string;
+  workflowNumber: string;
+  // Missing on records made before lines were tracked; those covered every line then completed
+  transactionIds?: string[];
+  cartons: PackedCarton[];
+  packedBy?: string;
+  packedAt: Date;
+}
+
+export type ContainerType = '20ft' | '40ft' | '40hc';
+
+// Pallet used by the load planner; dimensions in inches, weights in lbs
+export interface PalletSpec {
+  length: number;
+  width: number;
+  baseHeight: number;
+  maxHeight: number;
+  maxWeight: number;
+  tareWeight: number;
+  stackable: boolean;
+}
+
+export interface LoadItem {
+  productId: string;
+  quantity: number;
+}
+
+// Products record the units their dimensions and weight were entered in as
+// `dimensionUnit` and `weightUnit`; records without them are inches and pounds
+export type DimensionUnit = 'in' | 'cm';
+export type WeightUnit = 'lb' | 'kg';
+
+// Display preference kept on the user as `unitSystem`
+export type UnitSystem = 'imperial' | 'metric';
+
+export type UomLevel = 'each' | 'inner' | 'case' | 'pallet';
+
+// Pack level above the each, kept on products as `uoms`. Dimensions and weight are in the
+// product's own units. Workflows always hold base eaches in `quantity` and record what was
+// entered as `uom` and `uomQuantity`.
+export interface ProductUom {
+  level: UomLevel;
+  unitsPerLevel: number;
+  length?: number;
+  width?: number;
+  height?: number;
+  weight?: number;
+}
+
+// Component of a kit product, kept on the kit as `components`. Assemble and disassemble
+// workflows record the total component quantities they moved as `kitComponents`.
+export interface KitComponent {
+  productId: string;
+  quantity: number;
+}
+
+export type RmaStatus = 'requested' | 'received' | 'inspected' | 'cancelled';
+
+export type RmaDisposition = 'restock' | 'quarantine' | 'destroy' | 'return_to_vendor';
+
+// Part of a returned line given one disposition at inspection; location is where
+// restocked or quarantined units are put away
+export interface RmaDispositionEntry {
+  disposition: RmaDisposition;
+  quantity: number;
+  location?: string;
+}
+
+// Returned units are received into `location` held in quarantine until inspected
+export interface RmaLine {
+  id: string;
+  productId: string;
+  quantity: number;
+  receivedQuantity?: number;
+  location?: string;
+  dispositions?: RmaDispositionEntry[];
+}
+
+// Return raised by a vendor against a shipped outbound workflow number
+export interface Rma {
+  id: string;
+  rmaNumber: string;
+  outboundWorkflowNumber: string;
+  vendorNumber: string;
+  reason: string;
+  lines: RmaLine[];
+  status: RmaStatus;
+  notes?: string;
+  createdBy?: string;
+  receivedBy?: string;
+  inspectedBy?: string;
+  receivedAt?: Date;
+  inspectedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ForecastInterval = 'day' | 'week';
+
+export type ForecastModel = 'moving_average' | 'exponential_smoothing' | 'seasonal_naive';
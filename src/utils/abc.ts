@@ -0,0 +1,110 @@
+import { subDays } from 'date-fns';
+import { AbcBasis, AbcClass, Product, Transaction, XyzClass } from '../types';
+import { buildDemandSeries } from './forecasting';
+
+export const abcBasisLabels: Record<AbcBasis, string> = {
+  quantity: 'Units Shipped',
+  cbm: 'CBM Shipped'
+};
+
+export const abcClassColors: Record<AbcClass, string> = {
+  A: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  B: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  C: 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200'
+};
+
+export const abcWindowOptions = [30, 90, 180, 365];
+
+export interface AbcOptions {
+  basis: AbcBasis;
+  // Days of outbound history to classify on
+  windowDays: number;
+}
+
+export const defaultAbcOptions: AbcOptions = {
+  basis: 'quantity',
+  windowDays: 90
+};
+
+export interface AbcAnalysis {
+  product: Product;
+  volume: number;
+  // Share of total volume, and the running share up to and including this product
+  share: number;
+  cumulativeShare: number;
+  abcClass: AbcClass;
+  // Coefficient of variation of weekly demand, null without demand
+  variability: number | null;
+  xyzClass: XyzClass;
+}
+
+// Steady demand is X, fluctuating Y and erratic or no demand Z
+export const classifyXyz = (variability: number | null): XyzClass =>
+  variability === null ? 'Z' : variability <= 0.5 ? 'X' : variability <= 1 ? 'Y' : 'Z';
+
+export const getDemandVariability = (series: number[]): number | null => {
+  const mean = series.reduce((total, value) => total + value, 0) / (series.length || 1);
+  if (mean === 0) return null;
+  const variance = series.reduce((total, value) => total + (value - mean) ** 2, 0) / series.length;
+  return Math.sqrt(variance) / mean;
+};
+
+// Rank products by completed outbound volume in the window: top 80% A, next 15% B, rest C.
+// Volume is units shipped, or units times unit CBM when classifying by CBM.
+export const analyzeAbc = (
+  products: Product[],
+  transactions: Transaction[],
+  options: AbcOptions = defaultAbcOptions,
+  today: Date = new Date()
+): AbcAnalysis[] => {
+  const windowStart = subDays(today, options.windowDays);
+  const shipped = transactions.filter(t =>
+    t.type === 'outbound' && t.status === 'completed' && new Date(t.createdAt) >= windowStart
+  );
+  // Whole weeks only, so a partial oldest week doesn't read as a dip in demand
+  const weeks = Math.max(Math.floor(options.windowDays / 7), 1);
+
+  const volumes = products.map(product => {
+    const units = shipped
+      .filter(t => t.productId === product.id)
+      .reduce((total, t) => total + Number(t.quantity), 0);
+    return {
+      product,
+      volume: options.basis === 'cbm' ? units * Number(product.unitCbm || 0) : units
+    };
+  }).sort((a, b) => b.volume - a.volume);
+
+  const totalVolume = volumes.reduce((total, v) => total + v.volume, 0);
+  let cumulative = 0;
+
+  return volumes.map(({ product, volume }) => {
+    const previousShare = totalVolume > 0 ? cumulative / totalVolume : 0;
+    cumulative += volume;
+    const abcClass: AbcClass = totalVolume === 0 || volume === 0
+      ? 'C'
+      : previousShare < 0.8 ? 'A' : previousShare < 0.95 ? 'B' : 'C';
+    const variability = getDemandVariability(buildDemandSeries(shipped, product.id, 'week', weeks, today));
+
+    return {
+      product,
+      volume,
+      share: totalVolume > 0 ? volume / totalVolume : 0,
+      cumulativeShare: totalVolume > 0 ? cumulative / totalVolume : 0,
+      abcClass,
+      variability,
+      xyzClass: classifyXyz(variability)
+    };
+  });
+};
+
+export const classifyAbc = (
+  products: Product[],
+  transactions: Transaction[],
+  options: AbcOptions = defaultAbcOptions
+): Record<string, AbcClass> => {
+  const classes: Record<string, AbcClass> = {};
+  analyzeAbc(products, transactions, options).forEach(({ product, abcClass }) => {
+    classes[product.id] = abcClass;
+  });
+  return classes;
+};
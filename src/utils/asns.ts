@@ -0,0 +1,164 @@
+import { Asn, AsnStatus, Product, Transaction } from '../types';
+import { generateSequenceNumber, generateWorkflowNumber } from './workflow';
+
+export interface AsnDraft {
+  referenceNumber: string;
+  carrier: string;
+  expectedDate: string;
+  notes?: string;
+  lines: { productId: string; quantity: number }[];
+}
+
+export const asnStatusLabels: Record<AsnStatus, string> = {
+  open: 'Open',
+  receiving: 'Receiving',
+  received: 'Received',
+  cancelled: 'Cancelled'
+};
+
+export const asnStatusColors: Record<AsnStatus, string> = {
+  open: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  receiving: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  received: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  cancelled: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+};
+
+// Create an ASN together with the pending inbound workflow for each of its lines
+export const buildAsn = (
+  draft: AsnDraft,
+  vendorNumber: string,
+  existingAsns: Asn[],
+  existingTransactions: Transaction[],
+  createdBy?: string
+): { asn: Asn; transactions: Transaction[] } => {
+  const id = crypto.randomUUID();
+  const asnNumber = generateSequenceNumber(existingAsns.map(a => a.asnNumber), 'ASN');
+  const transactions: Transaction[] = [];
+
+  const lines = draft.lines.map(line => {
+    const transaction: Transaction = {
+      id: crypto.randomUUID(),
+      type: 'inbound',
+      productId: line.productId,
+      quantity: Number(line.quantity),
+      status: 'pending',
+      workflowNumber: generateWorkflowNumber([...existingTransactions, ...transactions]),
+      referenceNumber: asnNumber,
+      asnId: id,
+      notes: `ASN ${asnNumber} (${draft.referenceNumber})`,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    transactions.push(transaction);
+
+    return {
+      id: crypto.randomUUID(),
+      productId: line.productId,
+      expectedQuantity: Number(line.quantity),
+      transactionId: transaction.id
+    };
+  });
+
+  return {
+    asn: {
+      id,
+      asnNumber,
+      referenceNumber: draft.referenceNumber,
+      vendorNumber,
+      carrier: draft.carrier,
+      expectedDate: draft.expectedDate,
+      lines,
+      notes: draft.notes,
+      createdBy,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    },
+    transactions
+  };
+};
+
+// Received quantity of an ASN line, taken from its inbound workflow once completed
+export const getAsnLineProgress = (transactionId: string, transactions: Transaction[]) => {
+  const transaction = transactions.find(t => t.id === transactionId);
+  return {
+    transaction,
+    received: transaction?.status === 'completed' ? Number(transaction.quantity) : 0,
+    isOpen: transaction?.status === 'pending',
+    isCancelled: transaction?.status === 'cancelled'
+  };
+};
+
+// Cancelled lines are left out, so an ASN is only received once every other line is
+export const getAsnStatus = (asn: Asn, transactions: Transaction[]): AsnStatus => {
+  const lines = asn.lines
+    .map(line => getAsnLineProgress(line.transactionId, transactions))
+    .filter(progress => !progress.isCancelled);
+  if (lines.length === 0) return 'cancelled';
+  const openLines = lines.filter(progress => progress.isOpen).length;
+  if (openLines === 0) return 'received';
+  return openLines === lines.length ? 'open' : 'receiving';
+};
+
+// Parse an ASN CSV; rows sharing a Reference become one ASN
+export const parseAsnCSV = (
+  csvText: string,
+  products: Product[]
+): { drafts: (AsnDraft & { vendorNumber: string })[]; errors: string[] } => {
+  const lines = csvText.split('\n');
+  const headers = (lines[0] || '').toLowerCase().split(',').map(h => h.trim().replace(/\s+/g, ''));
+  const drafts: (AsnDraft & { vendorNumber: string })[] = [];
+  const errors: string[] = [];
+
+  lines.slice(1).forEach((line, index) => {
+    if (!line.trim()) return;
+
+    const values = line.split(',').map(v => v.trim());
+    const lineNumber = index + 2;
+
+    const data: Record<string, string> = {};
+    headers.forEach((header, i) => {
+      data[header] = values[i] || '';
+    });
+    const { reference = '', carrier = '', expecteddate = '', sku = '', quantity = '' } = data;
+
+    if (!reference) {
+      errors.push(`Line ${lineNumber}: Reference is required`);
+      return;
+    }
+    if (!carrier) {
+      errors.push(`Line ${lineNumber}: Carrier is required`);
+      return;
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(expecteddate)) {
+      errors.push(`Line ${lineNumber}: Expected Date must be in YYYY-MM-DD format`);
+      return;
+    }
+    if (!quantity || isNaN(Number(quantity)) || Number(quantity) <= 0) {
+      errors.push(`Line ${lineNumber}: Quantity must be a positive number`);
+      return;
+    }
+
+    const product = products.find(p => p.sku.toLowerCase() === sku.toLowerCase());
+    if (!product) {
+      errors.push(`Line ${lineNumber}: Product with SKU "${sku}" not found`);
+      return;
+    }
+
+    const draft = drafts.find(d => d.referenceNumber === reference);
+    if (!draft) {
+      drafts.push({
+        referenceNumber: reference,
+        carrier,
+        expectedDate: expecteddate,
+        vendorNumber: product.vendorNumber,
+        lines: [{ productId: product.id, quantity: Number(quantity) }]
+      });
+    } else if (draft.vendorNumber !== product.vendorNumber) {
+      errors.push(`Line ${lineNumber}: All lines of ASN ${reference} must belong to the same vendor`);
+    } else {
+      draft.lines.push({ productId: product.id, quantity: Number(quantity) });
+    }
+  });
+
+  return { drafts, errors };
+};
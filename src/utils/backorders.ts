@@ -0,0 +1,82 @@
+import { Order, OrderPriority, Product, Transaction } from '../types';
+import { orderPriorityRank } from './orders';
+import { getStockSummary } from './stock';
+
+// Outbound lines placed without enough available stock wait as 'backordered'.
+// They hold no reservation until an inbound fills them, which returns them to 'pending'
+// and records `backorderFilledAt`.
+export const isBackordered = (transaction: Transaction): boolean =>
+  transaction.type === 'outbound' && transaction.status === 'backordered';
+
+const getPriority = (transaction: Transaction, orders: Order[]): OrderPriority =>
+  orders.find(o => o.id === transaction.orderId)?.priority || 'normal';
+
+// Backorders for a product in the order they are filled: most urgent first, then oldest
+export const getBackorderQueue = (
+  transactions: Transaction[],
+  orders: Order[],
+  productId: string
+): Transaction[] => {
+  return transactions
+    .filter(t => isBackordered(t) && t.productId === productId)
+    .sort((a, b) =>
+      orderPriorityRank[getPriority(a, orders)] - orderPriorityRank[getPriority(b, orders)] ||
+      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+};
+
+// Available stock left once the product's open backorders are served. New lines are placed
+// against this so they never jump ahead of the backorder queue.
+export const getAvailableAfterBackorders = (product: Product, transactions: Transaction[]): number => {
+  const backordered = transactions
+    .filter(t => isBackordered(t) && t.productId === product.id)
+    .reduce((total, t) => total + Number(t.quantity), 0);
+  return getStockSummary(product, transactions).available - backordered;
+};
+
+// Release backorders for a product while available stock covers them. Filling stops at the
+// first line that doesn't fit so a lower priority line never jumps the queue.
+export const fillBackorders = (
+  transactions: Transaction[],
+  orders: Order[],
+  product: Product
+): Transaction[] => {
+  let available = getStockSummary(product, transactions).available;
+  const filled = new Set<string>();
+
+  for (const backorder of getBackorderQueue(transactions, orders, product.id)) {
+    if (Number(backorder.quantity) > available) break;
+    available -= Number(backorder.quantity);
+    filled.add(backorder.id);
+  }
+
+  if (filled.size === 0) return transactions;
+  return transactions.map(t =>
+    filled.has(t.id)
+      ? { ...t, status: 'pending', backorderFilledAt: new Date(), updatedAt: new Date() }
+      : t
+  );
+};
+
+// Open backorders with their product, optionally for a single vendor, most urgent first
+export const getOpenBackorders = (
+  transactions: Transaction[],
+  products: Product[],
+  orders: Order[],
+  vendorNumber?: string
+): { transaction: Transaction; product: Product; priority: OrderPriority; queuePosition: number }[] => {
+  return products
+    .filter(product => !vendorNumber || product.vendorNumber === vendorNumber)
+    .flatMap(product =>
+      getBackorderQueue(transactions, orders, product.id).map((transaction, index) => ({
+        transaction,
+        product,
+        priority: getPriority(transaction, orders),
+        queuePosition: index + 1
+      }))
+    )
+    .sort((a, b) =>
+      orderPriorityRank[a.priority] - orderPriorityRank[b.priority] ||
+      new Date(a.transaction.createdAt).getTime() - new Date(b.transaction.createdAt).getTime()
+    );
+};
@@ -1,19 +1,142 @@
-// Convert inches to meters
-const inchesToMeters = (inches: number) => inches * 0.0254;
+import { DimensionUnit, Product, UnitSystem, WeightUnit } from '../types';
+
+const CM_PER_INCH = 2.54;
+const KG_PER_LB = 0.45359237;
+
+export const dimensionUnitLabels: Record<DimensionUnit, string> = {
+  in: 'Inches (in)',
+  cm: 'Centimeters (cm)'
+};
+
+export const weightUnitLabels: Record<WeightUnit, string> = {
+  lb: 'Pounds (lb)',
+  kg: 'Kilograms (kg)'
+};
+
+export const unitSystemLabels: Record<UnitSystem, string> = {
+  imperial: 'Imperial (in, lb)',
+  metric: 'Metric (cm, kg)'
+};
+
+export const unitSystemUnits: Record<UnitSystem, { dimension: DimensionUnit; weight: WeightUnit }> = {
+  imperial: { dimension: 'in', weight: 'lb' },
+  metric: { dimension: 'cm', weight: 'kg' }
+};
+
+// Volume per unit of dimensional weight: cm³ per kg and in³ per lb
+export const defaultDimWeightDivisors: Record<UnitSystem, number> = {
+  metric: 5000,
+  imperial: 139
+};
+
+// Read a unit from free text such as a CSV cell; returns undefined when it isn't recognised
+export const parseDimensionUnit = (value: string): DimensionUnit | undefined => {
+  const unit = value.trim().toLowerCase();
+  if (['in', 'inch', 'inches'].includes(unit)) return 'in';
+  if (['cm', 'centimeter', 'centimeters', 'centimetre', 'centimetres'].includes(unit)) return 'cm';
+  return undefined;
+};
+
+export const parseWeightUnit = (value: string): WeightUnit | undefined => {
+  const unit = value.trim().toLowerCase();
+  if (['lb', 'lbs', 'pound', 'pounds'].includes(unit)) return 'lb';
+  if (['kg', 'kgs', 'kilogram', 'kilograms'].includes(unit)) return 'kg';
+  return undefined;
+};
+
+export const convertLength = (value: number, from: DimensionUnit, to: DimensionUnit) => {
+  if (from === to) return value;
+  return from === 'in' ? value * CM_PER_INCH : value / CM_PER_INCH;
+};
+
+export const convertWeight = (value: number, from: WeightUnit, to: WeightUnit) => {
+  if (from === to) return value;
+  return from === 'lb' ? value * KG_PER_LB : value / KG_PER_LB;
+};
+
+// Product dimensions converted to the given unit
+export const getProductDimensions = (product: Product, unit: DimensionUnit = 'in') => {
+  const from: DimensionUnit = product.dimensionUnit || 'in';
+  return {
+    length: convertLength(Number(product.length) || 0, from, unit),
+    width: convertLength(Number(product.width) || 0, from, unit),
+    height: convertLength(Number(product.height) || 0, from, unit)
+  };
+};
+
+// Product unit weight converted to the given unit
+export const getProductWeight = (product: Product, unit: WeightUnit = 'lb') =>
+  convertWeight(Number(product.weight) || 0, product.weightUnit || 'lb', unit);
 
 // Calculate CBM (Cubic Meters) for a single unit
-export const calculateUnitCBM = (length: number, width: number, height: number) => {
+export const calculateUnitCBM = (length: number, width: number, height: number, unit: DimensionUnit = 'in') => {
   if (!length || !width || !height) return 0;
-  const lengthM = inchesToMeters(length);
-  const widthM = inchesToMeters(width);
-  const heightM = inchesToMeters(height);
+  const lengthM = convertLength(length, unit, 'cm') / 100;
+  const widthM = convertLength(width, unit, 'cm') / 100;
+  const heightM = convertLength(height, unit, 'cm') / 100;
   
   return Number((lengthM * widthM * heightM).toFixed(3));
 };
 
 // Calculate total CBM based on quantity
-export const calculateTotalCBM = (length: number, width: number, height: number, quantity: number) => {
+export const calculateTotalCBM = (length: number, width: number, height: number, quantity: number, unit: DimensionUnit = 'in') => {
   if (!quantity) return 0;
-  const unitCBM = calculateUnitCBM(length, width, height);
+  const unitCBM = calculateUnitCBM(length, width, height, unit);
   return Number((unitCBM * quantity).toFixed(3));
-};
\ No newline at end of file
+};
+
+// Total CBM of a quantity of a product, whatever unit it was entered in
+export const calculateProductCBM = (product: Product, quantity: number) =>
+  calculateTotalCBM(Number(product.length), Number(product.width), Number(product.height), quantity, product.dimensionUnit || 'in');
+
+// Dimensional weight of one unit in the system's weight unit, e.g. cm³ / 5000 in kg
+export const calculateDimWeight = (
+  product: Product,
+  system: UnitSystem,
+  divisors: Record<UnitSystem, number> = defaultDimWeightDivisors
+) => {
+  const { length, width, height } = getProductDimensions(product, unitSystemUnits[system].dimension);
+  const divisor = divisors[system];
+  if (!divisor) return 0;
+  return Number(((length * width * height) / divisor).toFixed(2));
+};
+
+// Carriers bill the greater of actual and dimensional weight
+export const calculateChargeableWeight = (
+  product: Product,
+  system: UnitSystem,
+  divisors: Record<UnitSystem, number> = defaultDimWeightDivisors
+) => Math.max(
+  Number(getProductWeight(product, unitSystemUnits[system].weight).toFixed(2)),
+  calculateDimWeight(product, system, divisors)
+);
+
+// Format product dimensions as "12 x 10 x 9 in" in the system's length unit
+export const formatDimensions = (product: Product, system: UnitSystem) => {
+  const unit = unitSystemUnits[system].dimension;
+  const { length, width, height } = getProductDimensions(product, unit);
+  return `${Number(length.toFixed(1))} x ${Number(width.toFixed(1))} x ${Number(height.toFixed(1))} ${unit}`;
+};
+
+// Format a weight held in pounds as "5.5 lb" or "2.49 kg"
+export const formatWeight = (pounds: number, system: UnitSystem) => {
+  const unit = unitSystemUnits[system].weight;
+  return `${Number(convertWeight(pounds, 'lb', unit).toFixed(2))} ${unit}`;
+};
+
+// Box and pallet measurements are held in inches and pounds; these read and write them in the system's units
+export const toSystemLength = (inches: number, system: UnitSystem) =>
+  Number(convertLength(inches, 'in', unitSystemUnits[system].dimension).toFixed(1));
+
+export const fromSystemLength = (value: number, system: UnitSystem) =>
+  convertLength(value, unitSystemUnits[system].dimension, 'in');
+
+export const toSystemWeight = (pounds: number, system: UnitSystem) =>
+  Number(convertWeight(pounds, 'lb', unitSystemUnits[system].weight).toFixed(2));
+
+export const fromSystemWeight = (value: number, system: UnitSystem) =>
+  convertWeight(value, unitSystemUnits[system].weight, 'lb');
+
+// Format a length held in inches as "48 in" or "121.9 cm"
+export const formatLength = (inches: number, system: UnitSystem) =>
+  `${toSystemLength(inches, system)} ${unitSystemUnits[system].dimension}`;
@@ -0,0 +1,146 @@
+import { BoxType, CartonItem, PackRecord, Product, Transaction } from '../types';
+import { getProductDimensions, getProductWeight } from './calculations';
+
+interface Unit {
+  productId: string;
+  dims: [number, number, number];
+  weight: number;
+}
+
+interface Space {
+  x: number;
+  y: number;
+  z: number;
+  length: number;
+  width: number;
+  height: number;
+}
+
+export interface CartonSuggestion {
+  boxId: string;
+  items: CartonItem[];
+  weight: number;
+}
+
+const volume = (dims: [number, number, number]) => dims[0] * dims[1] * dims[2];
+
+// The six ways a unit can be turned to fit a space
+const orientations = ([l, w, h]: [number, number, number]): [number, number, number][] => [
+  [l, w, h], [l, h, w], [w, l, h], [w, h, l], [h, l, w], [h, w, l]
+];
+
+const addItem = (items: CartonItem[], productId: string) => {
+  const existing = items.find(i => i.productId === productId);
+  if (existing) existing.quantity += 1;
+  else items.push({ productId, quantity: 1 });
+};
+
+// Pack units into a single box, largest first, splitting the free space into three
+// guillotine cuts after each placement. Returns the units that were placed.
+export const packBox = (box: BoxType, units: Unit[]): Unit[] => {
+  let spaces: Space[] = [{ x: 0, y: 0, z: 0, length: box.length, width: box.width, height: box.height }];
+  let weight = box.tareWeight;
+  const placed: Unit[] = [];
+
+  units.forEach(unit => {
+    if (box.maxWeight > 0 && weight + unit.weight > box.maxWeight) return;
+
+    // Fill from the floor and the back corner first
+    spaces.sort((a, b) => a.z - b.z || a.y - b.y || a.x - b.x);
+    for (const space of spaces) {
+      const fit = orientations(unit.dims).find(([l, w, h]) =>
+        l <= space.length && w <= space.width && h <= space.height
+      );
+      if (!fit) continue;
+
+      const [l, w, h] = fit;
+      spaces = spaces.filter(s => s !== space).concat([
+        { x: space.x + l, y: space.y, z: space.z, length: space.length - l, width: space.width, height: space.height },
+        { x: space.x, y: space.y + w, z: space.z, length: l, width: space.width - w, height: space.height },
+        { x: space.x, y: space.y, z: space.z + h, length: l, width: w, height: space.height - h }
+      ].filter(s => s.length > 0 && s.width > 0 && s.height > 0));
+      weight += unit.weight;
+      placed.push(unit);
+      return;
+    }
+  });
+
+  return placed;
+};
+
+// Suggest cartons for a set of items: use the smallest box that takes everything left,
+// otherwise fill the box that takes the most volume and repeat. Items without
+// dimensions, or too big for every box, are returned as unpacked.
+export const suggestCartons = (
+  items: CartonItem[],
+  products: Product[],
+  boxes: BoxType[]
+): { cartons: CartonSuggestion[]; unpacked: CartonItem[] } => {
+  const unpacked: CartonItem[] = [];
+  let remaining: Unit[] = [];
+
+  items.forEach(item => {
+    const product = products.find(p => p.id === item.productId);
+    const { length, width, height } = product ? getProductDimensions(product, 'in') : { length: 0, width: 0, height: 0 };
+    const dims: [number, number, number] = [length, width, height];
+    const weight = product ? getProductWeight(product, 'lb') : 0;
+    for (let i = 0; i < item.quantity; i++) {
+      if (volume(dims) === 0) addItem(unpacked, item.productId);
+      else remaining.push({ productId: item.productId, dims, weight });
+    }
+  });
+  remaining.sort((a, b) => volume(b.dims) - volume(a.dims));
+
+  const boxesBySize = [...boxes].sort((a, b) =>
+    volume([a.length, a.width, a.height]) - volume([b.length, b.width, b.height])
+  );
+  const cartons: CartonSuggestion[] = [];
+
+  while (remaining.length > 0) {
+    const attempts = boxesBySize.map(box => ({ box, placed: packBox(box, remaining) }));
+    const fitsAll = attempts.find(a => a.placed.length === remaining.length);
+    const best = fitsAll || attempts.reduce<typeof attempts[number] | undefined>((best, attempt) =>
+      !best || attempt.placed.reduce((t, u) => t + volume(u.dims), 0) > best.placed.reduce((t, u) => t + volume(u.dims), 0)
+        ? attempt
+        : best,
+      undefined
+    );
+
+    if (!best || best.placed.length === 0) {
+      remaining.forEach(unit => addItem(unpacked, unit.productId));
+      break;
+    }
+
+    const cartonItems: CartonItem[] = [];
+    best.placed.forEach(unit => addItem(cartonItems, unit.productId));
+    cartons.push({
+      boxId: best.box.id,
+      items: cartonItems,
+      weight: Number((best.box.tareWeight + best.placed.reduce((t, u) => t + u.weight, 0)).toFixed(2))
+    });
+    remaining = remaining.filter(unit => !best.placed.includes(unit));
+  }
+
+  return { cartons, unpacked };
+};
+
+// True once a pack record covers the line
+export const isLinePacked = (records: PackRecord[], transaction: Transaction) =>
+  records.some(record =>
+    record.workflowNumber === transaction.workflowNumber &&
+    (record.transactionIds
+      ? record.transactionIds.includes(transaction.id)
+      : new Date(transaction.updatedAt) <= new Date(record.packedAt))
+  );
+
+// Carton count and total scale weight across every record for a workflow number
+export const getPackSummary = (records: PackRecord[], workflowNumber: string) => {
+  const cartons = records
+    .filter(r => r.workflowNumber === workflowNumber)
+    .flatMap(r => r.cartons);
+  if (cartons.length === 0) return null;
+  return {
+    cartons: cartons.length,
+    weight: Number(cartons.reduce((total, c) => total + Number(c.weight), 0).toFixed(2))
+  };
+};
@@ -0,0 +1,42 @@
+import { Consignee, ShipToAddress } from '../types';
+
+// Copy the address fields of a saved consignee onto an order
+export const toShipTo = (consignee: Consignee): ShipToAddress => ({
+  name: consignee.name,
+  contactName: consignee.contactName,
+  phone: consignee.phone,
+  addressLine1: consignee.addressLine1,
+  addressLine2: consignee.addressLine2,
+  city: consignee.city,
+  state: consignee.state,
+  postalCode: consignee.postalCode,
+  country: consignee.country
+});
+
+// Address as printed on a label, one line per entry
+export const formatShipToLines = (shipTo: ShipToAddress): string[] => {
+  const cityLine = [shipTo.city, [shipTo.state, shipTo.postalCode].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+  return [
+    shipTo.name,
+    shipTo.contactName ? `Attn: ${shipTo.contactName}` : '',
+    shipTo.addressLine1,
+    shipTo.addressLine2 || '',
+    cityLine,
+    shipTo.country,
+    shipTo.phone ? `Tel: ${shipTo.phone}` : ''
+  ].filter(Boolean);
+};
+
+// Find a vendor's consignee by name, ignoring case
+export const findConsignee = (
+  consignees: Consignee[],
+  vendorNumber: string,
+  name: string
+): Consignee | undefined => {
+  return consignees.find(c =>
+    c.vendorNumber === vendorNumber &&
+    c.name.toLowerCase() === name.trim().toLowerCase()
+  );
+};
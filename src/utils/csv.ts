@@ -1,4 +1,5 @@
 import { Product } from '../types';
+import { parseDimensionUnit, parseWeightUnit } from './calculations';
 
 export const parseCSV = (csvText: string): Product[] => {
   const lines = csvText.split('\n');
@@ -26,6 +27,14 @@ export const parseCSV = (csvText: string): Product[] => {
           case 'min stock level':
             product.minStockLevel = Number(value);
             break;
+          case 'reorderpoint':
+          case 'reorder point':
+            if (value) product.reorderPoint = Number(value);
+            break;
+          case 'reorderquantity':
+          case 'reorder quantity':
+            if (value) product.reorderQuantity = Number(value);
+            break;
           case 'location':
             product.location = value;
             break;
@@ -45,6 +54,15 @@ export const parseCSV = (csvText: string): Product[] => {
           case 'width':
             product.width = Number(value);
             break;
+          case 'dimensionunit':
+          case 'dimension unit':
+            // Unrecognised units are kept as typed so validation can report them
+            if (value) product.dimensionUnit = parseDimensionUnit(value) || value;
+            break;
+          case 'weightunit':
+          case 'weight unit':
+            if (value) product.weightUnit = parseWeightUnit(value) || value;
+            break;
           case 'unitcbm':
           case 'unit cbm':
             product.unitCbm = Number(value);
@@ -88,6 +106,11 @@ export const validateProducts = (
         if (isUpdate && !existingProduct) {
           errors.push(`Line ${lineNumber}: SKU "${product.sku}" not found in inventory`);
         }
+        // Stock only changes through reason-coded adjustments and workflows
+        if (isUpdate && existingProduct && product.quantity !== undefined &&
+            Number(product.quantity) !== Number(existingProduct.quantity)) {
+          errors.push(`Line ${lineNumber}: Quantity cannot be changed by an update, use a stock adjustment instead`);
+        }
       }
     }
     
@@ -95,11 +118,23 @@ export const validateProducts = (
     if (!product.vendorNumber) errors.push(`Line ${lineNumber}: Vendor Number is required`);
     if (product.quantity < 0) errors.push(`Line ${lineNumber}: Quantity must be positive`);
     if (product.minStockLevel < 0) errors.push(`Line ${lineNumber}: Min Stock Level must be positive`);
+    if (product.reorderPoint !== undefined && !(product.reorderPoint >= 0)) {
+      errors.push(`Line ${lineNumber}: Reorder Point must be positive`);
+    }
+    if (product.reorderQuantity !== undefined && !(product.reorderQuantity > 0)) {
+      errors.push(`Line ${lineNumber}: Reorder Quantity must be greater than 0`);
+    }
     if (product.weight <= 0) errors.push(`Line ${lineNumber}: Weight must be greater than 0`);
     if (product.height <= 0) errors.push(`Line ${lineNumber}: Height must be greater than 0`);
     if (product.length <= 0) errors.push(`Line ${lineNumber}: Length must be greater than 0`);
     if (product.width <= 0) errors.push(`Line ${lineNumber}: Width must be greater than 0`);
     if (product.unitCbm <= 0) errors.push(`Line ${lineNumber}: Unit CBM must be greater than 0`);
+    if (product.dimensionUnit && !parseDimensionUnit(product.dimensionUnit)) {
+      errors.push(`Line ${lineNumber}: Dimension Unit must be in or cm`);
+    }
+    if (product.weightUnit && !parseWeightUnit(product.weightUnit)) {
+      errors.push(`Line ${lineNumber}: Weight Unit must be lb or kg`);
+    }
   });
 
   return errors;
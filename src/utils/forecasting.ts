@@ -0,0 +1,186 @@
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns';
+import { ForecastInterval, ForecastModel, Product, Transaction } from '../types';
+import { getStockSummary } from './stock';
+
+export const forecastModelLabels: Record<ForecastModel, string> = {
+  moving_average: 'Moving Average',
+  exponential_smoothing: 'Exponential Smoothing',
+  seasonal_naive: 'Seasonal Naive'
+};
+
+export const forecastIntervalLabels: Record<ForecastInterval, string> = {
+  day: 'Daily',
+  week: 'Weekly'
+};
+
+export const intervalDays: Record<ForecastInterval, number> = {
+  day: 1,
+  week: 7
+};
+
+// Days of the week repeat for daily series; weekly series repeat once a year
+export const seasonLengths: Record<ForecastInterval, number> = {
+  day: 7,
+  week: 52
+};
+
+export interface ForecastOptions {
+  model: ForecastModel;
+  interval: ForecastInterval;
+  // Number of past periods the series covers
+  periods: number;
+  // Periods averaged by the moving average
+  window: number;
+  // Smoothing factor for exponential smoothing, between 0 and 1
+  alpha: number;
+  // Days ahead to project before giving up on a stock-out date
+  horizonDays: number;
+}
+
+export const defaultForecastOptions: ForecastOptions = {
+  model: 'moving_average',
+  interval: 'week',
+  periods: 104,
+  window: 4,
+  alpha: 0.3,
+  horizonDays: 365
+};
+
+// Daily series look back about three months, weekly series two years so seasonal naive has a full season
+export const intervalDefaults: Record<ForecastInterval, Pick<ForecastOptions, 'periods' | 'window'>> = {
+  day: { periods: 90, window: 14 },
+  week: { periods: 104, window: 4 }
+};
+
+export const getForecastOptions = (model: ForecastModel, interval: ForecastInterval): ForecastOptions => ({
+  ...defaultForecastOptions,
+  ...intervalDefaults[interval],
+  model,
+  interval
+});
+
+// Units shipped per period from completed outbound workflows, oldest period first.
+// The last period ends on `endDate`.
+export const buildDemandSeries = (
+  transactions: Transaction[],
+  productId: string,
+  interval: ForecastInterval,
+  periods: number,
+  endDate: Date = new Date()
+): number[] => {
+  const series = new Array<number>(periods).fill(0);
+  const end = startOfDay(endDate);
+
+  transactions
+    .filter(t => t.productId === productId && t.type === 'outbound' && t.status === 'completed')
+    .forEach(t => {
+      const daysAgo = differenceInCalendarDays(end, new Date(t.createdAt));
+      if (daysAgo < 0) return;
+      const index = periods - 1 - Math.floor(daysAgo / intervalDays[interval]);
+      if (index >= 0) {
+        series[index] = (series[index] || 0) + Number(t.quantity);
+      }
+    });
+
+  return series;
+};
+
+export const movingAverage = (series: number[], window: number): number => {
+  const recent = series.slice(-window);
+  if (recent.length === 0) return 0;
+  return recent.reduce((total, value) => total + value, 0) / recent.length;
+};
+
+export const exponentialSmoothing = (series: number[], alpha: number): number => {
+  if (series.length === 0) return 0;
+  return series.slice(1).reduce((level, value) => alpha * value + (1 - alpha) * level, series[0] || 0);
+};
+
+// Demand for each of the next `periods` periods
+export const projectDemand = (
+  series: number[],
+  options: Pick<ForecastOptions, 'model' | 'interval' | 'window' | 'alpha'>,
+  periods: number
+): number[] => {
+  switch (options.model) {
+    case 'exponential_smoothing':
+      return new Array<number>(periods).fill(exponentialSmoothing(series, options.alpha));
+    case 'seasonal_naive': {
+      // Repeat the last full season; without one, repeat the last period
+      const seasonLength = seasonLengths[options.interval];
+      const season = series.length >= seasonLength ? series.slice(-seasonLength) : series.slice(-1);
+      if (season.length === 0) return new Array<number>(periods).fill(0);
+      return Array.from({ length: periods }, (_, i) => season[i % season.length] || 0);
+    }
+    default:
+      return new Array<number>(periods).fill(movingAverage(series, options.window));
+  }
+};
+
+export interface ProductForecast {
+  product: Product;
+  series: number[];
+  forecast: number[];
+  // Average projected demand per period and per day
+  periodDemand: number;
+  dailyDemand: number;
+  available: number;
+  // Null when stock outlasts the horizon or there is no demand
+  daysOfCover: number | null;
+  stockOutDate: Date | null;
+}
+
+// Project available stock forward period by period until the forecast uses it up
+export const forecastProduct = (
+  product: Product,
+  transactions: Transaction[],
+  options: ForecastOptions = defaultForecastOptions,
+  today: Date = new Date()
+): ProductForecast => {
+  const days = intervalDays[options.interval];
+  const series = buildDemandSeries(transactions, product.id, options.interval, options.periods, today);
+  const forecast = projectDemand(series, options, Math.ceil(options.horizonDays / days));
+  const periodDemand = forecast.length > 0
+    ? forecast.reduce((total, value) => total + value, 0) / forecast.length
+    : 0;
+  const { available } = getStockSummary(product, transactions);
+
+  // Nothing available is already a stock-out
+  let remaining = available;
+  let daysOfCover: number | null = available <= 0 ? 0 : null;
+  for (let i = 0; i < forecast.length && daysOfCover === null; i++) {
+    const demand = forecast[i] || 0;
+    if (demand >= remaining && demand > 0) {
+      daysOfCover = i * days + (remaining / demand) * days;
+      break;
+    }
+    remaining -= demand;
+  }
+  if (daysOfCover !== null && daysOfCover > options.horizonDays) daysOfCover = null;
+
+  return {
+    product,
+    series,
+    forecast,
+    periodDemand,
+    dailyDemand: periodDemand / days,
+    available,
+    daysOfCover,
+    stockOutDate: daysOfCover !== null ? addDays(startOfDay(today), Math.floor(daysOfCover)) : null
+  };
+};
+
+// Forecasts for a set of products, soonest stock-out first
+export const forecastProducts = (
+  products: Product[],
+  transactions: Transaction[],
+  options: ForecastOptions = defaultForecastOptions,
+  today: Date = new Date()
+): ProductForecast[] => {
+  return products
+    .map(product => forecastProduct(product, transactions, options, today))
+    .sort((a, b) =>
+      (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity) ||
+      a.product.sku.localeCompare(b.product.sku)
+    );
+};
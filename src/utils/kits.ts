@@ -0,0 +1,87 @@
+import { KitComponent, LocationStock, LotStock, Product, Transaction } from '../types';
+import { adjustLocationStock, getHeldQuantity, getStockSummary, removeStock } from './stock';
+import { consumeLots, suggestFefoAllocation } from './lots';
+
+export const isKit = (product?: Product): boolean => Boolean(product?.components?.length);
+
+// Component quantities needed to assemble, or released by disassembling, a number of kits
+export const getComponentRequirements = (kit: Product, kits: number): KitComponent[] => {
+  return (kit.components || []).map((component: KitComponent) => ({
+    productId: component.productId,
+    quantity: Number(component.quantity) * kits
+  }));
+};
+
+// Kits that can be built from available component stock
+export const getAvailableToBuild = (kit: Product, products: Product[], transactions: Transaction[]): number => {
+  if (!isKit(kit)) return 0;
+  return Math.min(...(kit.components as KitComponent[]).map(component => {
+    const product = products.find(p => p.id === component.productId);
+    if (!product || Number(component.quantity) <= 0) return 0;
+    return Math.floor(getStockSummary(product, transactions).available / Number(component.quantity));
+  }));
+};
+
+// Components must be other, non-kit, non-serialized products with whole quantities
+export const validateKitComponents = (kitId: string | undefined, components: KitComponent[], products: Product[]): string | null => {
+  const seen = new Set<string>();
+  for (const component of components) {
+    const product = products.find(p => p.id === component.productId);
+    if (!product) return 'Select a product for every component';
+    if (product.id === kitId) return 'A kit cannot contain itself';
+    if (isKit(product)) return `${product.sku} is a kit and cannot be a component`;
+    if (product.serialized) return `${product.sku} is serialized and cannot be a kit component`;
+    if (seen.has(product.id)) return `${product.sku} is listed more than once`;
+    if (!Number.isInteger(Number(component.quantity)) || Number(component.quantity) <= 0) {
+      return `Quantity of ${product.sku} must be a whole number greater than 0`;
+    }
+    seen.add(product.id);
+  }
+  return null;
+};
+
+// Post an assemble or disassemble workflow: components and kits change together or not at all.
+// Stock taken out comes from locations in order, as outbounds do, and consumes lots first-expired-first-out;
+// stock put back goes to the workflow location or the product's default location.
+export const postKitWorkflow = (
+  transaction: Transaction,
+  products: Product[],
+  stock: LocationStock[],
+  lots: LotStock[]
+): { products: Product[]; stock: LocationStock[]; lots: LotStock[] } | null => {
+  const kit = products.find(p => p.id === transaction.productId);
+  if (!kit || !isKit(kit)) return null;
+
+  const kits = Number(transaction.quantity);
+  const sign = transaction.type === 'assemble' ? 1 : -1;
+  const moves = [
+    { productId: kit.id, delta: sign * kits },
+    ...getComponentRequirements(kit, kits).map(c => ({ productId: c.productId, delta: -sign * c.quantity }))
+  ];
+
+  // Held stock can't be used, and nothing may go below zero
+  const short = moves.some(move => {
+    const product = products.find(p => p.id === move.productId);
+    return !product || (move.delta < 0 && Number(product.quantity) - getHeldQuantity(product) + move.delta < 0);
+  });
+  if (short) return null;
+
+  let newStock = stock;
+  let newLots = lots;
+  const newProducts = products.map(product => {
+    const move = moves.find(m => m.productId === product.id);
+    if (!move) return product;
+
+    if (move.delta > 0) {
+      newStock = adjustLocationStock(newStock, product.id, transaction.location || product.location, move.delta);
+    } else {
+      newStock = removeStock(newStock, product.id, -move.delta);
+      newLots = consumeLots(newLots, product.id, suggestFefoAllocation(newLots, product.id, -move.delta));
+    }
+
+    const quantity = Number(product.quantity) + move.delta;
+    return { ...product, quantity, cbm: quantity * product.unitCbm, updatedAt: new Date() };
+  });
+
+  return { products: newProducts, stock: newStock, lots: newLots };
+};
@@ -0,0 +1,168 @@
+import { ContainerType, LoadItem, PalletSpec, Product } from '../types';
+import { calculateProductCBM, calculateUnitCBM, getProductDimensions, getProductWeight } from './calculations';
+
+// Inside dimensions in inches and payload in lbs
+export interface ContainerSpec {
+  label: string;
+  length: number;
+  width: number;
+  height: number;
+  maxPayload: number;
+}
+
+export interface PalletLayer {
+  layer: number;
+  units: number;
+  height: number;
+}
+
+// Identical single-SKU pallets built for one product
+export interface PalletGroup {
+  productId: string;
+  pallets: number;
+  units: number;
+  layers: PalletLayer[];
+  height: number;
+  weight: number;
+}
+
+export interface ContainerFill {
+  type: ContainerType;
+  containers: number;
+  positions: number;
+  stacks: number;
+  floorUtilisation: number;
+  volumeUtilisation: number;
+  weightUtilisation: number;
+}
+
+export const containerSpecs: Record<ContainerType, ContainerSpec> = {
+  '20ft': { label: "20' Standard", length: 232, width: 92, height: 94, maxPayload: 47900 },
+  '40ft': { label: "40' Standard", length: 473, width: 92, height: 94, maxPayload: 58900 },
+  '40hc': { label: "40' High Cube", length: 473, width: 92, height: 106, maxPayload: 58400 }
+};
+
+export const defaultPalletSpec: PalletSpec = {
+  length: 48,
+  width: 40,
+  baseHeight: 6,
+  maxHeight: 60,
+  maxWeight: 2000,
+  tareWeight: 50,
+  stackable: false
+};
+
+// Rectangles of one size that fit on a floor, trying both turns of the rectangle
+const floorFit = (floorLength: number, floorWidth: number, length: number, width: number) => Math.max(
+  Math.floor(floorLength / length) * Math.floor(floorWidth / width),
+  Math.floor(floorLength / width) * Math.floor(floorWidth / length)
+);
+
+const toPercent = (value: number) => Number((value * 100).toFixed(1));
+
+// Build one pallet of a product layer by layer
+const buildPallet = (product: Product, units: number, perLayer: number, spec: PalletSpec): Omit<PalletGroup, 'pallets'> => {
+  const layers: PalletLayer[] = [];
+  let remaining = units;
+  while (remaining > 0) {
+    const layerUnits = Math.min(perLayer, remaining);
+    layers.push({
+      layer: layers.length + 1,
+      units: layerUnits,
+      height: Number((spec.baseHeight + (layers.length + 1) * getProductDimensions(product, 'in').height).toFixed(2))
+    });
+    remaining -= layerUnits;
+  }
+
+  return {
+    productId: product.id,
+    units,
+    layers,
+    height: layers[layers.length - 1]?.height || spec.baseHeight,
+    weight: Number((spec.tareWeight + units * getProductWeight(product, 'lb')).toFixed(2))
+  };
+};
+
+// Palletise each product on its own pallets, kept upright. A pallet stops at the stacking
+// height or the load weight limit, whichever comes first. Products without dimensions,
+// or too big for the pallet, are returned as unpalletised.
+export const planPallets = (
+  items: LoadItem[],
+  products: Product[],
+  spec: PalletSpec
+): { groups: PalletGroup[]; unpalletised: LoadItem[] } => {
+  const groups: PalletGroup[] = [];
+  const unpalletised: LoadItem[] = [];
+
+  items.forEach(item => {
+    const product = products.find(p => p.id === item.productId);
+    if (!product || item.quantity <= 0) return;
+
+    const { length, width, height } = getProductDimensions(product, 'in');
+    const weight = getProductWeight(product, 'lb');
+    const perLayer = length && width ? floorFit(spec.length, spec.width, length, width) : 0;
+    const layersByHeight = height ? Math.floor((spec.maxHeight - spec.baseHeight) / height) : 0;
+    const unitsByWeight = weight > 0 && spec.maxWeight > 0 ? Math.floor(spec.maxWeight / weight) : Infinity;
+    const unitsPerPallet = Math.min(perLayer * layersByHeight, unitsByWeight);
+
+    if (unitsPerPallet <= 0) {
+      unpalletised.push({ productId: item.productId, quantity: item.quantity });
+      return;
+    }
+
+    const fullPallets = Math.floor(item.quantity / unitsPerPallet);
+    const remainder = item.quantity % unitsPerPallet;
+    if (fullPallets > 0) {
+      groups.push({ ...buildPallet(product, unitsPerPallet, perLayer, spec), pallets: fullPallets });
+    }
+    if (remainder > 0) {
+      groups.push({ ...buildPallet(product, remainder, perLayer, spec), pallets: 1 });
+    }
+  });
+
+  return { groups, unpalletised };
+};
+
+// Load pallets onto the container floor, stacking them when the pallet allows it and
+// the container is tall enough. Containers needed is the larger of the floor and payload count.
+export const planContainerFill = (
+  groups: PalletGroup[],
+  products: Product[],
+  spec: PalletSpec,
+  type: ContainerType
+): ContainerFill => {
+  const container = containerSpecs[type];
+  const positions = floorFit(container.length, container.width, spec.length, spec.width);
+
+  const heights = groups
+    .flatMap(group => Array<number>(group.pallets).fill(group.height))
+    .sort((a, b) => b - a);
+  const stackHeights: number[] = [];
+  heights.forEach(height => {
+    const index = spec.stackable ? stackHeights.findIndex(h => h + height <= container.height) : -1;
+    if (index >= 0) stackHeights[index] = (stackHeights[index] || 0) + height;
+    else stackHeights.push(height);
+  });
+
+  const stacks = stackHeights.length;
+  const weight = groups.reduce((total, group) => total + group.weight * group.pallets, 0);
+  const cbm = groups.reduce((total, group) => {
+    const product = products.find(p => p.id === group.productId);
+    return product ? total + calculateProductCBM(product, group.units * group.pallets) : total;
+  }, 0);
+
+  const containers = stacks === 0 || positions === 0
+    ? 0
+    : Math.max(Math.ceil(stacks / positions), Math.ceil(weight / container.maxPayload));
+  const containerCbm = calculateUnitCBM(container.length, container.width, container.height);
+
+  return {
+    type,
+    containers,
+    positions,
+    stacks,
+    floorUtilisation: containers ? toPercent(stacks / (containers * positions)) : 0,
+    volumeUtilisation: containers ? toPercent(cbm / (containers * containerCbm)) : 0,
+    weightUtilisation: containers ? toPercent(weight / (containers * container.maxPayload)) : 0
+  };
+};
@@ -0,0 +1,63 @@
+import { LocationStock, Product, WarehouseLocation } from '../types';
+import { calculateProductCBM, getProductWeight } from './calculations';
+
+// Normalise one part of a location code so "a1", "A 01" and "A-01" don't diverge
+const normalizePart = (part: string) => part.trim().toUpperCase().replace(/[\s-]+/g, '');
+
+// Build the canonical ZONE-AISLE-RACK-BIN code for a location
+export const formatLocationCode = (zone: string, aisle: string, rack: string, bin: string): string => {
+  return [zone, aisle, rack, bin].map(normalizePart).join('-');
+};
+
+// Calculate the CBM and weight currently stored in a location
+export const getLocationUsage = (code: string, stock: LocationStock[], products: Product[]) => {
+  return stock
+    .filter(s => s.location === code)
+    .reduce((usage, s) => {
+      const product = products.find(p => p.id === s.productId);
+      if (!product) return usage;
+      return {
+        cbm: usage.cbm + calculateProductCBM(product, s.quantity),
+        weight: usage.weight + getProductWeight(product, 'lb') * s.quantity
+      };
+    }, { cbm: 0, weight: 0 });
+};
+
+// Check whether a location can take the given quantity of a product
+export const checkLocationCapacity = (
+  location: WarehouseLocation,
+  product: Product,
+  quantity: number,
+  stock: LocationStock[],
+  products: Product[]
+): string | null => {
+  const usage = getLocationUsage(location.code, stock, products);
+  const incomingCbm = calculateProductCBM(product, quantity);
+  const incomingWeight = getProductWeight(product, 'lb') * quantity;
+
+  if (location.maxCbm > 0 && usage.cbm + incomingCbm > location.maxCbm) {
+    return `Location ${location.code} exceeds its CBM capacity (${(usage.cbm + incomingCbm).toFixed(3)} / ${location.maxCbm} m³)`;
+  }
+  if (location.maxWeight > 0 && usage.weight + incomingWeight > location.maxWeight) {
+    return `Location ${location.code} exceeds its weight capacity (${(usage.weight + incomingWeight).toFixed(2)} / ${location.maxWeight} lbs)`;
+  }
+  return null;
+};
+
+// Build SearchableSelect options for the location master
+export const getLocationOptions = (
+  locations: WarehouseLocation[],
+  stock: LocationStock[],
+  products: Product[]
+) => {
+  return [...locations]
+    .sort((a, b) => a.code.localeCompare(b.code))
+    .map(location => {
+      const usage = getLocationUsage(location.code, stock, products);
+      return {
+        value: location.code,
+        label: location.code,
+        description: `Zone ${location.zone} | ${usage.cbm.toFixed(3)} / ${location.maxCbm} m³`
+      };
+    });
+};
@@ -0,0 +1,74 @@
+import { LotAllocation, LotStock } from '../types';
+
+// Sort lots first-expired-first-out; lots without an expiry date go last
+const compareExpiry = (a: LotStock, b: LotStock) => {
+  if (!a.expiryDate && !b.expiryDate) return a.lotNumber.localeCompare(b.lotNumber);
+  if (!a.expiryDate) return 1;
+  if (!b.expiryDate) return -1;
+  return a.expiryDate.localeCompare(b.expiryDate);
+};
+
+// Get the lots in stock for a product in FEFO order
+export const getProductLots = (lots: LotStock[], productId: string): LotStock[] => {
+  return lots
+    .filter(l => l.productId === productId && l.quantity > 0)
+    .sort(compareExpiry);
+};
+
+// Add received quantity to a lot, creating it if needed
+export const receiveLot = (
+  lots: LotStock[],
+  productId: string,
+  lotNumber: string,
+  quantity: number,
+  expiryDate?: string
+): LotStock[] => {
+  const exists = lots.some(l => l.productId === productId && l.lotNumber === lotNumber);
+  if (!exists) {
+    return [...lots, { productId, lotNumber, expiryDate, quantity }];
+  }
+  return lots.map(l =>
+    l.productId === productId && l.lotNumber === lotNumber
+      ? { ...l, quantity: l.quantity + quantity, expiryDate: l.expiryDate || expiryDate }
+      : l
+  );
+};
+
+// Suggest which lots to pick a quantity from, earliest expiry first
+export const suggestFefoAllocation = (lots: LotStock[], productId: string, quantity: number): LotAllocation[] => {
+  let remaining = quantity;
+  const allocations: LotAllocation[] = [];
+
+  getProductLots(lots, productId).forEach(lot => {
+    if (remaining <= 0) return;
+    const taken = Math.min(lot.quantity, remaining);
+    allocations.push({ lotNumber: lot.lotNumber, quantity: taken });
+    remaining -= taken;
+  });
+
+  return allocations;
+};
+
+// Deduct picked quantities from their lots, dropping empty lots
+export const consumeLots = (lots: LotStock[], productId: string, allocations: LotAllocation[]): LotStock[] => {
+  return lots
+    .map(l => {
+      if (l.productId !== productId) return l;
+      const picked = allocations
+        .filter(a => a.lotNumber === l.lotNumber)
+        .reduce((total, a) => total + Number(a.quantity), 0);
+      return picked > 0 ? { ...l, quantity: l.quantity - picked } : l;
+    })
+    .filter(l => l.quantity > 0);
+};
+
+// Get lots that expire within the given number of days (including already expired lots)
+export const getExpiringLots = (lots: LotStock[], days: number, today = new Date()): LotStock[] => {
+  const cutoff = new Date(today);
+  cutoff.setDate(cutoff.getDate() + days);
+  const cutoffDate = cutoff.toISOString().split('T')[0] || '';
+
+  return lots
+    .filter(l => l.quantity > 0 && l.expiryDate && l.expiryDate <= cutoffDate)
+    .sort(compareExpiry);
+};
@@ -0,0 +1,75 @@
+import { Order, OrderPriority, OrderStatus, Transaction } from '../types';
+
+export const orderPriorityLabels: Record<OrderPriority, string> = {
+  low: 'Low',
+  normal: 'Normal',
+  high: 'High',
+  urgent: 'Urgent'
+};
+
+export const orderPriorityColors: Record<OrderPriority, string> = {
+  low: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+  normal: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  high: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
+  urgent: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+};
+
+// Sort rank for priorities, most urgent first
+export const orderPriorityRank: Record<OrderPriority, number> = {
+  urgent: 0,
+  high: 1,
+  normal: 2,
+  low: 3
+};
+
+export const orderStatusLabels: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  partial: 'Partially Completed',
+  completed: 'Completed',
+  cancelled: 'Cancelled'
+};
+
+export const orderStatusColors: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  partial: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  completed: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  cancelled: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+};
+
+// Derive an order's status from its lines; backordered lines are still open
+export const getOrderStatus = (lines: Transaction[]): OrderStatus => {
+  const isOpen = (line: Transaction) => line.status === 'pending' || line.status === 'backordered';
+  if (lines.every(line => line.status === 'cancelled')) return 'cancelled';
+  if (lines.every(isOpen)) return 'pending';
+  if (lines.some(isOpen)) return 'partial';
+  return 'completed';
+};
+
+export type WorkflowRow =
+  | { kind: 'order'; order: Order; lines: Transaction[] }
+  | { kind: 'transaction'; transaction: Transaction };
+
+// Group order lines under their order; workflows outside an order stay as single rows
+export const groupWorkflowRows = (transactions: Transaction[], orders: Order[]): WorkflowRow[] => {
+  const rows: WorkflowRow[] = [];
+
+  transactions.forEach(transaction => {
+    const order = transaction.orderId && orders.find(o => o.id === transaction.orderId);
+    if (!order) {
+      rows.push({ kind: 'transaction', transaction });
+      return;
+    }
+
+    const existing = rows.find(row => row.kind === 'order' && row.order.id === order.id);
+    if (existing && existing.kind === 'order') {
+      existing.lines.push(transaction);
+    } else {
+      rows.push({ kind: 'order', order, lines: [transaction] });
+    }
+  });
+
+  const getCreatedAt = (row: WorkflowRow) =>
+    new Date(row.kind === 'order' ? row.order.createdAt : row.transaction.createdAt).getTime();
+
+  return rows.sort((a, b) => getCreatedAt(b) - getCreatedAt(a));
+};
@@ -0,0 +1,130 @@
+import { BoxType, PackRecord, Product, ShipToAddress, Transaction, UnitSystem } from '../types';
+import { formatLength, formatWeight, toSystemLength } from './calculations';
+import { formatShipToLines } from './consignees';
+
+interface PackingSlip {
+  workflowNumber: string;
+  referenceNumber?: string;
+  requestedDate?: string;
+  shipTo?: ShipToAddress;
+  notes?: string;
+  lines: Transaction[];
+}
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Printable HTML document for an outbound order or single outbound workflow
+export const generatePackingSlip = (slip: PackingSlip, products: Product[]): string => {
+  const shipTo = slip.shipTo
+    ? formatShipToLines(slip.shipTo).map(escapeHtml).join('<br>')
+    : 'No ship-to address';
+
+  const rows = slip.lines
+    .filter(line => line.status !== 'cancelled')
+    .map(line => {
+      const product = products.find(p => p.id === line.productId);
+      const serials = (line.serialNumbers || []).join(', ');
+      return `<tr>
+        <td>${escapeHtml(product?.sku || 'N/A')}</td>
+        <td>${escapeHtml(product?.name || 'Unknown Product')}${serials ? `<div class="small">S/N: ${escapeHtml(serials)}</div>` : ''}</td>
+        <td class="qty">${line.quantity}</td>
+      </tr>`;
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>Packing Slip ${escapeHtml(slip.workflowNumber)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; font-size: 13px; margin: 32px; }
+    h1 { font-size: 20px; margin-bottom: 16px; }
+    .header { display: flex; justify-content: space-between; margin-bottom: 24px; }
+    .label { font-weight: bold; margin-bottom: 4px; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { border-bottom: 1px solid #ccc; padding: 6px; text-align: left; vertical-align: top; }
+    .qty { text-align: right; }
+    .small { font-size: 11px; color: #555; }
+  </style>
+</head>
+<body>
+  <h1>Packing Slip</h1>
+  <div class="header">
+    <div>
+      <div class="label">Ship To</div>
+      <div>${shipTo}</div>
+    </div>
+    <div>
+      <div><span class="label">Workflow:</span> ${escapeHtml(slip.workflowNumber)}</div>
+      ${slip.referenceNumber ? `<div><span class="label">Reference:</span> ${escapeHtml(slip.referenceNumber)}</div>` : ''}
+      ${slip.requestedDate ? `<div><span class="label">Requested:</span> ${escapeHtml(slip.requestedDate)}</div>` : ''}
+      <div><span class="label">Printed:</span> ${new Date().toLocaleDateString()}</div>
+    </div>
+  </div>
+  <table>
+    <thead><tr><th>SKU</th><th>Description</th><th class="qty">Quantity</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+  ${slip.notes ? `<p><span class="label">Notes:</span> ${escapeHtml(slip.notes)}</p>` : ''}
+</body>
+</html>`;
+};
+
+// Printable packing list with one section per carton
+export const generateCartonPackingList = (
+  record: PackRecord,
+  products: Product[],
+  boxes: BoxType[],
+  system: UnitSystem = 'imperial'
+): string => {
+  const sections = record.cartons
+    .map((carton, index) => {
+      const box = boxes.find(b => b.id === carton.boxId);
+      const rows = carton.items
+        .map(item => {
+          const product = products.find(p => p.id === item.productId);
+          return `<tr>
+          <td>${escapeHtml(product?.sku || 'N/A')}</td>
+          <td>${escapeHtml(product?.name || 'Unknown Product')}</td>
+          <td class="qty">${item.quantity}</td>
+        </tr>`;
+        })
+        .join('');
+      return `<div class="carton">
+      <h2>Carton ${index + 1} of ${record.cartons.length} - ${escapeHtml(carton.cartonNumber)}</h2>
+      <div class="small">${escapeHtml(box?.name || 'Custom box')}${box ? ` (${toSystemLength(box.length, system)} x ${toSystemLength(box.width, system)} x ${formatLength(box.height, system)})` : ''}, ${formatWeight(Number(carton.weight), system)}</div>
+      <table>
+        <thead><tr><th>SKU</th><th>Description</th><th class="qty">Quantity</th></tr></thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </div>`;
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>Packing List ${escapeHtml(record.workflowNumber)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; font-size: 13px; margin: 32px; }
+    h1 { font-size: 20px; margin-bottom: 4px; }
+    h2 { font-size: 15px; margin: 0 0 4px; }
+    .carton { page-break-inside: avoid; margin-top: 24px; }
+    table { width: 100%; border-collapse: collapse; margin-top: 8px; }
+    th, td { border-bottom: 1px solid #ccc; padding: 6px; text-align: left; }
+    .qty { text-align: right; }
+    .small { font-size: 11px; color: #555; }
+  </style>
+</head>
+<body>
+  <h1>Packing List - ${escapeHtml(record.workflowNumber)}</h1>
+  <div class="small">${record.cartons.length} cartons, packed ${new Date(record.packedAt).toLocaleString()}${record.packedBy ? ` by ${escapeHtml(record.packedBy)}` : ''}</div>
+  ${sections}
+</body>
+</html>`;
+};
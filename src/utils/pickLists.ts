@@ -0,0 +1,107 @@
+import { LocationStock, PickListLine, Product, Transaction } from '../types';
+import { adjustLocationStock, getLocationQuantity, getProductStock } from './stock';
+import { escapeHtml } from './packingSlips';
+
+const addPick = (lines: PickListLine[], productId: string, location: string, quantity: number, transactionId: string) => {
+  const existing = lines.find(l => l.productId === productId && l.location === location);
+  if (existing) {
+    existing.quantity += quantity;
+    if (!existing.transactionIds.includes(transactionId)) existing.transactionIds.push(transactionId);
+  } else {
+    lines.push({ productId, location, quantity, transactionIds: [transactionId] });
+  }
+};
+
+// Allocate outbounds to locations the same way completing them removes stock,
+// then merge by SKU and location and sort by location code to give a single walk.
+// Quantity that can't be allocated is listed with an empty location.
+export const buildPickList = (
+  transactions: Transaction[],
+  stock: LocationStock[],
+  products: Product[]
+): PickListLine[] => {
+  const lines: PickListLine[] = [];
+  let remainingStock = stock;
+
+  transactions.forEach(transaction => {
+    const quantity = Number(transaction.quantity);
+    // A chosen bin is picked for what it still holds; the rest is short
+    if (transaction.location) {
+      const taken = Math.min(Math.max(getLocationQuantity(remainingStock, transaction.productId, transaction.location), 0), quantity);
+      if (taken > 0) {
+        addPick(lines, transaction.productId, transaction.location, taken, transaction.id);
+        remainingStock = adjustLocationStock(remainingStock, transaction.productId, transaction.location, -taken);
+      }
+      if (quantity > taken) {
+        addPick(lines, transaction.productId, '', quantity - taken, transaction.id);
+      }
+      return;
+    }
+
+    let remaining = quantity;
+    getProductStock(remainingStock, transaction.productId).forEach(entry => {
+      if (remaining <= 0) return;
+      const taken = Math.min(entry.quantity, remaining);
+      addPick(lines, transaction.productId, entry.location, taken, transaction.id);
+      remainingStock = adjustLocationStock(remainingStock, transaction.productId, entry.location, -taken);
+      remaining -= taken;
+    });
+    if (remaining > 0) {
+      addPick(lines, transaction.productId, '', remaining, transaction.id);
+    }
+  });
+
+  const getSku = (productId: string) => products.find(p => p.id === productId)?.sku || '';
+  return lines.sort((a, b) => {
+    if (!a.location !== !b.location) return a.location ? -1 : 1;
+    return a.location.localeCompare(b.location) || getSku(a.productId).localeCompare(getSku(b.productId));
+  });
+};
+
+// Printable pick sheet with a tick box per line
+export const generatePickSheet = (
+  lines: PickListLine[],
+  transactions: Transaction[],
+  products: Product[]
+): string => {
+  const rows = lines
+    .map(line => {
+      const product = products.find(p => p.id === line.productId);
+      const workflows = line.transactionIds
+        .map(id => transactions.find(t => t.id === id)?.workflowNumber || '')
+        .join(', ');
+      return `<tr>
+        <td class="check">&#9744;</td>
+        <td>${escapeHtml(line.location || 'NO STOCK')}</td>
+        <td>${escapeHtml(product?.sku || 'N/A')}</td>
+        <td>${escapeHtml(product?.name || 'Unknown Product')}</td>
+        <td class="qty">${line.quantity}</td>
+        <td class="small">${escapeHtml(workflows)}</td>
+      </tr>`;
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>Pick List</title>
+  <style>
+    body { font-family: Arial, sans-serif; font-size: 13px; margin: 32px; }
+    h1 { font-size: 20px; margin-bottom: 4px; }
+    table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+    th, td { border-bottom: 1px solid #ccc; padding: 6px; text-align: left; vertical-align: top; }
+    .check { font-size: 18px; width: 24px; }
+    .qty { text-align: right; }
+    .small { font-size: 11px; color: #555; }
+  </style>
+</head>
+<body>
+  <h1>Pick List</h1>
+  <div class="small">${transactions.length} workflows, ${lines.length} picks, printed ${new Date().toLocaleString()}</div>
+  <table>
+    <thead><tr><th></th><th>Location</th><th>SKU</th><th>Description</th><th class="qty">Quantity</th><th>Workflows</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+</body>
+</html>`;
+};
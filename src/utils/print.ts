@@ -0,0 +1,10 @@
+// Open a document in a new window and hand it to the browser's print dialog.
+// Returns false when the window was blocked.
+export const openPrintWindow = (html: string): boolean => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.print();
+  return true;
+};
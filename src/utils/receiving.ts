@@ -0,0 +1,39 @@
+import { Product, ReceivingDiscrepancy, Transaction } from '../types';
+
+// Short and over quantities of a receipt against what the workflow expected
+export const getReceivingVariance = (expectedQuantity: number, receivedQuantity: number) => {
+  return {
+    short: Math.max(0, expectedQuantity - receivedQuantity),
+    over: Math.max(0, receivedQuantity - expectedQuantity)
+  };
+};
+
+// Build the discrepancy record for a received inbound, or null when it arrived exactly as expected
+export const buildReceivingDiscrepancy = (
+  transaction: Transaction,
+  product: Product | undefined,
+  receivedBy?: string
+): ReceivingDiscrepancy | null => {
+  const expectedQuantity = Number(transaction.expectedQuantity ?? transaction.quantity);
+  const receivedQuantity = Number(transaction.quantity);
+  const damagedQuantity = Number(transaction.damagedQuantity || 0);
+  const { short, over } = getReceivingVariance(expectedQuantity, receivedQuantity);
+
+  if (short === 0 && over === 0 && damagedQuantity === 0) return null;
+
+  return {
+    id: crypto.randomUUID(),
+    transactionId: transaction.id,
+    workflowNumber: transaction.workflowNumber,
+    productId: transaction.productId,
+    vendorNumber: product?.vendorNumber || '',
+    expectedQuantity,
+    receivedQuantity,
+    shortQuantity: short,
+    overQuantity: over,
+    damagedQuantity,
+    receivedBy,
+    notes: transaction.receivingNotes,
+    createdAt: new Date()
+  };
+};
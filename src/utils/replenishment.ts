@@ -0,0 +1,83 @@
+import { Product, Transaction } from '../types';
+import { getStockSummary } from './stock';
+import { isKit } from './kits';
+
+// Products may set `reorderPoint` and `reorderQuantity`; without them the reorder point
+// falls back to minStockLevel and the reorder quantity to the reorder point
+export const getReorderPoint = (product: Product): number =>
+  Number(product.reorderPoint ?? product.minStockLevel ?? 0);
+
+export const getReorderQuantity = (product: Product): number =>
+  Number(product.reorderQuantity) || Math.max(getReorderPoint(product), 1);
+
+// Quantity still to arrive on pending inbound workflows
+export const getOnOrderQuantity = (transactions: Transaction[], productId: string): number => {
+  return transactions
+    .filter(t => t.productId === productId && t.type === 'inbound' && t.status === 'pending')
+    .reduce((total, t) => total + Number(t.quantity), 0);
+};
+
+export const getBackorderedQuantity = (transactions: Transaction[], productId: string): number => {
+  return transactions
+    .filter(t => t.productId === productId && t.type === 'outbound' && t.status === 'backordered')
+    .reduce((total, t) => total + Number(t.quantity), 0);
+};
+
+export interface ReplenishmentSuggestion {
+  product: Product;
+  available: number;
+  onOrder: number;
+  backordered: number;
+  position: number;
+  reorderPoint: number;
+  suggestedQuantity: number;
+}
+
+// Inventory position is available stock plus what is on order, less what is backordered.
+// At or below the reorder point, suggest enough whole reorder quantities to lift it back above.
+export const getReplenishmentSuggestion = (
+  product: Product,
+  transactions: Transaction[]
+): ReplenishmentSuggestion | null => {
+  const reorderPoint = getReorderPoint(product);
+  const { available } = getStockSummary(product, transactions);
+  const onOrder = getOnOrderQuantity(transactions, product.id);
+  const backordered = getBackorderedQuantity(transactions, product.id);
+  const position = available + onOrder - backordered;
+  // Products without a reorder point are only replenished to cover backorders
+  if (position > reorderPoint || (reorderPoint === 0 && backordered === 0)) return null;
+
+  const reorderQuantity = getReorderQuantity(product);
+  const shortfall = reorderPoint - position + 1;
+  return {
+    product,
+    available,
+    onOrder,
+    backordered,
+    position,
+    reorderPoint,
+    suggestedQuantity: Math.ceil(shortfall / reorderQuantity) * reorderQuantity
+  };
+};
+
+// Suggestions for every product at or below its reorder point, grouped by vendor.
+// Kits are built from their components rather than ordered, so they are left out.
+export const getReplenishmentSuggestions = (
+  products: Product[],
+  transactions: Transaction[]
+): ReplenishmentSuggestion[] => {
+  return products
+    .filter(product => !isKit(product))
+    .map(product => getReplenishmentSuggestion(product, transactions))
+    .filter((suggestion): suggestion is ReplenishmentSuggestion => suggestion !== null)
+    .sort((a, b) =>
+      a.product.vendorNumber.localeCompare(b.product.vendorNumber) ||
+      a.product.sku.localeCompare(b.product.sku)
+    );
+};
+
+// Lines handed to the Orders page as router state to prefill an inbound request
+export interface InboundRequestLine {
+  productId: string;
+  quantity: number;
+}
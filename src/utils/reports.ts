@@ -1,4 +1,68 @@
-import { Product, Transaction } from '../types';
+import { AdjustmentReason, CycleCount, LotStock, PackRecord, Product, ReceivingDiscrepancy, Rma, RmaDisposition, RmaLine, ShipToAddress, StockStatus, Transaction, UnitSystem } from '../types';
+import { adjustmentReasonLabels } from './workflow';
+import { stockStatusLabels } from './stock';
+import { cycleCountScopeLabels } from './cycleCounts';
+import { getExpiringLots } from './lots';
+import { formatShipToLines } from './consignees';
+import { rmaStatusLabels } from './rmas';
+import { ForecastOptions, forecastModelLabels, forecastProducts } from './forecasting';
+import { AbcOptions, abcBasisLabels, analyzeAbc } from './abc';
+import { getPackSummary } from './cartonization';
+import {
+  calculateDimWeight,
+  convertWeight,
+  defaultDimWeightDivisors,
+  getProductDimensions,
+  getProductWeight,
+  unitSystemUnits
+} from './calculations';
+
+// Resolve the source and destination locations a workflow touched
+const getMovementLocations = (transaction: Transaction): [string, string] => {
+  switch (transaction.type) {
+    case 'inbound':
+      return ['', transaction.location || ''];
+    case 'transfer':
+      return [transaction.location || '', transaction.toLocation || ''];
+    case 'adjustment':
+      return transaction.quantity < 0 ? [transaction.location || '', ''] : ['', transaction.location || ''];
+    case 'status_change':
+      return ['', ''];
+    case 'assemble':
+    case 'disassemble':
+      return ['', transaction.location || ''];
+    default:
+      return [transaction.location || '', ''];
+  }
+};
+
+// Adjustment reason, or the statuses a status change moved stock between
+const getTransactionReason = (transaction: Transaction): string => {
+  if (transaction.type === 'status_change') {
+    return `${stockStatusLabels[transaction.fromStatus as StockStatus]} to ${stockStatusLabels[transaction.toStatus as StockStatus]}`;
+  }
+  return transaction.reasonCode ? adjustmentReasonLabels[transaction.reasonCode as AdjustmentReason] : '';
+};
+
+// Lot received by an inbound, or the lots picked by an outbound as "LOT1:5; LOT2:3"
+const getTransactionLots = (transaction: Transaction): string => {
+  if (transaction.lotNumber) return transaction.lotNumber;
+  return (transaction.lotAllocations || [])
+    .map((allocation: { lotNumber: string; quantity: number }) => `${allocation.lotNumber}:${allocation.quantity}`)
+    .join('; ');
+};
+
+// Ship-to address on a single CSV cell, e.g. "Acme / Attn: Jo / 1 Main St / Springfield IL 62701"
+const getShipToCell = (shipTo?: ShipToAddress): string => {
+  if (!shipTo) return '';
+  return formatShipToLines(shipTo).join(' / ').replace(/,/g, '');
+};
+
+// Free text typed by staff, flattened to one line so it stays in a single cell
+const getTextCell = (text?: string): string => {
+  if (!text) return '';
+  return text.split(/\r?\n/).map(line => line.trim()).filter(Boolean).join(' / ').replace(/,/g, '');
+};
 
 export const generateStorageReport = (products: Product[], startDate: string, endDate: string): string => {
   const headers = ['Date', 'SKU', 'Name', 'Quantity', 'CBM'];
@@ -16,18 +80,37 @@ export const generateStorageReport = (products: Product[], startDate: string, en
   ].join('\n');
 };
 
-export const generateInventoryReport = (products: Product[], startDate: string, endDate: string): string => {
-  const headers = ['SKU', 'Name', 'Quantity', 'Min Stock Level', 'Location', 'Vendor Number', 'CBM', 'Status'];
-  const rows = products.map(product => [
-    product.sku,
-    product.name,
-    product.quantity,
-    product.minStockLevel,
-    product.location,
-    product.vendorNumber,
-    product.cbm,
-    product.quantity <= product.minStockLevel ? 'Low Stock' : 'Normal'
-  ]);
+export const generateInventoryReport = (
+  products: Product[],
+  startDate: string,
+  endDate: string,
+  unitSystem: UnitSystem = 'imperial',
+  dimWeightDivisors: Record<UnitSystem, number> = defaultDimWeightDivisors
+): string => {
+  const { dimension, weight } = unitSystemUnits[unitSystem];
+  const headers = [
+    'SKU', 'Name', 'Quantity', 'Min Stock Level', 'Location', 'Vendor Number',
+    `Length (${dimension})`, `Width (${dimension})`, `Height (${dimension})`,
+    `Weight (${weight})`, `Dim Weight (${weight})`, 'CBM', 'Status'
+  ];
+  const rows = products.map(product => {
+    const dimensions = getProductDimensions(product, dimension);
+    return [
+      product.sku,
+      product.name,
+      product.quantity,
+      product.minStockLevel,
+      product.location,
+      product.vendorNumber,
+      dimensions.length.toFixed(2),
+      dimensions.width.toFixed(2),
+      dimensions.height.toFixed(2),
+      getProductWeight(product, weight).toFixed(2),
+      calculateDimWeight(product, unitSystem, dimWeightDivisors),
+      product.cbm,
+      product.quantity <= product.minStockLevel ? 'Low Stock' : 'Normal'
+    ];
+  });
 
   return [
     headers.join(','),
@@ -39,8 +122,11 @@ export const generateTransactionReport = (
   transactions: Transaction[], 
   products: Product[], 
   startDate: string, 
-  endDate: string
+  endDate: string,
+  packRecords: PackRecord[] = [],
+  unitSystem: UnitSystem = 'imperial'
 ): string => {
+  const weightUnit = unitSystemUnits[unitSystem].weight;
   const startDateTime = new Date(startDate);
   const endDateTime = new Date(endDate);
   endDateTime.setHours(23, 59, 59, 999);
@@ -50,16 +136,24 @@ export const generateTransactionReport = (
     return transactionDate >= startDateTime && transactionDate <= endDateTime;
   });
 
-  const headers = ['Date', 'Type', 'SKU', 'Product Name', 'Quantity', 'Reference Number', 'Handler', 'Status'];
+  const headers = ['Date', 'Type', 'SKU', 'Product Name', 'Quantity', 'From Location', 'To Location', 'Reason', 'Lot', 'Reference Number', 'Ship To', 'Cartons', `Packed Weight (${weightUnit})`, 'Handler', 'Status'];
   const rows = filteredTransactions.map(transaction => {
     const product = products.find(p => p.id === transaction.productId);
+    // Cartons are packed per workflow number, so every line of an order shows the order's totals
+    const packSummary = getPackSummary(packRecords, transaction.workflowNumber);
     return [
       new Date(transaction.createdAt).toLocaleDateString(),
       transaction.type,
       product?.sku || 'N/A',
       product?.name || 'Unknown Product',
       transaction.quantity,
+      ...getMovementLocations(transaction),
+      getTransactionReason(transaction),
+      getTransactionLots(transaction),
       transaction.referenceNumber,
+      getShipToCell(transaction.shipTo),
+      packSummary?.cartons ?? '',
+      packSummary ? convertWeight(packSummary.weight, 'lb', weightUnit).toFixed(2) : '',
       transaction.handlerName,
       transaction.status
     ];
@@ -69,4 +163,246 @@ export const generateTransactionReport = (
     headers.join(','),
     ...rows.map(row => row.join(','))
   ].join('\n');
-};
\ No newline at end of file
+};
+
+export const generateCycleCountReport = (
+  cycleCounts: CycleCount[],
+  products: Product[],
+  startDate: string,
+  endDate: string
+): string => {
+  const startDateTime = new Date(startDate);
+  const endDateTime = new Date(endDate);
+  endDateTime.setHours(23, 59, 59, 999);
+
+  const filteredCounts = cycleCounts.filter(cycleCount => {
+    const countDate = new Date(cycleCount.createdAt);
+    return countDate >= startDateTime && countDate <= endDateTime;
+  });
+
+  const headers = ['Date', 'Count Number', 'Scope', 'Location', 'SKU', 'Product Name', 'System Quantity', 'Counted Quantity', 'Variance', 'Status', 'Counted By', 'Reviewed By'];
+  const rows = filteredCounts.flatMap(cycleCount =>
+    cycleCount.lines.map(line => {
+      const product = products.find(p => p.id === line.productId);
+      const hasVariance = line.systemQuantity !== undefined && line.countedQuantity !== undefined;
+      return [
+        new Date(cycleCount.createdAt).toLocaleDateString(),
+        cycleCount.countNumber,
+        `${cycleCountScopeLabels[cycleCount.scope]} ${cycleCount.scopeValue}`,
+        line.location,
+        product?.sku || 'N/A',
+        product?.name || 'Unknown Product',
+        line.systemQuantity ?? '',
+        line.countedQuantity ?? '',
+        hasVariance ? Number(line.countedQuantity) - Number(line.systemQuantity) : '',
+        cycleCount.status,
+        cycleCount.countedBy || '',
+        cycleCount.reviewedBy || ''
+      ];
+    })
+  );
+
+  return [
+    headers.join(','),
+    ...rows.map(row => row.join(','))
+  ].join('\n');
+};
+
+export const generateExpiryReport = (lots: LotStock[], products: Product[], days: number): string => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  const headers = ['SKU', 'Product Name', 'Vendor Number', 'Lot Number', 'Expiry Date', 'Days Until Expiry', 'Quantity'];
+  const rows = getExpiringLots(lots, days, today).map(lot => {
+    const product = products.find(p => p.id === lot.productId);
+    const daysUntilExpiry = Math.round(
+      (new Date(`${lot.expiryDate}T00:00:00`).getTime() - today.getTime()) / (24 * 60 * 60 * 1000)
+    );
+    return [
+      product?.sku || 'N/A',
+      product?.name || 'Unknown Product',
+      product?.vendorNumber || '',
+      lot.lotNumber,
+      lot.expiryDate,
+      daysUntilExpiry,
+      lot.quantity
+    ];
+  });
+
+  return [
+    headers.join(','),
+    ...rows.map(row => row.join(','))
+  ].join('\n');
+};
+
+export const generateDiscrepancyReport = (
+  discrepancies: ReceivingDiscrepancy[],
+  products: Product[],
+  startDate: string,
+  endDate: string,
+  vendorNumber?: string
+): string => {
+  const startDateTime = new Date(startDate);
+  const endDateTime = new Date(endDate);
+  endDateTime.setHours(23, 59, 59, 999);
+
+  // Group by vendor so each vendor's lines can be sent back together
+  const filteredDiscrepancies = discrepancies
+    .filter(discrepancy => {
+      const discrepancyDate = new Date(discrepancy.createdAt);
+      return discrepancyDate >= startDateTime &&
+        discrepancyDate <= endDateTime &&
+        (!vendorNumber || discrepancy.vendorNumber === vendorNumber);
+    })
+    .sort((a, b) =>
+      a.vendorNumber.localeCompare(b.vendorNumber) ||
+      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+
+  const headers = ['Vendor Number', 'Date', 'Workflow Number', 'SKU', 'Product Name', 'Expected', 'Received', 'Short', 'Over', 'Damaged', 'Received By', 'Notes'];
+  const rows = filteredDiscrepancies.map(discrepancy => {
+    const product = products.find(p => p.id === discrepancy.productId);
+    return [
+      discrepancy.vendorNumber,
+      new Date(discrepancy.createdAt).toLocaleDateString(),
+      discrepancy.workflowNumber,
+      product?.sku || 'N/A',
+      product?.name || 'Unknown Product',
+      discrepancy.expectedQuantity,
+      discrepancy.receivedQuantity,
+      discrepancy.shortQuantity,
+      discrepancy.overQuantity,
+      discrepancy.damagedQuantity,
+      discrepancy.receivedBy || '',
+      getTextCell(discrepancy.notes)
+    ];
+  });
+
+  return [
+    headers.join(','),
+    ...rows.map(row => row.join(','))
+  ].join('\n');
+};
+
+// One row per returned line, with its inspection outcome, grouped by vendor
+export const generateRmaReport = (
+  rmas: Rma[],
+  products: Product[],
+  startDate: string,
+  endDate: string,
+  vendorNumber?: string
+): string => {
+  const startDateTime = new Date(startDate);
+  const endDateTime = new Date(endDate);
+  endDateTime.setHours(23, 59, 59, 999);
+
+  const filteredRmas = rmas
+    .filter(rma => {
+      const rmaDate = new Date(rma.createdAt);
+      return rmaDate >= startDateTime &&
+        rmaDate <= endDateTime &&
+        (!vendorNumber || rma.vendorNumber === vendorNumber);
+    })
+    .sort((a, b) =>
+      a.vendorNumber.localeCompare(b.vendorNumber) ||
+      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+
+  const dispositionQuantity = (line: RmaLine, disposition: RmaDisposition) =>
+    (line.dispositions || [])
+      .filter(entry => entry.disposition === disposition)
+      .reduce((total, entry) => total + entry.quantity, 0);
+
+  const headers = ['Vendor Number', 'Date', 'RMA Number', 'Outbound Workflow', 'Status', 'SKU', 'Product Name', 'Authorised', 'Received', 'Restocked', 'Quarantined', 'Destroyed', 'Returned to Vendor', 'Reason', 'Inspected By'];
+  const rows = filteredRmas.flatMap(rma => rma.lines.map(line => {
+    const product = products.find(p => p.id === line.productId);
+    return [
+      rma.vendorNumber,
+      new Date(rma.createdAt).toLocaleDateString(),
+      rma.rmaNumber,
+      rma.outboundWorkflowNumber,
+      rmaStatusLabels[rma.status],
+      product?.sku || 'N/A',
+      product?.name || 'Unknown Product',
+      line.quantity,
+      line.receivedQuantity ?? '',
+      dispositionQuantity(line, 'restock'),
+      dispositionQuantity(line, 'quarantine'),
+      dispositionQuantity(line, 'destroy'),
+      dispositionQuantity(line, 'return_to_vendor'),
+      getTextCell(rma.reason),
+      rma.inspectedBy || ''
+    ];
+  }));
+
+  return [
+    headers.join(','),
+    ...rows.map(row => row.join(','))
+  ].join('\n');
+};
+
+// Projected demand, days of cover and stock-out date per product
+export const generateForecastReport = (
+  products: Product[],
+  transactions: Transaction[],
+  options: ForecastOptions,
+  vendorNumber?: string
+): string => {
+  const forecasts = forecastProducts(
+    products.filter(product => !vendorNumber || product.vendorNumber === vendorNumber),
+    transactions,
+    options
+  );
+  const period = options.interval === 'day' ? 'Day' : 'Week';
+
+  const headers = ['SKU', 'Name', 'Vendor Number', 'Model', 'Available', `Demand Last ${period}`, `Forecast per ${period}`, 'Forecast per Day', 'Days of Cover', 'Stock-Out Date'];
+  const rows = forecasts.map(({ product, series, periodDemand, dailyDemand, available, daysOfCover, stockOutDate }) => [
+    product.sku,
+    product.name,
+    product.vendorNumber,
+    forecastModelLabels[options.model],
+    available,
+    series[series.length - 1] || 0,
+    periodDemand.toFixed(2),
+    dailyDemand.toFixed(2),
+    daysOfCover !== null ? Math.floor(daysOfCover) : `> ${options.horizonDays}`,
+    stockOutDate ? stockOutDate.toLocaleDateString() : ''
+  ]);
+
+  return [
+    headers.join(','),
+    ...rows.map(row => row.join(','))
+  ].join('\n');
+};
+
+// ABC class by outbound volume and XYZ class by demand variability. Classes are ranked
+// across the whole warehouse before filtering to a vendor.
+export const generateAbcReport = (
+  products: Product[],
+  transactions: Transaction[],
+  options: AbcOptions,
+  vendorNumber?: string
+): string => {
+  const analysis = analyzeAbc(products, transactions, options)
+    .filter(({ product }) => !vendorNumber || product.vendorNumber === vendorNumber);
+
+  const headers = ['SKU', 'Name', 'Vendor Number', 'Basis', 'Window (Days)', 'Volume', 'Share %', 'Cumulative %', 'ABC Class', 'Variability', 'XYZ Class'];
+  const rows = analysis.map(({ product, volume, share, cumulativeShare, abcClass, variability, xyzClass }) => [
+    product.sku,
+    product.name,
+    product.vendorNumber,
+    abcBasisLabels[options.basis],
+    options.windowDays,
+    options.basis === 'cbm' ? volume.toFixed(3) : volume,
+    (share * 100).toFixed(2),
+    (cumulativeShare * 100).toFixed(2),
+    abcClass,
+    variability !== null ? variability.toFixed(2) : '',
+    xyzClass
+  ]);
+
+  return [
+    headers.join(','),
+    ...rows.map(row => row.join(','))
+  ].join('\n');
+};
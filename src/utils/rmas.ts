@@ -0,0 +1,207 @@
+import { Product, Rma, RmaDisposition, RmaDispositionEntry, RmaLine, RmaStatus, Transaction } from '../types';
+import { generateSequenceNumber, generateWorkflowNumber } from './workflow';
+
+export interface RmaDraft {
+  outboundWorkflowNumber: string;
+  reason: string;
+  notes?: string;
+  lines: { productId: string; quantity: number }[];
+}
+
+export const rmaStatusLabels: Record<RmaStatus, string> = {
+  requested: 'Requested',
+  received: 'Received',
+  inspected: 'Inspected',
+  cancelled: 'Cancelled'
+};
+
+export const rmaStatusColors: Record<RmaStatus, string> = {
+  requested: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  received: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  inspected: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  cancelled: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+};
+
+export const rmaDispositionLabels: Record<RmaDisposition, string> = {
+  restock: 'Restock',
+  quarantine: 'Quarantine',
+  destroy: 'Destroy',
+  return_to_vendor: 'Return to Vendor'
+};
+
+// Dispositions that put units away in the warehouse rather than writing them off
+export const putAwayDispositions: RmaDisposition[] = ['restock', 'quarantine'];
+
+// Quantity of each product shipped on a completed outbound workflow number
+export const getShippedQuantities = (
+  transactions: Transaction[],
+  workflowNumber: string
+): Record<string, number> => {
+  return transactions
+    .filter(t => t.type === 'outbound' && t.status === 'completed' && t.workflowNumber === workflowNumber)
+    .reduce((totals, t) => ({
+      ...totals,
+      [t.productId]: (totals[t.productId] || 0) + Number(t.quantity)
+    }), {} as Record<string, number>);
+};
+
+// Units of a product already claimed by other returns against the same outbound workflow
+export const getReturnedQuantity = (rmas: Rma[], workflowNumber: string, productId: string): number => {
+  return rmas
+    .filter(rma => rma.outboundWorkflowNumber === workflowNumber && rma.status !== 'cancelled')
+    .flatMap(rma => rma.lines)
+    .filter(line => line.productId === productId)
+    .reduce((total, line) => total + (line.receivedQuantity ?? line.quantity), 0);
+};
+
+export const getReturnableQuantity = (
+  transactions: Transaction[],
+  rmas: Rma[],
+  workflowNumber: string,
+  productId: string
+): number => {
+  const shipped = getShippedQuantities(transactions, workflowNumber)[productId] || 0;
+  return Math.max(0, shipped - getReturnedQuantity(rmas, workflowNumber, productId));
+};
+
+export const buildRma = (
+  draft: RmaDraft,
+  vendorNumber: string,
+  existingRmas: Rma[],
+  createdBy?: string
+): Rma => ({
+  id: crypto.randomUUID(),
+  rmaNumber: generateSequenceNumber(existingRmas.map(r => r.rmaNumber), 'RMA'),
+  outboundWorkflowNumber: draft.outboundWorkflowNumber,
+  vendorNumber,
+  reason: draft.reason,
+  lines: draft.lines.map(line => ({
+    id: crypto.randomUUID(),
+    productId: line.productId,
+    quantity: Number(line.quantity)
+  })),
+  status: 'requested',
+  notes: draft.notes,
+  createdBy,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+const rmaWorkflow = (
+  rma: Rma,
+  line: RmaLine,
+  existingTransactions: Transaction[],
+  fields: Partial<Transaction>,
+  handlerName?: string
+): Transaction => ({
+  id: crypto.randomUUID(),
+  productId: line.productId,
+  status: 'pending',
+  workflowNumber: generateWorkflowNumber(existingTransactions, 'RT'),
+  referenceNumber: rma.rmaNumber,
+  rmaId: rma.id,
+  handlerName,
+  notes: `RMA ${rma.rmaNumber} (${rma.outboundWorkflowNumber})`,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...fields
+});
+
+// Inbound workflows that receive each returned line into quarantine pending inspection
+export const buildRmaReceipt = (
+  rma: Rma,
+  existingTransactions: Transaction[],
+  handlerName?: string
+): Transaction[] => {
+  const transactions: Transaction[] = [];
+  rma.lines
+    .filter(line => Number(line.receivedQuantity) > 0)
+    .forEach(line => {
+      transactions.push(rmaWorkflow(rma, line, [...existingTransactions, ...transactions], {
+        type: 'inbound',
+        quantity: Number(line.receivedQuantity),
+        location: line.location,
+        stockStatus: 'quarantine'
+      }, handlerName));
+    });
+  return transactions;
+};
+
+// Movements that carry out each disposition of a received line:
+// restock releases the units from quarantine, destroy and return to vendor write them off,
+// and restocked or quarantined units are transferred when put away somewhere else
+export const buildDispositionWorkflows = (
+  rma: Rma,
+  line: RmaLine,
+  entries: RmaDispositionEntry[],
+  existingTransactions: Transaction[],
+  handlerName?: string
+): Transaction[] => {
+  const transactions: Transaction[] = [];
+  const add = (fields: Partial<Transaction>) => {
+    transactions.push(rmaWorkflow(rma, line, [...existingTransactions, ...transactions], fields, handlerName));
+  };
+
+  entries.filter(entry => entry.quantity > 0).forEach(entry => {
+    if (entry.disposition === 'restock') {
+      add({
+        type: 'status_change',
+        quantity: entry.quantity,
+        location: line.location,
+        fromStatus: 'quarantine',
+        toStatus: 'available'
+      });
+    } else if (entry.disposition === 'destroy' || entry.disposition === 'return_to_vendor') {
+      add({
+        type: 'adjustment',
+        quantity: -entry.quantity,
+        location: line.location,
+        reasonCode: entry.disposition === 'destroy' ? 'destroyed' : 'returned_to_vendor',
+        stockStatus: 'quarantine'
+      });
+    }
+
+    if (putAwayDispositions.includes(entry.disposition) && entry.location && entry.location !== line.location) {
+      add({
+        type: 'transfer',
+        quantity: entry.quantity,
+        location: line.location,
+        toLocation: entry.location
+      });
+    }
+  });
+
+  return transactions;
+};
+
+// Check a line's dispositions account for every received unit
+export const validateDispositions = (line: RmaLine, entries: RmaDispositionEntry[]): string | null => {
+  if (entries.some(entry => !Number.isInteger(entry.quantity) || entry.quantity <= 0)) {
+    return 'Disposition quantities must be whole numbers greater than 0';
+  }
+  const total = entries.reduce((sum, entry) => sum + entry.quantity, 0);
+  if (total !== Number(line.receivedQuantity)) {
+    return `Dispositions must account for all ${line.receivedQuantity} received units`;
+  }
+  return null;
+};
+
+// Total quantity per disposition across an RMA's inspected lines
+export const getDispositionTotals = (rma: Rma): Record<RmaDisposition, number> => {
+  const totals: Record<RmaDisposition, number> = { restock: 0, quarantine: 0, destroy: 0, return_to_vendor: 0 };
+  rma.lines.forEach(line => {
+    (line.dispositions || []).forEach(entry => {
+      totals[entry.disposition] += entry.quantity;
+    });
+  });
+  return totals;
+};
+
+// Shipped outbound workflow numbers holding any of the given products, newest first
+export const getReturnableWorkflows = (transactions: Transaction[], products: Product[]): string[] => {
+  const numbers = transactions
+    .filter(t => t.type === 'outbound' && t.status === 'completed')
+    .filter(t => products.some(p => p.id === t.productId))
+    .map(t => t.workflowNumber);
+  return Array.from(new Set(numbers)).sort().reverse();
+};
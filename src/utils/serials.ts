@@ -0,0 +1,167 @@
+import { SerialMovement, SerialMovementType, SerialRecord, SerialStatus } from '../types';
+
+export const serialStatusLabels: Record<SerialStatus, string> = {
+  in_stock: 'In Stock',
+  shipped: 'Shipped',
+  written_off: 'Written Off'
+};
+
+export const serialStatusColors: Record<SerialStatus, string> = {
+  in_stock: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  shipped: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  written_off: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+};
+
+export const serialMovementLabels: Record<SerialMovementType, string> = {
+  received: 'Received',
+  transferred: 'Transferred',
+  shipped: 'Shipped',
+  written_off: 'Written Off'
+};
+
+// Split typed, pasted or scanned input into serial numbers
+export const parseSerialInput = (input: string): string[] => {
+  return input
+    .split(/[\s,;]+/)
+    .map(s => s.trim())
+    .filter(Boolean);
+};
+
+const findSerial = (serials: SerialRecord[], productId: string, serialNumber: string) => {
+  return serials.find(s => s.productId === productId && s.serialNumber === serialNumber);
+};
+
+// Check serials captured for a workflow, returning an error message or null. Units coming in
+// must not already be in stock; units going out must be in stock, in the given location if any.
+export const validateSerials = (
+  serials: SerialRecord[],
+  productId: string,
+  serialNumbers: string[],
+  quantity: number,
+  direction: 'in' | 'out',
+  location?: string
+): string | null => {
+  if (serialNumbers.length !== quantity) {
+    return `Exactly ${quantity} serial numbers are required (entered: ${serialNumbers.length})`;
+  }
+
+  const duplicate = serialNumbers.find((s, index) => serialNumbers.indexOf(s) !== index);
+  if (duplicate) {
+    return `Serial number ${duplicate} was entered more than once`;
+  }
+
+  for (const serialNumber of serialNumbers) {
+    const record = findSerial(serials, productId, serialNumber);
+    if (direction === 'in' && record?.status === 'in_stock') {
+      return `Serial number ${serialNumber} is already in stock`;
+    }
+    if (direction === 'out' && record?.status !== 'in_stock') {
+      return `Serial number ${serialNumber} is not in stock`;
+    }
+    if (direction === 'out' && location && record?.location !== location) {
+      return `Serial number ${serialNumber} is not in location ${location}`;
+    }
+  }
+
+  return null;
+};
+
+// Inbounds and positive adjustments bring units in; everything else takes them out of a location
+export const getSerialDirection = (type: string, quantity: number): 'in' | 'out' =>
+  type === 'inbound' || (type === 'adjustment' && quantity > 0) ? 'in' : 'out';
+
+// A unit's movements, rebuilt from its receipt and shipment for records that predate history
+export const getSerialHistory = (record: SerialRecord): SerialMovement[] => {
+  if (record.history) return record.history;
+  const history: SerialMovement[] = [
+    { type: 'received', workflowNumber: record.receivedWorkflow, location: record.location, date: record.receivedAt }
+  ];
+  if (record.shippedAt && record.shippedWorkflow) {
+    history.push({ type: 'shipped', workflowNumber: record.shippedWorkflow, date: record.shippedAt });
+  }
+  return history;
+};
+
+const addMovement = (record: SerialRecord, movement: SerialMovement): SerialMovement[] =>
+  [...getSerialHistory(record), movement];
+
+// Record received serials; a unit that was shipped before is put back in stock with its history kept
+export const receiveSerials = (
+  serials: SerialRecord[],
+  productId: string,
+  serialNumbers: string[],
+  location: string,
+  workflowNumber: string
+): SerialRecord[] => {
+  const movement: SerialMovement = { type: 'received', workflowNumber, location, date: new Date() };
+  const received = serialNumbers.map((serialNumber): SerialRecord => {
+    const existing = findSerial(serials, productId, serialNumber);
+    return {
+      serialNumber,
+      productId,
+      status: 'in_stock',
+      location,
+      receivedAt: movement.date,
+      receivedWorkflow: workflowNumber,
+      history: existing ? addMovement(existing, movement) : [movement]
+    };
+  });
+
+  return [
+    ...serials.filter(s => !(s.productId === productId && serialNumbers.includes(s.serialNumber))),
+    ...received
+  ];
+};
+
+// Mark serials as shipped
+export const shipSerials = (
+  serials: SerialRecord[],
+  productId: string,
+  serialNumbers: string[],
+  workflowNumber: string
+): SerialRecord[] => {
+  const movement: SerialMovement = { type: 'shipped', workflowNumber, date: new Date() };
+  return serials.map(s =>
+    s.productId === productId && serialNumbers.includes(s.serialNumber)
+      ? { ...s, status: 'shipped', shippedAt: movement.date, shippedWorkflow: workflowNumber, history: addMovement(s, movement) }
+      : s
+  );
+};
+
+// Move serials to a new location
+export const moveSerials = (
+  serials: SerialRecord[],
+  productId: string,
+  serialNumbers: string[],
+  location: string,
+  workflowNumber: string
+): SerialRecord[] => {
+  const movement: SerialMovement = { type: 'transferred', workflowNumber, location, date: new Date() };
+  return serials.map(s =>
+    s.productId === productId && serialNumbers.includes(s.serialNumber)
+      ? { ...s, location, history: addMovement(s, movement) }
+      : s
+  );
+};
+
+// Mark serials removed from stock by an adjustment
+export const writeOffSerials = (
+  serials: SerialRecord[],
+  productId: string,
+  serialNumbers: string[],
+  workflowNumber: string
+): SerialRecord[] => {
+  const movement: SerialMovement = { type: 'written_off', workflowNumber, date: new Date() };
+  return serials.map(s =>
+    s.productId === productId && serialNumbers.includes(s.serialNumber)
+      ? { ...s, status: 'written_off', history: addMovement(s, movement) }
+      : s
+  );
+};
+
+// Find serial records matching a search term
+export const searchSerials = (serials: SerialRecord[], term: string): SerialRecord[] => {
+  const search = term.trim().toLowerCase();
+  if (!search) return [];
+  return serials.filter(s => s.serialNumber.toLowerCase().includes(search));
+};
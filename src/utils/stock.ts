@@ -0,0 +1,177 @@
+import { LocationStock, Product, StockStatus, Transaction } from '../types';
+
+// Get all location entries for a product, sorted by location code
+export const getProductStock = (stock: LocationStock[], productId: string): LocationStock[] => {
+  return stock
+    .filter(s => s.productId === productId && s.quantity > 0)
+    .sort((a, b) => a.location.localeCompare(b.location));
+};
+
+// Get the quantity of a product held in a single location
+export const getLocationQuantity = (stock: LocationStock[], productId: string, location: string): number => {
+  const entry = stock.find(s => s.productId === productId && s.location === location);
+  return entry ? entry.quantity : 0;
+};
+
+// Quantity held in a location by pending outbound workflows picking from it
+export const getLocationReservedQuantity = (
+  transactions: Transaction[],
+  productId: string,
+  location: string,
+  excludeTransactionId?: string
+): number => {
+  return transactions
+    .filter(t =>
+      t.productId === productId &&
+      t.type === 'outbound' &&
+      t.status === 'pending' &&
+      t.location === location &&
+      t.id !== excludeTransactionId
+    )
+    .reduce((total, t) => total + Number(t.quantity), 0);
+};
+
+// Quantity in a location not already promised to a pending outbound
+export const getUnreservedLocationQuantity = (
+  stock: LocationStock[],
+  transactions: Transaction[],
+  productId: string,
+  location: string,
+  excludeTransactionId?: string
+): number =>
+  getLocationQuantity(stock, productId, location) -
+  getLocationReservedQuantity(transactions, productId, location, excludeTransactionId);
+
+// True when any location entry for a product has gone below zero
+export const hasNegativeStock = (stock: LocationStock[], productId: string): boolean =>
+  stock.some(s => s.productId === productId && s.quantity < 0);
+
+// Sum the quantity of a product across all locations
+export const getTotalQuantity = (stock: LocationStock[], productId: string): number => {
+  return stock
+    .filter(s => s.productId === productId)
+    .reduce((total, s) => total + s.quantity, 0);
+};
+
+// Post a signed quantity change to a single location, dropping empty entries
+export const adjustLocationStock = (
+  stock: LocationStock[],
+  productId: string,
+  location: string,
+  delta: number
+): LocationStock[] => {
+  const exists = stock.some(s => s.productId === productId && s.location === location);
+  const updated = exists
+    ? stock.map(s =>
+        s.productId === productId && s.location === location
+          ? { ...s, quantity: s.quantity + delta }
+          : s
+      )
+    : [...stock, { productId, location, quantity: delta }];
+
+  return updated.filter(s => s.quantity !== 0);
+};
+
+// Remove a quantity of a product, from the given location or across locations in order
+export const removeStock = (
+  stock: LocationStock[],
+  productId: string,
+  quantity: number,
+  location?: string
+): LocationStock[] => {
+  if (location) {
+    return adjustLocationStock(stock, productId, location, -quantity);
+  }
+
+  let remaining = quantity;
+  let updated = stock;
+  getProductStock(stock, productId).forEach(entry => {
+    if (remaining <= 0) return;
+    const taken = Math.min(entry.quantity, remaining);
+    updated = adjustLocationStock(updated, productId, entry.location, -taken);
+    remaining -= taken;
+  });
+
+  return updated;
+};
+
+// Format a product's stock as "A-01: 10, B-02: 5"
+export const formatLocationBreakdown = (stock: LocationStock[], productId: string): string => {
+  return getProductStock(stock, productId)
+    .map(s => `${s.location}: ${s.quantity}`)
+    .join(', ');
+};
+
+// Quantity held by pending outbound workflows for a product
+export const getReservedQuantity = (
+  transactions: Transaction[],
+  productId: string,
+  excludeTransactionId?: string
+): number => {
+  return transactions
+    .filter(t =>
+      t.productId === productId &&
+      t.type === 'outbound' &&
+      t.status === 'pending' &&
+      t.id !== excludeTransactionId
+    )
+    .reduce((total, t) => total + Number(t.quantity), 0);
+};
+
+export const stockStatusLabels: Record<StockStatus, string> = {
+  available: 'Available',
+  quarantine: 'Quarantine',
+  damaged: 'Damaged',
+  on_hold: 'On Hold'
+};
+
+export const stockStatusColors: Record<StockStatus, string> = {
+  available: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  quarantine: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  damaged: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  on_hold: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'
+};
+
+// Statuses that keep stock on hand but out of reach of outbound workflows
+export const heldStockStatuses: StockStatus[] = ['quarantine', 'damaged', 'on_hold'];
+
+// Quantity of a product in a held status, or in all held statuses combined
+export const getHeldQuantity = (product: Product, status?: StockStatus): number => {
+  const statusQuantities = product.statusQuantities || {};
+  if (status) return Number(statusQuantities[status] || 0);
+  return heldStockStatuses.reduce((total, s) => total + Number(statusQuantities[s] || 0), 0);
+};
+
+// Move a quantity between statuses; available stock is derived, so only held statuses are stored
+export const applyStatusChange = (
+  statusQuantities: Partial<Record<StockStatus, number>> = {},
+  fromStatus: StockStatus,
+  toStatus: StockStatus,
+  quantity: number
+): Partial<Record<StockStatus, number>> => {
+  const updated = { ...statusQuantities };
+  if (fromStatus !== 'available') {
+    updated[fromStatus] = Number(updated[fromStatus] || 0) - quantity;
+  }
+  if (toStatus !== 'available') {
+    updated[toStatus] = Number(updated[toStatus] || 0) + quantity;
+  }
+  return updated;
+};
+
+// On-hand, held, reserved and available quantity for a product
+export const getStockSummary = (
+  product: Product,
+  transactions: Transaction[],
+  excludeTransactionId?: string
+) => {
+  const onHand = Number(product.quantity);
+  const held = getHeldQuantity(product);
+  const reserved = getReservedQuantity(transactions, product.id, excludeTransactionId);
+  return {
+    onHand,
+    held,
+    reserved,
+    available: Math.max(0, onHand - held - reserved)
+  };
+};
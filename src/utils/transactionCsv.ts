@@ -1,4 +1,6 @@
-import { Transaction, Product } from '../types';
+import { Transaction, Product, UomLevel } from '../types';
+import { getStockSummary } from './stock';
+import { getUnitsPerUom, parseUomLevel, uomLevelLabels } from './uom';
 
 export const parseTransactionCSV = (csvText: string, type: 'inbound' | 'outbound', products: Product[]): Transaction[] => {
   const lines = csvText.split('\n');
@@ -26,6 +28,11 @@ export const parseTransactionCSV = (csvText: string, type: 'inbound' | 'outbound
           case 'quantity':
             transaction.quantity = Number(value);
             break;
+          case 'uom':
+          case 'unit':
+            // Unrecognised units are kept as typed so validation can report them
+            if (value) transaction.uom = parseUomLevel(value) || value;
+            break;
           case 'referencenumber':
           case 'reference number':
             transaction.referenceNumber = value;
@@ -34,12 +41,31 @@ export const parseTransactionCSV = (csvText: string, type: 'inbound' | 'outbound
           case 'handler name':
             transaction.handlerName = value;
             break;
+          case 'location':
+            transaction.location = value;
+            break;
+          case 'lotnumber':
+          case 'lot number':
+            transaction.lotNumber = value || undefined;
+            break;
+          case 'expirydate':
+          case 'expiry date':
+            transaction.expiryDate = value || undefined;
+            break;
           case 'notes':
             transaction.notes = value;
             break;
         }
       });
 
+      // Quantities entered in a pack level are converted to eaches
+      const product = products.find(p => p.id === transaction.productId);
+      const unitsPerUom = product && transaction.uom ? getUnitsPerUom(product, transaction.uom) : undefined;
+      if (unitsPerUom && transaction.uom !== 'each') {
+        transaction.uomQuantity = transaction.quantity;
+        transaction.quantity = Number(transaction.quantity) * unitsPerUom;
+      }
+
       return {
         id: crypto.randomUUID(),
         createdAt: new Date(),
@@ -49,7 +75,12 @@ export const parseTransactionCSV = (csvText: string, type: 'inbound' | 'outbound
     });
 };
 
-export const validateTransactions = (transactions: Transaction[], products: Product[], type: 'inbound' | 'outbound'): string[] => {
+export const validateTransactions = (
+  transactions: Transaction[],
+  products: Product[],
+  type: 'inbound' | 'outbound',
+  existingTransactions: Transaction[] = []
+): string[] => {
   const errors: string[] = [];
   
   transactions.forEach((transaction, index) => {
@@ -59,13 +90,28 @@ export const validateTransactions = (transactions: Transaction[], products: Prod
     if (!transaction.quantity || transaction.quantity <= 0) errors.push(`Line ${lineNumber}: Quantity must be greater than 0`);
     if (!transaction.referenceNumber) errors.push(`Line ${lineNumber}: Reference Number is required`);
     if (!transaction.handlerName) errors.push(`Line ${lineNumber}: Handler Name is required`);
+    if (transaction.expiryDate && !/^\d{4}-\d{2}-\d{2}$/.test(transaction.expiryDate)) {
+      errors.push(`Line ${lineNumber}: Expiry Date must be in YYYY-MM-DD format`);
+    }
+    if (transaction.expiryDate && !transaction.lotNumber) {
+      errors.push(`Line ${lineNumber}: Lot Number is required when an Expiry Date is given`);
+    }
 
     if (transaction.productId) {
       const product = products.find(p => p.id === transaction.productId);
-      if (type === 'outbound' && product && product.quantity < transaction.quantity) {
-        errors.push(
-          `Line ${lineNumber}: Insufficient quantity for SKU ${product.sku} (available: ${product.quantity})`
-        );
+      if (product && transaction.uom && !parseUomLevel(transaction.uom)) {
+        errors.push(`Line ${lineNumber}: UoM "${transaction.uom}" is not recognised (use ea, inr, cs or plt)`);
+      } else if (product && transaction.uom && !getUnitsPerUom(product, transaction.uom)) {
+        errors.push(`Line ${lineNumber}: SKU ${product.sku} has no ${uomLevelLabels[transaction.uom as UomLevel].toLowerCase()} pack level`);
+      }
+      if (type === 'outbound' && product) {
+        // Pending outbounds and earlier lines in the file reserve stock
+        const { available } = getStockSummary(product, [...existingTransactions, ...transactions.slice(0, index)]);
+        if (available < transaction.quantity) {
+          errors.push(
+            `Line ${lineNumber}: Insufficient quantity for SKU ${product.sku} (available: ${available})`
+          );
+        }
       }
     }
   });
@@ -0,0 +1,87 @@
+import { Product, ProductUom, UomLevel } from '../types';
+
+// Smallest to largest
+export const uomLevels: UomLevel[] = ['each', 'inner', 'case', 'pallet'];
+
+export const uomLevelLabels: Record<UomLevel, string> = {
+  each: 'Each',
+  inner: 'Inner',
+  case: 'Case',
+  pallet: 'Pallet'
+};
+
+export const uomAbbreviations: Record<UomLevel, string> = {
+  each: 'ea',
+  inner: 'inr',
+  case: 'cs',
+  pallet: 'plt'
+};
+
+// Read a level from free text such as a CSV cell; returns undefined when it isn't recognised
+export const parseUomLevel = (value: string): UomLevel | undefined => {
+  const text = value.trim().toLowerCase();
+  return uomLevels.find(level =>
+    text === level || text === `${level}s` || text === uomAbbreviations[level]
+  ) || (text === 'ctn' || text === 'carton' ? 'case' : undefined);
+};
+
+// Pack levels a product is handled in, smallest first, always starting with the each
+export const getProductUoms = (product?: Product): ProductUom[] => {
+  const levels: ProductUom[] = product?.uoms || [];
+  return [
+    { level: 'each', unitsPerLevel: 1 },
+    ...levels
+      .filter(uom => uom.level !== 'each')
+      .sort((a, b) => uomLevels.indexOf(a.level) - uomLevels.indexOf(b.level))
+  ];
+};
+
+// Eaches in one of a product's pack levels, or undefined if the product has no such level
+export const getUnitsPerUom = (product: Product, level: UomLevel = 'each'): number | undefined => {
+  return getProductUoms(product).find(uom => uom.level === level)?.unitsPerLevel;
+};
+
+// Eaches in a quantity entered at a pack level, or undefined if the product has no such level
+export const toBaseQuantity = (product: Product, quantity: number, level: UomLevel = 'each'): number | undefined => {
+  const unitsPerLevel = getUnitsPerUom(product, level);
+  return unitsPerLevel === undefined ? undefined : Number(quantity) * unitsPerLevel;
+};
+
+// Break a base quantity into the product's pack levels, e.g. "12 cs + 5 ea"
+export const formatMixedQuantity = (product: Product, quantity: number): string => {
+  let remaining = Math.abs(Number(quantity));
+  const parts = [...getProductUoms(product)]
+    .reverse()
+    .map(uom => {
+      const count = Math.floor(remaining / uom.unitsPerLevel);
+      remaining -= count * uom.unitsPerLevel;
+      return count > 0 ? `${count} ${uomAbbreviations[uom.level]}` : '';
+    })
+    .filter(Boolean);
+
+  const text = parts.length > 0 ? parts.join(' + ') : '0 ea';
+  return Number(quantity) < 0 ? `-(${text})` : text;
+};
+
+// Quantity as entered on a workflow, e.g. "2 cs", falling back to the base eaches
+export const formatEnteredQuantity = (transaction: { quantity: number; uom?: UomLevel; uomQuantity?: number }) => {
+  if (!transaction.uom || transaction.uom === 'each' || transaction.uomQuantity === undefined) {
+    return `${transaction.quantity} ea`;
+  }
+  return `${transaction.uomQuantity} ${uomAbbreviations[transaction.uom]}`;
+};
+
+// Every level needs a whole number of eaches, each level bigger than the one below it
+export const validateUoms = (uoms: ProductUom[]): string | null => {
+  const sorted = [...uoms].sort((a, b) => uomLevels.indexOf(a.level) - uomLevels.indexOf(b.level));
+  let previous = 1;
+  for (const [index, uom] of sorted.entries()) {
+    if (uom.level === 'each') return 'The each is the base unit and cannot be added as a pack level';
+    if (sorted[index - 1]?.level === uom.level) return `${uomLevelLabels[uom.level]} is listed more than once`;
+    if (!Number.isInteger(uom.unitsPerLevel) || uom.unitsPerLevel <= previous) {
+      return `${uomLevelLabels[uom.level]} must hold a whole number of eaches greater than ${previous}`;
+    }
+    previous = uom.unitsPerLevel;
+  }
+  return null;
+};
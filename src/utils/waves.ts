@@ -0,0 +1,120 @@
+import { addDays, format } from 'date-fns';
+import { Order, OrderPriority, Transaction, Wave, WaveGrouping, WaveStatus } from '../types';
+import { generateSequenceNumber } from './workflow';
+import { orderPriorityLabels, orderPriorityRank } from './orders';
+
+export const waveStatusLabels: Record<WaveStatus, string> = {
+  planned: 'Planned',
+  released: 'Released',
+  picking: 'Picking',
+  packed: 'Packed',
+  shipped: 'Shipped'
+};
+
+export const waveStatusColors: Record<WaveStatus, string> = {
+  planned: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+  released: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  picking: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  packed: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
+  shipped: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+};
+
+export const waveGroupingLabels: Record<WaveGrouping, string> = {
+  carrier: 'Carrier',
+  cutoff: 'Cut-off Time',
+  priority: 'Priority'
+};
+
+// First cut-off after the given time, rolling over to the next day after the last one, e.g. "2024-10-18 16:00"
+export const getCutoffSlot = (date: Date, cutoffTimes: string[]): string => {
+  const day = format(date, 'yyyy-MM-dd');
+  const times = [...cutoffTimes].sort();
+  const time = format(date, 'HH:mm');
+  const next = times.find(t => time < t);
+  if (next) return `${day} ${next}`;
+  return times.length > 0 ? `${format(addDays(date, 1), 'yyyy-MM-dd')} ${times[0]}` : day;
+};
+
+export const getWaveGroupLabel = (wave: Pick<Wave, 'grouping' | 'groupKey'>): string => {
+  switch (wave.grouping) {
+    case 'carrier':
+      return wave.groupKey || 'No carrier';
+    case 'priority':
+      return orderPriorityLabels[wave.groupKey as OrderPriority] || wave.groupKey;
+    default:
+      return `Cut-off ${wave.groupKey}`;
+  }
+};
+
+const getGroupKey = (
+  transaction: Transaction,
+  order: Order | undefined,
+  grouping: WaveGrouping,
+  cutoffTimes: string[]
+): string => {
+  switch (grouping) {
+    case 'carrier':
+      return order?.carrier || transaction.carrier || '';
+    case 'priority':
+      return order?.priority || 'normal';
+    default:
+      return getCutoffSlot(new Date(transaction.createdAt), cutoffTimes);
+  }
+};
+
+// Group pending outbounds that aren't in a wave yet into one planned wave per carrier, priority or cut-off
+export const planWaves = (
+  transactions: Transaction[],
+  orders: Order[],
+  existingWaves: Wave[],
+  grouping: WaveGrouping,
+  cutoffTimes: string[],
+  createdBy?: string
+): Wave[] => {
+  const waved = new Set(existingWaves.flatMap(w => w.transactionIds));
+  const groups = new Map<string, string[]>();
+
+  transactions
+    .filter(t => t.type === 'outbound' && t.status === 'pending' && !waved.has(t.id))
+    .forEach(transaction => {
+      const order = orders.find(o => o.id === transaction.orderId);
+      const key = getGroupKey(transaction, order, grouping, cutoffTimes);
+      groups.set(key, [...(groups.get(key) || []), transaction.id]);
+    });
+
+  const keys = Array.from(groups.keys()).sort((a, b) =>
+    grouping === 'priority'
+      ? orderPriorityRank[a as OrderPriority] - orderPriorityRank[b as OrderPriority]
+      : a.localeCompare(b)
+  );
+
+  const waveNumbers = existingWaves.map(w => w.waveNumber);
+  return keys.map(groupKey => {
+    const waveNumber = generateSequenceNumber(waveNumbers, 'WV');
+    waveNumbers.push(waveNumber);
+    return {
+      id: crypto.randomUUID(),
+      waveNumber,
+      grouping,
+      groupKey,
+      transactionIds: groups.get(groupKey) || [],
+      status: 'planned',
+      createdBy,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+  });
+};
+
+// Pick progress of a wave; cancelled workflows drop out of the total
+export const getWaveProgress = (wave: Wave, transactions: Transaction[]) => {
+  const waveTransactions = transactions.filter(t => wave.transactionIds.includes(t.id));
+  const active = waveTransactions.filter(t => t.status !== 'cancelled');
+  const picked = active.filter(t => t.status === 'completed').length;
+  return {
+    total: active.length,
+    picked,
+    pending: active.length - picked,
+    percent: active.length > 0 ? Math.round((picked / active.length) * 100) : 0
+  };
+};
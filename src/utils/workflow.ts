@@ -1,19 +1,57 @@
-import { Transaction } from '../types';
+import { AdjustmentReason, Transaction, WorkflowType } from '../types';
 
-export const generateWorkflowNumber = (transactions: Transaction[]): string => {
+export const workflowTypeLabels: Record<WorkflowType, string> = {
+  inbound: 'Inbound',
+  outbound: 'Outbound',
+  transfer: 'Transfer',
+  adjustment: 'Adjustment',
+  status_change: 'Status Change',
+  assemble: 'Assemble',
+  disassemble: 'Disassemble'
+};
+
+export const adjustmentReasonLabels: Record<AdjustmentReason, string> = {
+  damage: 'Damage',
+  shrinkage: 'Shrinkage',
+  found: 'Found',
+  count_correction: 'Count Correction',
+  destroyed: 'Destroyed',
+  returned_to_vendor: 'Returned to Vendor'
+};
+
+export const workflowTypeColors: Record<WorkflowType, string> = {
+  inbound: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  outbound: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  transfer: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
+  adjustment: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
+  status_change: 'bg-pink-100 text-pink-800 dark:bg-pink-900 dark:text-pink-200',
+  assemble: 'bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-200',
+  disassemble: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
+};
+
+// Generate the next number in a monthly sequence, e.g. WF1024-001 or CC1024-001
+export const generateSequenceNumber = (existingNumbers: string[], code: string): string => {
   const date = new Date();
   const month = (date.getMonth() + 1).toString().padStart(2, '0');
   const year = date.getFullYear().toString().slice(-2);
-  const prefix = `WF${month}${year}-`;
+  const prefix = `${code}${month}${year}-`;
 
-  // Get all workflow numbers for the current month
-  const currentMonthWorkflows = transactions
-    .filter(t => t.workflowNumber?.startsWith(prefix))
-    .map(t => parseInt(t.workflowNumber?.split('-')[1] || '0'));
+  // Get all numbers for the current month
+  const currentMonthNumbers = existingNumbers
+    .filter(n => n.startsWith(prefix))
+    .map(n => parseInt(n.split('-')[1] || '0'));
 
   // Find the highest number and increment
-  const highestNumber = Math.max(0, ...currentMonthWorkflows);
+  const highestNumber = Math.max(0, ...currentMonthNumbers);
   const nextNumber = (highestNumber + 1).toString().padStart(3, '0');
 
   return `${prefix}${nextNumber}`;
+};
+
+// Workflow numbers are sequenced per code, e.g. WF1024-001 or TR1024-001
+export const generateWorkflowNumber = (transactions: Transaction[], code = 'WF'): string => {
+  return generateSequenceNumber(
+    transactions.map(t => t.workflowNumber || ''),
+    code
+  );
 };
\ No newline at end of file